@@ -1,16 +1,23 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import Sidebar from './components/Sidebar';
 import Dashboard from './pages/Dashboard';
 import Clients from './pages/Clients';
 import Loans from './pages/Loans';
 import Settings from './pages/Settings';
 import AIChat from './pages/AIChat';
+import AuditLog from './pages/AuditLog';
+import Collections from './pages/Collections';
 import { Menu } from 'lucide-react';
+import { StorageService } from './services/storage';
 
 function App() {
   const [currentView, setCurrentView] = useState('dashboard');
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
+  useEffect(() => {
+    StorageService.ensureDailySnapshot();
+  }, []);
+
   const renderContent = () => {
     switch (currentView) {
       case 'dashboard':
@@ -19,6 +26,10 @@ function App() {
         return <Clients />;
       case 'loans':
         return <Loans />;
+      case 'collections':
+        return <Collections />;
+      case 'audit':
+        return <AuditLog />;
       case 'ai-assistant':
         return <AIChat />;
       case 'settings':
@@ -39,21 +50,21 @@ function App() {
       )}
       
       {/* Mobile Sidebar Container */}
-      <div className={`fixed inset-y-0 left-0 z-40 w-64 bg-slate-850 transform transition-transform duration-300 md:translate-x-0 ${mobileMenuOpen ? 'translate-x-0' : '-translate-x-full'} md:static md:block`}>
+      <div className={`fixed inset-y-0 left-0 z-40 w-64 bg-slate-850 transform transition-transform duration-300 md:translate-x-0 ${mobileMenuOpen ? 'translate-x-0' : '-translate-x-full'} md:static md:block print:hidden`}>
          <Sidebar currentView={currentView} setView={(v) => { setCurrentView(v); setMobileMenuOpen(false); }} />
       </div>
 
       {/* Main Content */}
-      <div className="flex-1 flex flex-col min-w-0 overflow-hidden">
+      <div className="flex-1 flex flex-col min-w-0 overflow-hidden print:overflow-visible">
         {/* Mobile Header */}
-        <header className="md:hidden bg-white border-b border-slate-200 p-4 flex items-center justify-between">
+        <header className="md:hidden print:hidden bg-white border-b border-slate-200 p-4 flex items-center justify-between">
             <h1 className="font-bold text-lg text-slate-800">LenderPro</h1>
             <button onClick={() => setMobileMenuOpen(true)} className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg">
                 <Menu className="w-6 h-6" />
             </button>
         </header>
 
-        <main className="flex-1 overflow-y-auto p-4 md:p-8">
+        <main className="flex-1 overflow-y-auto p-4 md:p-8 print:overflow-visible print:p-0">
           <div className="max-w-7xl mx-auto">
              {renderContent()}
           </div>
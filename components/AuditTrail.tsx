@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, History } from 'lucide-react';
+import { formatAuditPath, formatAuditValue } from '../services/audit';
+import { AuditAction, AuditEntry } from '../types';
+
+interface AuditTrailProps {
+  entries: AuditEntry[];
+  // Names shown next to each entry, by client id (omitted inside a single loan's history)
+  clientNames?: Record<string, string>;
+}
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  [AuditAction.CREATE]: 'bg-emerald-100 text-emerald-700',
+  [AuditAction.UPDATE]: 'bg-blue-100 text-blue-700',
+  [AuditAction.PAYMENT]: 'bg-emerald-100 text-emerald-700',
+  [AuditAction.PREPAYMENT]: 'bg-teal-100 text-teal-700',
+  [AuditAction.REVERSAL]: 'bg-rose-100 text-rose-700',
+  [AuditAction.REFINANCE]: 'bg-violet-100 text-violet-700',
+  [AuditAction.IMPORT]: 'bg-amber-100 text-amber-700',
+  [AuditAction.RESTORE]: 'bg-amber-100 text-amber-700',
+  [AuditAction.CLEAR]: 'bg-rose-100 text-rose-700',
+  [AuditAction.ARCHIVE]: 'bg-slate-100 text-slate-600',
+  [AuditAction.DELETE]: 'bg-rose-100 text-rose-700',
+  [AuditAction.REACTIVATE]: 'bg-emerald-100 text-emerald-700',
+  [AuditAction.ANNUL]: 'bg-rose-100 text-rose-700',
+  [AuditAction.REPAIR]: 'bg-amber-100 text-amber-700'
+};
+
+const MAX_CHANGES = 100;
+
+const AuditTrail: React.FC<AuditTrailProps> = ({ entries, clientNames }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  if (entries.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-slate-400 px-4 py-6 justify-center">
+        <History className="w-4 h-4" />
+        No hay cambios registrados.
+      </div>
+    );
+  }
+
+  return (
+    <div className="divide-y divide-slate-100">
+      {entries.map(entry => {
+        const isOpen = expanded === entry.id;
+        return (
+          <div key={entry.id} className="px-4 py-3">
+            <button type="button" className="w-full flex items-start gap-3 text-left" disabled={entry.changes.length === 0}
+              onClick={() => setExpanded(isOpen ? null : entry.id)}>
+              <span className="mt-0.5 text-slate-400 w-4 flex-shrink-0">
+                {entry.changes.length > 0 && (isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />)}
+              </span>
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <span className={`px-2 py-0.5 rounded-full font-medium ${ACTION_STYLES[entry.action]}`}>{entry.action}</span>
+                  <span className="text-slate-500">{entry.entity}</span>
+                  {clientNames && entry.clientId && (
+                    <span className="text-slate-700 font-medium">{clientNames[entry.clientId] || 'Cliente Eliminado'}</span>
+                  )}
+                  <span className="text-slate-400 ml-auto whitespace-nowrap">
+                    {new Date(entry.timestamp).toLocaleString('es-PE')} · {entry.actor}
+                  </span>
+                </div>
+                <p className="text-sm text-slate-800 mt-1">{entry.summary}</p>
+              </div>
+            </button>
+
+            {isOpen && (
+              <div className="mt-2 ml-7 border border-slate-100 rounded-lg max-h-64 overflow-y-auto">
+                <table className="w-full text-xs text-left">
+                  <thead className="bg-slate-50 text-slate-500 uppercase sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2">Campo</th>
+                      <th className="px-3 py-2">Antes</th>
+                      <th className="px-3 py-2">Después</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {entry.changes.slice(0, MAX_CHANGES).map((change, idx) => (
+                      <tr key={idx} className="align-top">
+                        <td className="px-3 py-2 text-slate-700" title={change.path}>{formatAuditPath(change.path)}</td>
+                        <td className="px-3 py-2 font-mono text-rose-600 break-all">{formatAuditValue(change.before)}</td>
+                        <td className="px-3 py-2 font-mono text-emerald-700 break-all">{formatAuditValue(change.after)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {entry.changes.length > MAX_CHANGES && (
+                  <p className="text-xs text-slate-400 px-3 py-2 border-t border-slate-100">
+                    y {entry.changes.length - MAX_CHANGES} cambios más.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AuditTrail;
@@ -0,0 +1,136 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Paperclip, Upload, Eye, Download, Trash2, FileText, AlertCircle } from 'lucide-react';
+import { Attachment, AttachmentKind } from '../types';
+import { StorageService } from '../services/storage';
+import { formatDate } from '../utils';
+
+interface ClientAttachmentsProps {
+  clientId: string;
+}
+
+const ClientAttachments: React.FC<ClientAttachmentsProps> = ({ clientId }) => {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [kind, setKind] = useState<AttachmentKind>(AttachmentKind.ID);
+  const [error, setError] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    StorageService.getAttachments(clientId).then(setAttachments);
+  }, [clientId]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setUploading(true);
+    const result = await StorageService.addAttachment(clientId, file, kind);
+    setUploading(false);
+    if (!result.success || !result.attachment) {
+      setError(result.message || 'No se pudo guardar el archivo.');
+      return;
+    }
+    setError(null);
+    setAttachments(prev => [result.attachment!, ...prev]);
+  };
+
+  // Opens the file in a new tab, or saves it when download is set
+  const handleOpen = async (attachment: Attachment, download: boolean) => {
+    const content = await StorageService.getAttachmentContent(attachment.id);
+    if (!content) {
+      setError(`El contenido de ${attachment.name} ya no está disponible.`);
+      return;
+    }
+    const url = URL.createObjectURL(content);
+    if (download) {
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.name;
+      link.click();
+    } else {
+      window.open(url, '_blank');
+    }
+    // Give the new tab time to load before the URL is released
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    await StorageService.removeAttachment(attachment);
+    setPendingDelete(null);
+    setAttachments(prev => prev.filter(a => a.id !== attachment.id));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-100 p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <Paperclip className="w-5 h-5 text-slate-400" />
+          Documentos Adjuntos ({attachments.length})
+        </h3>
+        <div className="flex gap-2">
+          <select className="border border-slate-300 rounded-lg px-3 py-2 text-sm bg-white" value={kind}
+            onChange={e => setKind(e.target.value as AttachmentKind)}>
+            {Object.values(AttachmentKind).map(k => <option key={k} value={k}>{k}</option>)}
+          </select>
+          <button type="button" disabled={uploading} onClick={() => fileInput.current?.click()}
+            className="px-3 py-2 bg-slate-800 text-white rounded-lg text-sm hover:bg-slate-900 flex items-center gap-1 disabled:opacity-50">
+            <Upload className="w-4 h-4" />
+            {uploading ? 'Guardando...' : 'Adjuntar'}
+          </button>
+          <input ref={fileInput} type="file" accept="image/*,application/pdf" className="hidden" onChange={handleUpload} />
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-rose-700 bg-rose-50 border border-rose-100 rounded-lg px-4 py-3 mb-4">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {attachments.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-4">Sin documentos. Adjunta la foto del documento de identidad o el contrato firmado.</p>
+      ) : (
+        <div className="divide-y divide-slate-100">
+          {attachments.map(attachment => (
+            <div key={attachment.id} className="flex items-center gap-3 py-3 text-sm">
+              <FileText className="w-5 h-5 text-slate-400 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-slate-800 truncate">{attachment.name}</p>
+                <p className="text-xs text-slate-500">
+                  {attachment.kind} · {(attachment.size / 1024).toFixed(1)} KB · {formatDate(attachment.createdAt)}
+                </p>
+              </div>
+              {pendingDelete === attachment.id ? (
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="text-slate-600">¿Eliminar?</span>
+                  <button onClick={() => handleDelete(attachment)} className="px-2 py-1 bg-rose-600 text-white rounded-md hover:bg-rose-700">Sí</button>
+                  <button onClick={() => setPendingDelete(null)} className="px-2 py-1 text-slate-600 hover:bg-slate-50 rounded-md">No</button>
+                </div>
+              ) : (
+                <div className="flex gap-1">
+                  <button onClick={() => handleOpen(attachment, false)} className="p-2 text-slate-400 hover:text-emerald-600 hover:bg-slate-50 rounded-full" title="Ver">
+                    <Eye className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleOpen(attachment, true)} className="p-2 text-slate-400 hover:text-emerald-600 hover:bg-slate-50 rounded-full" title="Descargar">
+                    <Download className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => setPendingDelete(attachment.id)} className="p-2 text-slate-400 hover:text-rose-600 hover:bg-slate-50 rounded-full" title="Eliminar">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-slate-400 mt-4">
+        Los adjuntos se guardan solo en este navegador y no se incluyen en las copias de seguridad ni en los puntos de restauración.
+      </p>
+    </div>
+  );
+};
+
+export default ClientAttachments;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { CreditGrade } from '../types';
+import { GRADE_DESCRIPTIONS } from '../services/scoring';
+
+interface CreditGradeBadgeProps {
+  grade: CreditGrade | null;
+  size?: 'sm' | 'lg';
+}
+
+const GRADE_STYLES: Record<CreditGrade, string> = {
+  [CreditGrade.A]: 'bg-emerald-100 text-emerald-700',
+  [CreditGrade.B]: 'bg-teal-100 text-teal-700',
+  [CreditGrade.C]: 'bg-amber-100 text-amber-700',
+  [CreditGrade.D]: 'bg-orange-100 text-orange-700',
+  [CreditGrade.E]: 'bg-rose-100 text-rose-700'
+};
+
+const CreditGradeBadge: React.FC<CreditGradeBadgeProps> = ({ grade, size = 'sm' }) => {
+  const sizeClass = size === 'lg' ? 'w-12 h-12 text-xl' : 'w-6 h-6 text-xs';
+  const style = grade ? GRADE_STYLES[grade] : 'bg-slate-100 text-slate-400';
+  return (
+    <span className={`${sizeClass} ${style} rounded-full font-bold inline-flex items-center justify-center flex-shrink-0`}
+      title={grade ? `Calificación ${grade}: ${GRADE_DESCRIPTIONS[grade]}` : 'Sin historial de pagos'}>
+      {grade || '–'}
+    </span>
+  );
+};
+
+export default CreditGradeBadge;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Download, FileSpreadsheet, X } from 'lucide-react';
+import { StorageService } from '../services/storage';
+import { buildExportTable, downloadBlob, exportTableFile } from '../services/spreadsheetExport';
+import { ExportDataset, ExportFormat, LoanStatus } from '../types';
+
+interface ExportDialogProps {
+  initialStatus?: LoanStatus | 'ALL';
+  onClose: () => void;
+}
+
+// Where the date range applies for each dataset
+const RANGE_HINTS: Record<ExportDataset, string> = {
+  [ExportDataset.CLIENTS]: 'Fecha de registro del cliente',
+  [ExportDataset.LOANS]: 'Fecha de inicio del préstamo',
+  [ExportDataset.SCHEDULES]: 'Fecha de vencimiento de la cuota',
+  [ExportDataset.PAYMENTS]: 'Fecha del pago'
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ initialStatus = 'ALL', onClose }) => {
+  const [dataset, setDataset] = useState<ExportDataset>(ExportDataset.LOANS);
+  const [format, setFormat] = useState<ExportFormat>(ExportFormat.XLSX);
+  const [status, setStatus] = useState<LoanStatus | 'ALL'>(initialStatus);
+  const [range, setRange] = useState({ from: '', to: '' });
+  const [message, setMessage] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setMessage(null);
+    try {
+      const [clients, loans] = await Promise.all([StorageService.getClients(), StorageService.getLoans()]);
+      const table = buildExportTable(dataset, clients, loans, { status, from: range.from || undefined, to: range.to || undefined });
+      if (table.rows.length === 0) {
+        setMessage('No hay registros que coincidan con los filtros.');
+        return;
+      }
+      const { blob, fileName } = exportTableFile(table, format);
+      downloadBlob(blob, fileName);
+      onClose();
+    } catch (e) {
+      console.error("Error exporting data", e);
+      setMessage('Hubo un error al generar el archivo.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3 text-blue-600">
+            <FileSpreadsheet className="w-6 h-6" />
+            <h3 className="text-xl font-bold text-slate-900">Exportar a Excel</h3>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 rounded">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-xs font-bold text-slate-600 mb-1">Datos</label>
+            <div className="grid grid-cols-4 gap-2">
+              {Object.values(ExportDataset).map(d => (
+                <button key={d} type="button" onClick={() => setDataset(d)}
+                  className={`text-xs py-1.5 rounded-md border transition-colors ${dataset === d ? 'bg-blue-100 border-blue-500 text-blue-700 font-bold' : 'bg-white border-slate-300 text-slate-500'}`}>
+                  {d}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-bold text-slate-600 mb-1">Estado del préstamo</label>
+              <select className="w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm bg-white" value={status}
+                onChange={e => setStatus(e.target.value as LoanStatus | 'ALL')}>
+                <option value="ALL">Todos los Estados</option>
+                {Object.values(LoanStatus).map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-600 mb-1">Formato</label>
+              <select className="w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm bg-white" value={format}
+                onChange={e => setFormat(e.target.value as ExportFormat)}>
+                {Object.values(ExportFormat).map(f => <option key={f} value={f}>{f}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-600 mb-1">Desde</label>
+              <input type="date" className="w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm" value={range.from}
+                onChange={e => setRange({ ...range, from: e.target.value })} />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-600 mb-1">Hasta</label>
+              <input type="date" className="w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm" value={range.to}
+                onChange={e => setRange({ ...range, to: e.target.value })} />
+            </div>
+          </div>
+          <p className="text-xs text-slate-400">
+            El rango se aplica a: {RANGE_HINTS[dataset].toLowerCase()}.
+            {format === ExportFormat.CSV && ' El CSV usa punto y coma y coma decimal, como lo espera Excel en español.'}
+          </p>
+          {message && <p className="text-sm text-rose-600">{message}</p>}
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-50 rounded-lg">Cancelar</button>
+          <button onClick={handleExport} disabled={isExporting}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center gap-2 disabled:opacity-50">
+            <Download className="w-4 h-4" />
+            {isExporting ? 'Generando...' : 'Descargar'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -1,5 +1,5 @@
 import React from 'react';
-import { LayoutDashboard, Users, Banknote, Settings, Wallet, MessageSquareCode } from 'lucide-react';
+import { LayoutDashboard, Users, Banknote, Settings, Wallet, MessageSquareCode, ClipboardList, Route } from 'lucide-react';
 
 interface SidebarProps {
   currentView: string;
@@ -11,6 +11,8 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, setView }) => {
     { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
     { id: 'clients', label: 'Clientes', icon: Users },
     { id: 'loans', label: 'Préstamos', icon: Banknote },
+    { id: 'collections', label: 'Cobranza del Día', icon: Route },
+    { id: 'audit', label: 'Auditoría', icon: ClipboardList },
     { id: 'ai-assistant', label: 'Asistente AI', icon: MessageSquareCode },
     { id: 'settings', label: 'Configuración', icon: Settings },
   ];
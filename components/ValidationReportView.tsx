@@ -0,0 +1,77 @@
+import React from 'react';
+import { CheckCircle, ShieldAlert } from 'lucide-react';
+import { ValidationReport } from '../services/validation';
+import { ValidationAction } from '../types';
+
+interface ValidationReportViewProps {
+  report: ValidationReport;
+}
+
+const MAX_ROWS = 200;
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '(vacío)';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+};
+
+const ValidationReportView: React.FC<ValidationReportViewProps> = ({ report }) => {
+  const fixed = report.issues.filter(i => i.action === ValidationAction.FIXED).length;
+
+  if (report.issues.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-emerald-700 bg-emerald-50 border border-emerald-100 rounded-lg px-3 py-2">
+        <CheckCircle className="w-4 h-4" />
+        Todos los registros superaron la validación.
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-2 text-xs">
+        <ShieldAlert className="w-4 h-4 text-amber-600" />
+        <span className="px-2 py-0.5 rounded-full font-medium bg-blue-100 text-blue-700">Correcciones: {fixed}</span>
+        <span className="px-2 py-0.5 rounded-full font-medium bg-rose-100 text-rose-700">Clientes rechazados: {report.rejectedClients}</span>
+        <span className="px-2 py-0.5 rounded-full font-medium bg-rose-100 text-rose-700">Préstamos rechazados: {report.rejectedLoans}</span>
+      </div>
+      <div className="border border-slate-100 rounded-lg max-h-64 overflow-y-auto">
+        <table className="w-full text-xs text-left">
+          <thead className="bg-slate-50 text-slate-500 uppercase sticky top-0">
+            <tr>
+              <th className="px-3 py-2">Registro</th>
+              <th className="px-3 py-2">Campo</th>
+              <th className="px-3 py-2">Valor</th>
+              <th className="px-3 py-2">Resultado</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {report.issues.slice(0, MAX_ROWS).map((issue, idx) => (
+              <tr key={idx} className="align-top">
+                <td className="px-3 py-2 text-slate-700">{issue.record}</td>
+                <td className="px-3 py-2 font-mono text-slate-500">{issue.path}</td>
+                <td className="px-3 py-2 font-mono text-slate-500">{formatValue(issue.value)}</td>
+                <td className="px-3 py-2">
+                  <span className={`font-medium ${issue.action === ValidationAction.REJECTED ? 'text-rose-600' : 'text-blue-600'}`}>
+                    {issue.action}
+                  </span>
+                  {issue.action === ValidationAction.FIXED && issue.fix !== undefined && (
+                    <span className="text-slate-500"> → <span className="font-mono">{formatValue(issue.fix)}</span></span>
+                  )}
+                  <p className="text-[10px] text-slate-400">{issue.message}</p>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {report.issues.length > MAX_ROWS && (
+          <p className="text-xs text-slate-400 px-3 py-2 border-t border-slate-100">
+            y {report.issues.length - MAX_ROWS} observaciones más.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ValidationReportView;
@@ -0,0 +1,90 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ClipboardList, Filter, Save, UserCheck } from 'lucide-react';
+import { AuditAction, AuditEntry, Client, Loan } from '../types';
+import { StorageService } from '../services/storage';
+import { formatCurrency, formatDate } from '../utils';
+import AuditTrail from '../components/AuditTrail';
+
+const AuditLog: React.FC = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [loans, setLoans] = useState<Loan[]>([]);
+  const [clientId, setClientId] = useState('');
+  const [loanId, setLoanId] = useState('');
+  const [action, setAction] = useState<AuditAction | 'ALL'>('ALL');
+  const [operator, setOperator] = useState(() => StorageService.getSettings().operator);
+  const [operatorSaved, setOperatorSaved] = useState(false);
+
+  useEffect(() => {
+    StorageService.getClients().then(setClients);
+    StorageService.getLoans().then(setLoans);
+  }, []);
+
+  useEffect(() => {
+    StorageService.getAuditLog({ clientId: clientId || undefined, loanId: loanId || undefined }).then(setEntries);
+  }, [clientId, loanId]);
+
+  const clientNames = useMemo(() => Object.fromEntries(clients.map(c => [c.id, c.name])), [clients]);
+  const clientLoans = loans.filter(l => !clientId || l.clientId === clientId);
+  const visible = entries.filter(e => action === 'ALL' || e.action === action);
+
+  const handleSaveOperator = (e: React.FormEvent) => {
+    e.preventDefault();
+    StorageService.saveSettings({ ...StorageService.getSettings(), operator: operator.trim() });
+    setOperatorSaved(true);
+    setTimeout(() => setOperatorSaved(false), 2000);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+            <ClipboardList className="w-6 h-6 text-slate-500" />
+            Auditoría ({visible.length})
+          </h2>
+          <p className="text-sm text-slate-500 mt-1">Registro permanente de cada cambio en clientes, préstamos y cuotas.</p>
+        </div>
+        <form onSubmit={handleSaveOperator} className="flex items-center gap-2">
+          <UserCheck className="w-4 h-4 text-slate-400" />
+          <input type="text" placeholder="Nombre del operador" className="border border-slate-300 rounded-lg px-3 py-2 text-sm bg-white"
+            value={operator} onChange={e => setOperator(e.target.value)} />
+          <button type="submit" className="px-3 py-2 bg-slate-800 text-white rounded-lg text-sm hover:bg-slate-900 flex items-center gap-1">
+            <Save className="w-4 h-4" />
+            {operatorSaved ? 'Guardado' : 'Guardar'}
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+        <div className="p-4 border-b border-slate-100 bg-slate-50 grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div className="relative">
+            <Filter className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none" />
+            <select className="w-full pl-9 pr-4 py-2 border border-slate-300 rounded-lg text-sm bg-white" value={clientId}
+              onChange={e => { setClientId(e.target.value); setLoanId(''); }}>
+              <option value="">Todos los clientes</option>
+              {clients.map(c => <option key={c.id} value={c.id}>{c.name} ({c.dni})</option>)}
+            </select>
+          </div>
+          <select className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white" value={loanId}
+            onChange={e => setLoanId(e.target.value)}>
+            <option value="">Todos los préstamos</option>
+            {clientLoans.map(l => (
+              <option key={l.id} value={l.id}>
+                {clientNames[l.clientId] || 'Cliente Eliminado'} · {formatCurrency(l.amount)} · {formatDate(l.startDate)}
+              </option>
+            ))}
+          </select>
+          <select className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white" value={action}
+            onChange={e => setAction(e.target.value as AuditAction | 'ALL')}>
+            <option value="ALL">Todas las acciones</option>
+            {Object.values(AuditAction).map(a => <option key={a} value={a}>{a}</option>)}
+          </select>
+        </div>
+        <AuditTrail entries={visible} clientNames={clientNames} />
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
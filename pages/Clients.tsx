@@ -1,8 +1,38 @@
-import React, { useState, useEffect } from 'react';
-import { Plus, Search, MapPin, Phone, User as UserIcon, Edit2, Calendar, Clock, DollarSign, ChevronLeft } from 'lucide-react';
-import { Client, Loan } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Plus, Search, MapPin, Phone, User as UserIcon, Edit2, Calendar, Clock, DollarSign, ChevronLeft, Link2, Archive, Trash2, RotateCcw, AlertCircle, Mail, Briefcase, Crosshair, Users, X, ShieldCheck, Route } from 'lucide-react';
+import { Client, ClientReference, DocumentType, Loan } from '../types';
 import { StorageService } from '../services/storage';
+import { isClientActive } from '../services/integrity';
+import { normalizeDocument } from '../services/kyc';
+import { CreditScore, GRADE_DESCRIPTIONS, scoreClient, scoreClients } from '../services/scoring';
 import { formatCurrency, formatDate } from '../utils';
+import ClientAttachments from '../components/ClientAttachments';
+import CreditGradeBadge from '../components/CreditGradeBadge';
+
+const emptyForm = {
+  id: '',
+  name: '',
+  documentType: DocumentType.DNI,
+  dni: '',
+  phone: '',
+  email: '',
+  address: '',
+  birthDate: '',
+  occupation: '',
+  monthlyIncome: '',
+  creditLimit: '',
+  latitude: '',
+  longitude: '',
+  zone: '',
+  collector: '',
+  references: [] as ClientReference[]
+};
+
+const inputClass = "w-full border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500";
+
+const mapsUrl = (latitude: number, longitude: number) => `https://www.google.com/maps?q=${latitude},${longitude}`;
+
+const optionalNumber = (value: string): number | undefined => value.trim() === '' ? undefined : Number(value);
 
 const Clients: React.FC = () => {
   const [view, setView] = useState<'list' | 'create' | 'detail'>('list');
@@ -10,22 +40,29 @@ const Clients: React.FC = () => {
   const [loans, setLoans] = useState<Loan[]>([]);
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
   const [isEditing, setIsEditing] = useState(false);
-  const [formData, setFormData] = useState({
-    id: '',
-    name: '',
-    dni: '',
-    phone: '',
-    address: ''
-  });
+  const [formData, setFormData] = useState(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [locating, setLocating] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
+  const [listMode, setListMode] = useState<'active' | 'archived'>('active');
+  const [pendingState, setPendingState] = useState<'archived' | 'deleted' | null>(null);
+  const [stateError, setStateError] = useState<string | null>(null);
 
   useEffect(() => {
-    setClients(StorageService.getClients());
-    setLoans(StorageService.getLoans());
+    StorageService.getClients().then(setClients);
+    StorageService.getLoans().then(setLoans);
   }, [view]);
 
+  const scores = useMemo(() => scoreClients(loans), [loans]);
+  // Values already in use, offered as suggestions so the same zone is not typed two ways
+  const zones = useMemo(() => Array.from(new Set(clients.map(c => c.zone).filter(Boolean))).sort(), [clients]);
+  const collectors = useMemo(() => Array.from(new Set(clients.map(c => c.collector).filter(Boolean))).sort(), [clients]);
+  // Clients without loans are scored on an empty history
+  const scoreOf = (clientId: string): CreditScore => scores[clientId] || scoreClient([]);
+
   const resetForm = () => {
-    setFormData({ id: '', name: '', dni: '', phone: '', address: '' });
+    setFormData(emptyForm);
+    setFormError(null);
     setIsEditing(false);
   };
 
@@ -33,26 +70,57 @@ const Clients: React.FC = () => {
     setFormData({
       id: client.id,
       name: client.name,
+      documentType: client.documentType || DocumentType.DNI,
       dni: client.dni,
       phone: client.phone,
-      address: client.address
+      email: client.email || '',
+      address: client.address,
+      birthDate: client.birthDate || '',
+      occupation: client.occupation || '',
+      monthlyIncome: client.monthlyIncome !== undefined ? String(client.monthlyIncome) : '',
+      creditLimit: client.creditLimit !== undefined ? String(client.creditLimit) : '',
+      latitude: client.latitude !== undefined ? String(client.latitude) : '',
+      longitude: client.longitude !== undefined ? String(client.longitude) : '',
+      zone: client.zone || '',
+      collector: client.collector || '',
+      references: client.references || []
     });
+    setFormError(null);
     setIsEditing(true);
     setView('create');
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     const clientPayload: Client = {
       id: isEditing ? formData.id : crypto.randomUUID(),
       name: formData.name,
-      dni: formData.dni,
+      documentType: formData.documentType,
+      dni: normalizeDocument(formData.dni),
       phone: formData.phone,
       address: formData.address,
-      createdAt: isEditing ? (selectedClient?.createdAt || new Date().toISOString()) : new Date().toISOString()
+      email: formData.email.trim() || undefined,
+      birthDate: formData.birthDate || undefined,
+      occupation: formData.occupation.trim() || undefined,
+      monthlyIncome: optionalNumber(formData.monthlyIncome),
+      creditLimit: optionalNumber(formData.creditLimit),
+      latitude: optionalNumber(formData.latitude),
+      longitude: optionalNumber(formData.longitude),
+      zone: formData.zone.trim() || undefined,
+      collector: formData.collector.trim() || undefined,
+      routeOrder: isEditing ? selectedClient?.routeOrder : undefined,
+      // Rows left completely blank are dropped; half-filled ones are reported by the validation
+      references: formData.references.filter(r => r.name.trim() || r.phone.trim() || r.relationship.trim()),
+      createdAt: isEditing ? (selectedClient?.createdAt || new Date().toISOString()) : new Date().toISOString(),
+      archivedAt: isEditing ? selectedClient?.archivedAt : undefined,
+      deletedAt: isEditing ? selectedClient?.deletedAt : undefined
     };
     
-    StorageService.saveClient(clientPayload);
+    const result = await StorageService.saveClient(clientPayload);
+    if (!result.success) {
+      setFormError(result.message || 'No se pudo guardar el cliente.');
+      return;
+    }
     setClients(prev => isEditing ? prev.map(c => c.id === clientPayload.id ? clientPayload : c) : [...prev, clientPayload]);
     if (selectedClient && selectedClient.id === clientPayload.id) setSelectedClient(clientPayload);
     
@@ -60,16 +128,53 @@ const Clients: React.FC = () => {
     resetForm();
   };
 
+  const handleLocate = () => {
+    if (!navigator.geolocation) {
+      setFormError('Este navegador no permite obtener la ubicación.');
+      return;
+    }
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      position => {
+        setLocating(false);
+        setFormData(prev => ({ ...prev, latitude: position.coords.latitude.toFixed(6), longitude: position.coords.longitude.toFixed(6) }));
+      },
+      () => {
+        setLocating(false);
+        setFormError('No se pudo obtener la ubicación. Revisa los permisos del navegador.');
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  };
+
+  const handleReferenceChange = (index: number, changes: Partial<ClientReference>) => {
+    setFormData(prev => ({ ...prev, references: prev.references.map((r, i) => i === index ? { ...r, ...changes } : r) }));
+  };
+
+  const handleSetState = async (client: Client, state: 'archived' | 'deleted' | 'active') => {
+    const result = await StorageService.setClientState(client.id, state);
+    setPendingState(null);
+    if (!result.success) {
+      setStateError(result.message || 'No se pudo actualizar el cliente.');
+      return;
+    }
+    setStateError(null);
+    const updated = await StorageService.getClients();
+    setClients(updated);
+    setSelectedClient(updated.find(c => c.id === client.id) || null);
+  };
+
   // Safe filtering that won't crash on incomplete data
   const filteredClients = clients.filter(c => {
     if (!c) return false;
+    if ((listMode === 'active') !== isClientActive(c)) return false;
     const name = c.name || '';
     const dni = c.dni || '';
     return name.toLowerCase().includes(searchTerm.toLowerCase()) || dni.includes(searchTerm);
   });
 
   const renderForm = () => (
-    <div className="max-w-xl mx-auto">
+    <div className="max-w-2xl mx-auto">
          <div className="flex items-center gap-2 mb-6 cursor-pointer text-slate-500 hover:text-emerald-600" onClick={() => { resetForm(); setView(selectedClient ? 'detail' : 'list'); }}>
             <ChevronLeft className="w-4 h-4" />
             <span className="text-sm">Volver</span>
@@ -78,27 +183,147 @@ const Clients: React.FC = () => {
             <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
               <h3 className="font-bold text-lg text-slate-800">{isEditing ? 'Editar Cliente' : 'Registrar Nuevo Cliente'}</h3>
             </div>
-            <form onSubmit={handleSubmit} className="p-6 space-y-4">
-              <div>
-                <label className="block text-sm font-bold text-slate-700 mb-1">Nombre Completo</label>
-                <input required type="text" className="w-full border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
-                  value={formData.name} onChange={e => setFormData({...formData, name: e.target.value})} />
+            <form onSubmit={handleSubmit} className="p-6 space-y-6">
+              {formError && (
+                <div className="flex items-center gap-2 text-sm text-rose-700 bg-rose-50 border border-rose-100 rounded-lg px-4 py-3">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                  {formError}
+                </div>
+              )}
+
+              <div className="space-y-4">
+                <h4 className="text-xs text-slate-500 uppercase font-semibold">Identificación</h4>
+                <div>
+                  <label className="block text-sm font-bold text-slate-700 mb-1">Nombre Completo</label>
+                  <input required type="text" className={inputClass}
+                    value={formData.name} onChange={e => setFormData({...formData, name: e.target.value})} />
+                </div>
+                <div className="grid grid-cols-3 gap-3">
+                  <div>
+                    <label className="block text-sm font-bold text-slate-700 mb-1">Documento</label>
+                    <select className={`${inputClass} bg-white`} value={formData.documentType}
+                      onChange={e => setFormData({...formData, documentType: e.target.value as DocumentType})}>
+                      {Object.values(DocumentType).map(t => <option key={t} value={t}>{t}</option>)}
+                    </select>
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-sm font-bold text-slate-700 mb-1">Número</label>
+                    <input required type="text" className={`${inputClass} font-mono`}
+                      placeholder={formData.documentType === DocumentType.DNI ? '8 dígitos' : formData.documentType === DocumentType.RUC ? '11 dígitos' : '9 a 12 caracteres'}
+                      value={formData.dni} onChange={e => setFormData({...formData, dni: e.target.value})} />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-bold text-slate-700 mb-1">Fecha de Nacimiento</label>
+                  <input type="date" className={inputClass}
+                    value={formData.birthDate} onChange={e => setFormData({...formData, birthDate: e.target.value})} />
+                </div>
               </div>
-              <div>
-                <label className="block text-sm font-bold text-slate-700 mb-1">DNI / Identificación</label>
-                <input required type="text" className="w-full border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
-                  value={formData.dni} onChange={e => setFormData({...formData, dni: e.target.value})} />
+
+              <div className="space-y-4 border-t border-slate-100 pt-6">
+                <h4 className="text-xs text-slate-500 uppercase font-semibold">Contacto</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-bold text-slate-700 mb-1">Teléfono</label>
+                    <input required type="tel" className={inputClass}
+                      value={formData.phone} onChange={e => setFormData({...formData, phone: e.target.value})} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-bold text-slate-700 mb-1">Correo Electrónico</label>
+                    <input type="email" className={inputClass}
+                      value={formData.email} onChange={e => setFormData({...formData, email: e.target.value})} />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-bold text-slate-700 mb-1">Dirección</label>
+                  <textarea required className={inputClass}
+                    rows={2}
+                    value={formData.address} onChange={e => setFormData({...formData, address: e.target.value})} />
+                </div>
+                <div>
+                  <label className="block text-sm font-bold text-slate-700 mb-1">Ubicación del Domicilio o Negocio</label>
+                  <div className="flex flex-wrap gap-2">
+                    <input type="number" step="any" min="-90" max="90" placeholder="Latitud" className={`${inputClass} flex-1 min-w-[120px]`}
+                      value={formData.latitude} onChange={e => setFormData({...formData, latitude: e.target.value})} />
+                    <input type="number" step="any" min="-180" max="180" placeholder="Longitud" className={`${inputClass} flex-1 min-w-[120px]`}
+                      value={formData.longitude} onChange={e => setFormData({...formData, longitude: e.target.value})} />
+                    <button type="button" onClick={handleLocate} disabled={locating}
+                      className="px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-700 hover:bg-slate-50 flex items-center gap-1 disabled:opacity-50">
+                      <Crosshair className="w-4 h-4" />
+                      {locating ? 'Ubicando...' : 'Usar mi ubicación'}
+                    </button>
+                  </div>
+                  {formData.latitude && formData.longitude && (
+                    <a href={mapsUrl(Number(formData.latitude), Number(formData.longitude))} target="_blank" rel="noreferrer"
+                      className="text-xs text-emerald-700 hover:underline mt-1 inline-block">Ver en el mapa</a>
+                  )}
+                </div>
               </div>
-              <div>
-                <label className="block text-sm font-bold text-slate-700 mb-1">Teléfono</label>
-                <input required type="tel" className="w-full border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
-                  value={formData.phone} onChange={e => setFormData({...formData, phone: e.target.value})} />
+
+              <div className="space-y-4 border-t border-slate-100 pt-6">
+                <h4 className="text-xs text-slate-500 uppercase font-semibold">Cobranza</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-bold text-slate-700 mb-1">Zona</label>
+                    <input type="text" list="client-zones" className={inputClass} placeholder="Ej. Mercado Central"
+                      value={formData.zone} onChange={e => setFormData({...formData, zone: e.target.value})} />
+                    <datalist id="client-zones">
+                      {zones.map(z => <option key={z} value={z} />)}
+                    </datalist>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-bold text-slate-700 mb-1">Cobrador</label>
+                    <input type="text" list="client-collectors" className={inputClass}
+                      value={formData.collector} onChange={e => setFormData({...formData, collector: e.target.value})} />
+                    <datalist id="client-collectors">
+                      {collectors.map(c => <option key={c} value={c} />)}
+                    </datalist>
+                  </div>
+                </div>
               </div>
-              <div>
-                <label className="block text-sm font-bold text-slate-700 mb-1">Dirección</label>
-                <textarea required className="w-full border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
-                  rows={2}
-                  value={formData.address} onChange={e => setFormData({...formData, address: e.target.value})} />
+
+              <div className="space-y-4 border-t border-slate-100 pt-6">
+                <h4 className="text-xs text-slate-500 uppercase font-semibold">Perfil Económico</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-bold text-slate-700 mb-1">Ocupación</label>
+                    <input type="text" placeholder="Comerciante, mototaxista..." className={inputClass}
+                      value={formData.occupation} onChange={e => setFormData({...formData, occupation: e.target.value})} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-bold text-slate-700 mb-1">Ingreso Mensual</label>
+                    <input type="number" min="0" step="0.01" className={inputClass}
+                      value={formData.monthlyIncome} onChange={e => setFormData({...formData, monthlyIncome: e.target.value})} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-bold text-slate-700 mb-1">Límite de Crédito</label>
+                    <input type="number" min="0" step="0.01" placeholder="Límite general" className={inputClass}
+                      value={formData.creditLimit} onChange={e => setFormData({...formData, creditLimit: e.target.value})} />
+                    <p className="text-[10px] text-slate-400 mt-1">Deuda máxima en todos sus préstamos. Vacío = usar el límite general</p>
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-3 border-t border-slate-100 pt-6">
+                <h4 className="text-xs text-slate-500 uppercase font-semibold">Referencias Personales</h4>
+                {formData.references.map((reference, index) => (
+                  <div key={index} className="flex flex-wrap items-center gap-2 text-sm">
+                    <input type="text" placeholder="Nombre" className="flex-1 min-w-[140px] border border-slate-300 rounded-md px-2 py-1.5"
+                      value={reference.name} onChange={e => handleReferenceChange(index, { name: e.target.value })} />
+                    <input type="tel" placeholder="Teléfono" className="w-32 border border-slate-300 rounded-md px-2 py-1.5"
+                      value={reference.phone} onChange={e => handleReferenceChange(index, { phone: e.target.value })} />
+                    <input type="text" placeholder="Relación" className="w-28 border border-slate-300 rounded-md px-2 py-1.5"
+                      value={reference.relationship} onChange={e => handleReferenceChange(index, { relationship: e.target.value })} />
+                    <button type="button" onClick={() => setFormData(prev => ({ ...prev, references: prev.references.filter((_, i) => i !== index) }))}
+                      className="p-1 text-slate-400 hover:text-rose-600 rounded">
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+                <button type="button" onClick={() => setFormData(prev => ({ ...prev, references: [...prev.references, { name: '', phone: '', relationship: '' }] }))}
+                  className="text-xs text-emerald-700 font-medium hover:underline flex items-center gap-1">
+                  <Plus className="w-3 h-3" /> Agregar referencia
+                </button>
               </div>
               <div className="pt-4 flex gap-3">
                 <button type="button" onClick={() => { resetForm(); setView(selectedClient ? 'detail' : 'list'); }} className="flex-1 px-4 py-2 border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 font-medium">Cancelar</button>
@@ -112,6 +337,11 @@ const Clients: React.FC = () => {
   const renderDetail = () => {
     if (!selectedClient) return null;
     const clientLoans = loans.filter(l => String(l.clientId) === String(selectedClient.id));
+    // Loans this client backs as a guarantor, linked by id or by an equal document
+    const guaranteedLoans = loans.filter(l => (l.guarantors || []).some(g => g.clientId === selectedClient.id
+      || (g.documentType === (selectedClient.documentType || DocumentType.DNI) && normalizeDocument(g.dni) === normalizeDocument(selectedClient.dni))));
+    const clientNames = Object.fromEntries(clients.map(c => [c.id, c.name]));
+    const score = scoreOf(selectedClient.id);
     
     return (
         <div className="space-y-6">
@@ -120,15 +350,57 @@ const Clients: React.FC = () => {
                 <span className="text-sm">Volver a la lista</span>
             </div>
 
+            {stateError && (
+                <div className="flex items-center gap-2 text-sm text-rose-700 bg-rose-50 border border-rose-100 rounded-lg px-4 py-3">
+                    <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                    {stateError}
+                </div>
+            )}
+
+            {!isClientActive(selectedClient) && (
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 text-sm text-slate-600 bg-slate-100 border border-slate-200 rounded-lg px-4 py-3">
+                    <span>
+                        {selectedClient.deletedAt
+                            ? `Cliente eliminado el ${formatDate(selectedClient.deletedAt)}. Se conserva para mantener su historial.`
+                            : `Cliente archivado el ${formatDate(selectedClient.archivedAt!)}.`}
+                    </span>
+                    <button onClick={() => handleSetState(selectedClient, 'active')}
+                        className="px-3 py-1.5 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 flex items-center gap-1 whitespace-nowrap">
+                        <RotateCcw className="w-4 h-4" />
+                        Reactivar
+                    </button>
+                </div>
+            )}
+
             {/* Profile Card */}
             <div className="bg-white rounded-xl shadow-sm border border-slate-100 p-8 relative">
-                 <button 
-                    onClick={() => handleEditInit(selectedClient)}
-                    className="absolute top-6 right-6 text-slate-400 hover:text-emerald-600 p-2 hover:bg-slate-50 rounded-full transition-colors"
-                    title="Editar Cliente"
-                >
-                    <Edit2 className="w-5 h-5" />
-                </button>
+                <div className="absolute top-6 right-6 flex gap-1">
+                    {isClientActive(selectedClient) && (
+                        <>
+                            <button
+                                onClick={() => setPendingState('archived')}
+                                className="text-slate-400 hover:text-slate-700 p-2 hover:bg-slate-50 rounded-full transition-colors"
+                                title="Archivar Cliente"
+                            >
+                                <Archive className="w-5 h-5" />
+                            </button>
+                            <button
+                                onClick={() => setPendingState('deleted')}
+                                className="text-slate-400 hover:text-rose-600 p-2 hover:bg-slate-50 rounded-full transition-colors"
+                                title="Eliminar Cliente"
+                            >
+                                <Trash2 className="w-5 h-5" />
+                            </button>
+                        </>
+                    )}
+                    <button 
+                        onClick={() => handleEditInit(selectedClient)}
+                        className="text-slate-400 hover:text-emerald-600 p-2 hover:bg-slate-50 rounded-full transition-colors"
+                        title="Editar Cliente"
+                    >
+                        <Edit2 className="w-5 h-5" />
+                    </button>
+                </div>
 
                 <div className="flex flex-col md:flex-row gap-6 items-start">
                     <div className="w-20 h-20 bg-emerald-100 rounded-full flex items-center justify-center text-emerald-600 text-2xl font-bold">
@@ -136,7 +408,7 @@ const Clients: React.FC = () => {
                     </div>
                     <div className="flex-1">
                         <h2 className="text-2xl font-bold text-slate-800">{selectedClient.name}</h2>
-                        <p className="text-slate-500 font-mono text-sm mb-4">ID: {selectedClient.dni}</p>
+                        <p className="text-slate-500 font-mono text-sm mb-4">{selectedClient.documentType || DocumentType.DNI}: {selectedClient.dni}</p>
                         
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
                             <div className="flex items-center gap-2 text-slate-700">
@@ -146,16 +418,122 @@ const Clients: React.FC = () => {
                             <div className="flex items-center gap-2 text-slate-700">
                                 <MapPin className="w-4 h-4 text-slate-400" />
                                 {selectedClient.address}
+                                {selectedClient.latitude !== undefined && selectedClient.longitude !== undefined && (
+                                    <a href={mapsUrl(selectedClient.latitude, selectedClient.longitude)} target="_blank" rel="noreferrer"
+                                        className="text-xs text-emerald-700 hover:underline whitespace-nowrap">Ver mapa</a>
+                                )}
                             </div>
+                            {selectedClient.email && (
+                                <div className="flex items-center gap-2 text-slate-700">
+                                    <Mail className="w-4 h-4 text-slate-400" />
+                                    {selectedClient.email}
+                                </div>
+                            )}
+                            {(selectedClient.occupation || selectedClient.monthlyIncome !== undefined) && (
+                                <div className="flex items-center gap-2 text-slate-700">
+                                    <Briefcase className="w-4 h-4 text-slate-400" />
+                                    {selectedClient.occupation || 'Ocupación no indicada'}
+                                    {selectedClient.monthlyIncome !== undefined && <> · {formatCurrency(selectedClient.monthlyIncome)} al mes</>}
+                                </div>
+                            )}
+                            {(selectedClient.zone || selectedClient.collector) && (
+                                <div className="flex items-center gap-2 text-slate-700">
+                                    <Route className="w-4 h-4 text-slate-400" />
+                                    {selectedClient.zone || 'Sin zona'} · {selectedClient.collector || 'Sin cobrador'}
+                                </div>
+                            )}
+                            {selectedClient.birthDate && (
+                                <div className="flex items-center gap-2 text-slate-700">
+                                    <Clock className="w-4 h-4 text-slate-400" />
+                                    Nacimiento: {formatDate(selectedClient.birthDate)}
+                                </div>
+                            )}
                             <div className="flex items-center gap-2 text-slate-700">
                                 <Calendar className="w-4 h-4 text-slate-400" />
                                 Registrado el: {formatDate(selectedClient.createdAt)}
                             </div>
                         </div>
+
+                        {selectedClient.references && selectedClient.references.length > 0 && (
+                            <div className="mt-6 pt-4 border-t border-slate-100">
+                                <h4 className="text-xs text-slate-500 uppercase font-semibold mb-2 flex items-center gap-1">
+                                    <Users className="w-3 h-3" /> Referencias
+                                </h4>
+                                <ul className="space-y-1 text-sm text-slate-700">
+                                    {selectedClient.references.map((r, idx) => (
+                                        <li key={idx}>
+                                            {r.name}{r.relationship && <span className="text-slate-500"> ({r.relationship})</span>} · {r.phone}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            {/* Credit Score */}
+            <div className="bg-white rounded-xl shadow-sm border border-slate-100 p-6">
+                <div className="flex items-center gap-4 mb-4">
+                    <CreditGradeBadge grade={score.grade} size="lg" />
+                    <div>
+                        <h3 className="text-lg font-bold text-slate-800">Calificación Crediticia</h3>
+                        <p className="text-sm text-slate-500">
+                            {score.grade
+                                ? `${GRADE_DESCRIPTIONS[score.grade]} · ${score.points} de 100 puntos sobre ${score.dueInstallments} cuotas vencidas`
+                                : 'Sin cuotas vencidas todavía: no hay historial para calificar.'}
+                        </p>
+                    </div>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                    <div>
+                        <p className="text-xs text-slate-500 uppercase font-semibold">Pago Puntual</p>
+                        <p className="font-bold text-slate-800">{score.onTimeRate !== null ? `${(score.onTimeRate * 100).toFixed(0)}%` : '—'}</p>
+                    </div>
+                    <div>
+                        <p className="text-xs text-slate-500 uppercase font-semibold">Atraso Promedio</p>
+                        <p className="font-bold text-slate-800">{score.averageDaysLate.toFixed(1)} días</p>
+                    </div>
+                    <div>
+                        <p className="text-xs text-slate-500 uppercase font-semibold">Atraso Máximo</p>
+                        <p className="font-bold text-slate-800">{score.maxDaysLate} días</p>
+                    </div>
+                    <div>
+                        <p className="text-xs text-slate-500 uppercase font-semibold">Préstamos Pagados</p>
+                        <p className="font-bold text-slate-800">{score.completedLoans}</p>
+                    </div>
+                    <div>
+                        <p className="text-xs text-slate-500 uppercase font-semibold">Exposición Actual</p>
+                        <p className="font-bold text-slate-800">{formatCurrency(score.exposure)}</p>
                     </div>
                 </div>
+                {score.suggestedLimit !== null && (
+                    <p className="text-xs text-slate-500 mt-4">Monto sugerido para un nuevo préstamo: <strong className="text-slate-700">{formatCurrency(score.suggestedLimit)}</strong></p>
+                )}
+                {selectedClient.creditLimit !== undefined && (
+                    <p className="text-xs text-slate-500 mt-1">Límite de crédito propio: <strong className="text-slate-700">{formatCurrency(selectedClient.creditLimit)}</strong></p>
+                )}
             </div>
 
+            <ClientAttachments clientId={selectedClient.id} />
+
+            {guaranteedLoans.length > 0 && (
+                <div className="bg-white rounded-xl shadow-sm border border-slate-100 p-6">
+                    <h3 className="text-lg font-bold text-slate-800 mb-3 flex items-center gap-2">
+                        <ShieldCheck className="w-5 h-5 text-slate-400" />
+                        Préstamos que Avala
+                    </h3>
+                    <ul className="divide-y divide-slate-100 text-sm">
+                        {guaranteedLoans.map(loan => (
+                            <li key={loan.id} className="py-2 flex justify-between gap-3">
+                                <span className="text-slate-700">{clientNames[loan.clientId] || 'Cliente Eliminado'} · {formatDate(loan.startDate)}</span>
+                                <span className="text-slate-500">{formatCurrency(loan.amount)} · {loan.status}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
             {/* Loans History */}
             <h3 className="text-lg font-bold text-slate-800 mt-8 mb-4">Historial de Préstamos</h3>
             {clientLoans.length === 0 ? (
@@ -166,6 +544,8 @@ const Clients: React.FC = () => {
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     {clientLoans.map(loan => {
                         const progress = loan.totalPayable > 0 ? Math.min(100, (loan.totalPaid / loan.totalPayable) * 100) : 0;
+                        const linkedFrom = loan.refinancedFrom ? loans.find(l => l.id === loan.refinancedFrom) : undefined;
+                        const linkedInto = loan.refinancedInto ? loans.find(l => l.id === loan.refinancedInto) : undefined;
                         return (
                             <div key={loan.id} className="bg-white p-5 rounded-xl shadow-sm border border-slate-100">
                                 <div className="flex justify-between items-start mb-4">
@@ -188,11 +568,53 @@ const Clients: React.FC = () => {
                                         <div className="bg-emerald-500 h-full rounded-full" style={{ width: `${progress}%` }}></div>
                                     </div>
                                 </div>
+
+                                {(linkedFrom || linkedInto) && (
+                                    <div className="mt-3 pt-3 border-t border-slate-50 space-y-1 text-xs text-violet-700">
+                                        {linkedFrom && (
+                                            <p className="flex items-center gap-1">
+                                                <Link2 className="w-3 h-3" /> Refinancia el préstamo del {formatDate(linkedFrom.startDate)} ({formatCurrency(linkedFrom.amount)})
+                                            </p>
+                                        )}
+                                        {linkedInto && (
+                                            <p className="flex items-center gap-1">
+                                                <Link2 className="w-3 h-3" /> Refinanciado en el préstamo del {formatDate(linkedInto.startDate)} ({formatCurrency(linkedInto.amount)})
+                                            </p>
+                                        )}
+                                    </div>
+                                )}
                             </div>
                         )
                     })}
                 </div>
             )}
+
+            {pendingState && (
+                <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+                    <div className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6">
+                        <div className={`flex items-center gap-3 mb-4 ${pendingState === 'deleted' ? 'text-rose-600' : 'text-slate-600'}`}>
+                            {pendingState === 'deleted' ? <Trash2 className="w-6 h-6" /> : <Archive className="w-6 h-6" />}
+                            <h3 className="text-xl font-bold text-slate-900">
+                                {pendingState === 'deleted' ? '¿Eliminar cliente?' : '¿Archivar cliente?'}
+                            </h3>
+                        </div>
+                        <p className="text-slate-600 mb-6 text-sm">
+                            {pendingState === 'deleted'
+                                ? `${selectedClient.name} dejará de aparecer en la cartera. Sus préstamos e historial se conservan y podrás reactivarlo desde Archivados.`
+                                : `${selectedClient.name} pasará a Archivados y no se podrán registrar préstamos nuevos a su nombre hasta reactivarlo.`}
+                        </p>
+                        <div className="flex justify-end gap-3">
+                            <button onClick={() => setPendingState(null)} className="px-4 py-2 text-slate-600 hover:bg-slate-50 rounded-lg">Cancelar</button>
+                            <button
+                                onClick={() => handleSetState(selectedClient, pendingState)}
+                                className={`px-4 py-2 text-white rounded-lg ${pendingState === 'deleted' ? 'bg-rose-600 hover:bg-rose-700' : 'bg-slate-800 hover:bg-slate-900'}`}
+                            >
+                                {pendingState === 'deleted' ? 'Eliminar' : 'Archivar'}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
         </div>
     );
   };
@@ -201,6 +623,15 @@ const Clients: React.FC = () => {
     <div className="space-y-6">
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
             <h2 className="text-2xl font-bold text-slate-800">Cartera de Clientes</h2>
+            <div className="flex gap-3">
+            <div className="flex bg-slate-100 rounded-lg p-1 text-sm">
+                {([['active', 'Activos'], ['archived', 'Archivados']] as const).map(([mode, label]) => (
+                    <button key={mode} onClick={() => setListMode(mode)}
+                        className={`px-3 py-1 rounded-md transition-colors ${listMode === mode ? 'bg-white shadow-sm text-slate-800 font-medium' : 'text-slate-500 hover:text-slate-700'}`}>
+                        {label} ({clients.filter(c => (mode === 'active') === isClientActive(c)).length})
+                    </button>
+                ))}
+            </div>
             <button 
                 onClick={() => { resetForm(); setView('create'); }}
                 className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors shadow-sm"
@@ -208,6 +639,7 @@ const Clients: React.FC = () => {
             <Plus className="w-4 h-4" />
             Nuevo Cliente
             </button>
+            </div>
         </div>
 
         <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-100">
@@ -227,7 +659,7 @@ const Clients: React.FC = () => {
             {filteredClients.map(client => (
             <div 
                 key={client.id} 
-                onClick={() => { setSelectedClient(client); setView('detail'); }}
+                onClick={() => { setSelectedClient(client); setStateError(null); setView('detail'); }}
                 className="bg-white rounded-xl shadow-sm border border-slate-100 p-6 hover:shadow-md transition-shadow cursor-pointer group relative"
             >
                 <div className="flex items-start justify-between mb-4">
@@ -237,9 +669,17 @@ const Clients: React.FC = () => {
                     </div>
                     <div>
                     <h3 className="font-semibold text-slate-800">{client.name}</h3>
-                    <p className="text-xs text-slate-500 font-mono">ID: {client.dni}</p>
+                    <p className="text-xs text-slate-500 font-mono">{client.documentType || DocumentType.DNI}: {client.dni}</p>
                     </div>
                 </div>
+                <div className="flex items-center gap-2">
+                {!isClientActive(client) && (
+                    <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full ${client.deletedAt ? 'bg-rose-100 text-rose-700' : 'bg-slate-100 text-slate-600'}`}>
+                        {client.deletedAt ? 'Eliminado' : 'Archivado'}
+                    </span>
+                )}
+                <CreditGradeBadge grade={scoreOf(client.id).grade} />
+                </div>
                 </div>
                 
                 <div className="space-y-2 text-sm text-slate-600">
@@ -257,7 +697,7 @@ const Clients: React.FC = () => {
 
             {filteredClients.length === 0 && (
                 <div className="col-span-full py-12 text-center text-slate-400">
-                    No se encontraron clientes que coincidan con la búsqueda.
+                    {listMode === 'archived' ? 'No hay clientes archivados ni eliminados.' : 'No se encontraron clientes que coincidan con la búsqueda.'}
                 </div>
             )}
         </div>
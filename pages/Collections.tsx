@@ -0,0 +1,272 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Route, Printer, ArrowUp, ArrowDown, MapPin, Phone, CheckCircle, XCircle, X, HandCoins } from 'lucide-react';
+import { Client, Loan, PaymentMethod } from '../types';
+import { StorageService } from '../services/storage';
+import { CollectionRoute, CollectionStop, UNASSIGNED_COLLECTOR, buildCollectionRoutes, summarizeCollectors } from '../services/collections';
+import { formatCurrency, formatDate, toISODate } from '../utils';
+
+const Collections: React.FC = () => {
+  const [loans, setLoans] = useState<Loan[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [collectorFilter, setCollectorFilter] = useState('ALL');
+  // Amount and method typed for each loan; the amount due is used until something is typed
+  const [entries, setEntries] = useState<Record<string, { amount?: string; method: PaymentMethod }>>({});
+  const [savingLoan, setSavingLoan] = useState<string | null>(null);
+  const [toast, setToast] = useState<{ show: boolean; message: string; type: 'success' | 'error' } | null>(null);
+
+  const today = toISODate(new Date());
+
+  useEffect(() => {
+    StorageService.getLoans().then(setLoans);
+    StorageService.getClients().then(setClients);
+  }, []);
+
+  const routes = useMemo(() => buildCollectionRoutes(loans, clients, today), [loans, clients, today]);
+  const totals = useMemo(() => summarizeCollectors(loans, today), [loans, today]);
+  const collectors = Array.from(new Set([...routes.map(r => r.collector), ...totals.map(t => t.collector)]));
+  const visibleRoutes = routes.filter(r => collectorFilter === 'ALL' || r.collector === collectorFilter);
+  const visibleTotals = totals.filter(t => collectorFilter === 'ALL' || t.collector === collectorFilter);
+
+  const pendingBy = (collector: string) => routes
+    .filter(r => r.collector === collector)
+    .reduce((acc, r) => acc + r.stops.reduce((sum, s) => sum + s.amountDue, 0), 0);
+
+  const showToast = (message: string, type: 'success' | 'error') => {
+    setToast({ show: true, message, type });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const entryFor = (stop: CollectionStop) => entries[stop.loan.id] || { method: PaymentMethod.CASH };
+
+  const handleCollect = async (route: CollectionRoute, stop: CollectionStop) => {
+    const entry = entryFor(stop);
+    const amount = entry.amount !== undefined ? Number(entry.amount) : Number(stop.amountDue.toFixed(2));
+    if (!(amount > 0)) {
+      showToast('Ingresa un monto mayor a cero.', 'error');
+      return;
+    }
+    setSavingLoan(stop.loan.id);
+    const updated = await StorageService.registerPayment(stop.loan.id, {
+      amount,
+      date: new Date().toISOString(), // Same format as payments registered from Loans
+      method: entry.method,
+      collector: route.collector === UNASSIGNED_COLLECTOR ? undefined : route.collector
+    });
+    setSavingLoan(null);
+    if (!updated) {
+      showToast('No se pudo registrar el pago: el préstamo no tiene saldo pendiente.', 'error');
+      return;
+    }
+    setLoans(await StorageService.getLoans());
+    setEntries(prev => {
+      const { [stop.loan.id]: _, ...rest } = prev;
+      return rest;
+    });
+    showToast(`Pago de ${formatCurrency(amount)} registrado para ${stop.client?.name || 'el cliente'}.`, 'success');
+  };
+
+  // Moves a client one place up or down in the route and stores the new order for the whole zone
+  const handleMove = async (route: CollectionRoute, index: number, direction: -1 | 1) => {
+    const ids = Array.from(new Set(route.stops.map(s => s.loan.clientId)));
+    const position = ids.indexOf(route.stops[index].loan.clientId);
+    const target = position + direction;
+    if (target < 0 || target >= ids.length) return;
+    [ids[position], ids[target]] = [ids[target], ids[position]];
+    await StorageService.saveRouteOrder(ids);
+    setClients([...(await StorageService.getClients())]);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+            <Route className="w-6 h-6 text-slate-500 print:hidden" />
+            Cobranza del Día
+          </h2>
+          <p className="text-sm text-slate-500 mt-1">
+            {formatDate(today)} · Cuotas que vencen hoy o están vencidas, por cobrador y zona.
+          </p>
+        </div>
+        <div className="flex gap-2 print:hidden">
+          <select className="border border-slate-300 rounded-lg px-3 py-2 text-sm bg-white" value={collectorFilter}
+            onChange={e => setCollectorFilter(e.target.value)}>
+            <option value="ALL">Todos los cobradores</option>
+            {collectors.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <button onClick={() => window.print()}
+            className="px-4 py-2 bg-slate-800 text-white rounded-lg text-sm hover:bg-slate-900 flex items-center gap-2">
+            <Printer className="w-4 h-4" />
+            Imprimir
+          </button>
+        </div>
+      </div>
+
+      {visibleRoutes.length === 0 && (
+        <div className="bg-slate-50 rounded-xl p-8 text-center text-slate-400 border border-dashed border-slate-200">
+          No hay cuotas por cobrar hoy.
+        </div>
+      )}
+
+      {visibleRoutes.map(route => (
+        <div key={`${route.collector}-${route.zone}`} className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden break-inside-avoid">
+          <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex flex-wrap justify-between items-center gap-2">
+            <h3 className="font-bold text-slate-800">
+              {route.collector} <span className="text-slate-400 font-normal">·</span> {route.zone}
+            </h3>
+            <span className="text-sm text-slate-500">
+              {route.stops.length} visita(s) · Por cobrar {formatCurrency(route.stops.reduce((acc, s) => acc + s.amountDue, 0))}
+            </span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="bg-slate-50 text-slate-500 text-xs uppercase font-semibold">
+                <tr>
+                  <th className="px-4 py-3 w-10">#</th>
+                  <th className="px-4 py-3">Cliente</th>
+                  <th className="px-4 py-3">Cuotas</th>
+                  <th className="px-4 py-3 text-right">Por Cobrar</th>
+                  <th className="px-4 py-3 text-right">Cobrado Hoy</th>
+                  <th className="px-4 py-3 print:hidden">Registrar Pago</th>
+                  <th className="px-4 py-3 hidden print:table-cell">Monto Recibido</th>
+                  <th className="px-4 py-3 print:hidden"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {route.stops.map((stop, index) => {
+                  const entry = entryFor(stop);
+                  return (
+                    <tr key={stop.loan.id} className="align-top">
+                      <td className="px-4 py-3 text-slate-400">{index + 1}</td>
+                      <td className="px-4 py-3">
+                        <p className="font-medium text-slate-800">{stop.client?.name || 'Cliente Eliminado'}</p>
+                        {stop.client?.address && (
+                          <p className="text-xs text-slate-500 flex items-center gap-1"><MapPin className="w-3 h-3" /> {stop.client.address}</p>
+                        )}
+                        {stop.client?.phone && (
+                          <p className="text-xs text-slate-500 flex items-center gap-1"><Phone className="w-3 h-3" /> {stop.client.phone}</p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-xs text-slate-600">
+                        {stop.installments.length > 0 ? (
+                          <>
+                            <p>{stop.installments.map(i => `#${i.number}`).join(', ')} de {stop.loan.duration}</p>
+                            {stop.daysLate > 0 && <p className="text-rose-600 font-medium">{stop.daysLate} días de atraso</p>}
+                          </>
+                        ) : (
+                          <p className="text-emerald-600 font-medium">Al día</p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right font-bold text-slate-800">{formatCurrency(stop.amountDue)}</td>
+                      <td className="px-4 py-3 text-right text-emerald-700">{stop.collectedToday > 0 ? formatCurrency(stop.collectedToday) : '—'}</td>
+                      <td className="px-4 py-3 print:hidden">
+                        {stop.amountDue > 0 && (
+                          <div className="flex items-center gap-2">
+                            <input type="number" min="0" step="0.01" className="w-24 border border-slate-300 rounded-md px-2 py-1.5 text-sm"
+                              value={entry.amount ?? stop.amountDue.toFixed(2)}
+                              onChange={e => setEntries(prev => ({ ...prev, [stop.loan.id]: { ...entry, amount: e.target.value } }))} />
+                            <select className="border border-slate-300 rounded-md px-2 py-1.5 text-xs bg-white" value={entry.method}
+                              onChange={e => setEntries(prev => ({ ...prev, [stop.loan.id]: { ...entry, method: e.target.value as PaymentMethod } }))}>
+                              {Object.values(PaymentMethod).map(m => <option key={m} value={m}>{m}</option>)}
+                            </select>
+                            <button onClick={() => handleCollect(route, stop)} disabled={savingLoan === stop.loan.id}
+                              className="px-3 py-1.5 bg-emerald-600 text-white rounded-md text-xs font-medium hover:bg-emerald-700 flex items-center gap-1 disabled:opacity-50">
+                              <HandCoins className="w-3 h-3" />
+                              Cobrar
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 hidden print:table-cell border-b border-slate-300"></td>
+                      <td className="px-4 py-3 print:hidden">
+                        <div className="flex flex-col">
+                          <button onClick={() => handleMove(route, index, -1)} disabled={index === 0}
+                            className="p-0.5 text-slate-400 hover:text-slate-700 disabled:opacity-30" title="Visitar antes">
+                            <ArrowUp className="w-4 h-4" />
+                          </button>
+                          <button onClick={() => handleMove(route, index, 1)} disabled={index === route.stops.length - 1}
+                            className="p-0.5 text-slate-400 hover:text-slate-700 disabled:opacity-30" title="Visitar después">
+                            <ArrowDown className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ))}
+
+      {/* End of Day */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden break-inside-avoid">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50">
+          <h3 className="font-bold text-slate-800">Cierre del Día</h3>
+          <p className="text-xs text-slate-500 mt-1">Pagos recibidos hoy por cada cobrador, registrados aquí o desde Préstamos. El efectivo es lo que debe entregar.</p>
+        </div>
+        <table className="w-full text-sm text-left">
+          <thead className="bg-slate-50 text-slate-500 text-xs uppercase font-semibold">
+            <tr>
+              <th className="px-4 py-3">Cobrador</th>
+              <th className="px-4 py-3 text-right">Pagos</th>
+              <th className="px-4 py-3 text-right">Cobrado</th>
+              <th className="px-4 py-3 text-right">En Efectivo</th>
+              <th className="px-4 py-3 text-right">Otros Medios</th>
+              <th className="px-4 py-3 text-right">Pendiente</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {collectors
+              .filter(c => collectorFilter === 'ALL' || c === collectorFilter)
+              .map(collector => {
+                const t = visibleTotals.find(v => v.collector === collector) || { payments: 0, total: 0, cash: 0 };
+                return (
+                  <tr key={collector}>
+                    <td className="px-4 py-3 font-medium text-slate-800">{collector}</td>
+                    <td className="px-4 py-3 text-right">{t.payments}</td>
+                    <td className="px-4 py-3 text-right font-bold text-emerald-700">{formatCurrency(t.total)}</td>
+                    <td className="px-4 py-3 text-right">{formatCurrency(t.cash)}</td>
+                    <td className="px-4 py-3 text-right">{formatCurrency(t.total - t.cash)}</td>
+                    <td className="px-4 py-3 text-right text-slate-500">{formatCurrency(pendingBy(collector))}</td>
+                  </tr>
+                );
+              })}
+          </tbody>
+          {visibleTotals.length > 1 && (
+            <tfoot className="bg-slate-50 font-bold text-slate-800">
+              <tr>
+                <td className="px-4 py-3">Total</td>
+                <td className="px-4 py-3 text-right">{visibleTotals.reduce((acc, t) => acc + t.payments, 0)}</td>
+                <td className="px-4 py-3 text-right">{formatCurrency(visibleTotals.reduce((acc, t) => acc + t.total, 0))}</td>
+                <td className="px-4 py-3 text-right">{formatCurrency(visibleTotals.reduce((acc, t) => acc + t.cash, 0))}</td>
+                <td className="px-4 py-3 text-right">{formatCurrency(visibleTotals.reduce((acc, t) => acc + t.total - t.cash, 0))}</td>
+                <td className="px-4 py-3 text-right"></td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+
+      {toast && toast.show && (
+        <div className="fixed bottom-6 right-6 z-50 animate-in slide-in-from-bottom-5 fade-in duration-300 print:hidden">
+            <div className={`px-6 py-4 rounded-lg shadow-xl flex items-center gap-3 pr-10 relative ${
+                toast.type === 'success' ? 'bg-emerald-600 text-white' : 'bg-rose-600 text-white'
+            }`}>
+                {toast.type === 'success' ? (
+                    <CheckCircle className="w-6 h-6 flex-shrink-0" />
+                ) : (
+                    <XCircle className="w-6 h-6 flex-shrink-0" />
+                )}
+                <p className="text-sm">{toast.message}</p>
+                <button onClick={() => setToast(null)} className="absolute top-2 right-2 p-1 rounded hover:bg-white/20 transition-colors">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Collections;
@@ -5,7 +5,8 @@ import {
 import { TrendingUp, Wallet, Bell, Calendar, ChevronRight, Clock, AlertCircle } from 'lucide-react';
 import { Loan, LoanStatus, InstallmentStatus } from '../types';
 import { StorageService } from '../services/storage';
-import { formatCurrency, formatDate, parseDate } from '../utils';
+import { isClientActive } from '../services/integrity';
+import { formatCurrency, formatDate, parseDate, getInstallmentBalance, getLoanBalance } from '../utils';
 
 interface UpcomingInstallment {
   id: string;
@@ -23,6 +24,7 @@ const Dashboard: React.FC = () => {
     estimatedProfit: 0,
     outstandingCapital: 0,
     activeLoansCount: 0,
+    defaultedLoansCount: 0,
     clientsCount: 0,
     chartData: [] as any[],
     upcomingInstallments: [] as UpcomingInstallment[]
@@ -30,102 +32,109 @@ const Dashboard: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    try {
-      const loans = StorageService.getLoans();
-      const clients = StorageService.getClients();
+    const loadMetrics = async () => {
+      try {
+        const [loans, clients] = await Promise.all([StorageService.getLoans(), StorageService.getClients()]);
 
-      const totalLent = loans.reduce((acc, l) => acc + (Number(l.amount) || 0), 0);
-      const totalPayable = loans.reduce((acc, l) => acc + (Number(l.totalPayable) || 0), 0);
-      const totalCollected = loans.reduce((acc, l) => acc + (Number(l.totalPaid) || 0), 0);
+        // A refinanced loan lives on in the loan that replaced it; counting both would double the portfolio.
+        // Annulled loans are left out of it as well.
+        const currentLoans = loans.filter(l => l.status !== LoanStatus.REFINANCED && l.status !== LoanStatus.ANNULLED);
+        const totalLent = currentLoans.reduce((acc, l) => acc + (Number(l.amount) || 0), 0);
+        const totalPayable = currentLoans.reduce((acc, l) => acc + (Number(l.totalPayable) || 0), 0);
+        const totalCollected = loans.reduce((acc, l) => acc + (Number(l.totalPaid) || 0), 0);
       
-      const estimatedProfit = totalPayable - totalLent; 
-      const totalOutstanding = totalPayable - totalCollected;
+        const estimatedProfit = totalPayable - totalLent; 
+        // Includes accrued penalties (mora) still owed
+        const totalOutstanding = loans.reduce((acc, l) => acc + getLoanBalance(l), 0);
 
-      // Safe Chart Data Calculation
-      const chartDataMap = new Map<string, { name: string, prestado: number, recaudado: number }>();
+        // Safe Chart Data Calculation
+        const chartDataMap = new Map<string, { name: string, prestado: number, recaudado: number }>();
       
-      loans.forEach(loan => {
-        if (!loan.startDate) return;
-        try {
-          const dateObj = parseDate(loan.startDate);
-          if (isNaN(dateObj.getTime())) return;
+        loans.forEach(loan => {
+          if (!loan.startDate) return;
+          try {
+            const dateObj = parseDate(loan.startDate);
+            if (isNaN(dateObj.getTime())) return;
 
-          const month = dateObj.toLocaleString('es-ES', { month: 'short' });
-          const key = `${dateObj.getFullYear()}-${dateObj.getMonth()}`; 
+            const month = dateObj.toLocaleString('es-ES', { month: 'short' });
+            const key = `${dateObj.getFullYear()}-${dateObj.getMonth()}`; 
           
-          if (chartDataMap.has(key)) {
-            const current = chartDataMap.get(key)!;
-            current.prestado += (Number(loan.amount) || 0);
-            current.recaudado += (Number(loan.totalPaid) || 0);
-          } else {
-            chartDataMap.set(key, { 
-                name: month, 
-                prestado: (Number(loan.amount) || 0), 
-                recaudado: (Number(loan.totalPaid) || 0) 
-            });
+            if (chartDataMap.has(key)) {
+              const current = chartDataMap.get(key)!;
+              current.prestado += (Number(loan.amount) || 0);
+              current.recaudado += (Number(loan.totalPaid) || 0);
+            } else {
+              chartDataMap.set(key, { 
+                  name: month, 
+                  prestado: (Number(loan.amount) || 0), 
+                  recaudado: (Number(loan.totalPaid) || 0) 
+              });
+            }
+          } catch (e) {
+            console.warn("Skipping invalid loan date for chart", loan);
           }
-        } catch (e) {
-          console.warn("Skipping invalid loan date for chart", loan);
-        }
-      });
+        });
 
-      const chartData = Array.from(chartDataMap.values()).slice(-6);
+        const chartData = Array.from(chartDataMap.values()).slice(-6);
 
-      // Notification Logic
-      const today = new Date();
-      today.setHours(0,0,0,0);
-      const next7Days = new Date(today);
-      next7Days.setDate(today.getDate() + 7);
+        // Notification Logic
+        const today = new Date();
+        today.setHours(0,0,0,0);
+        const next7Days = new Date(today);
+        next7Days.setDate(today.getDate() + 7);
 
-      const upcoming: UpcomingInstallment[] = [];
+        const upcoming: UpcomingInstallment[] = [];
 
-      loans.forEach(loan => {
-        if (loan.status === LoanStatus.COMPLETED) return;
+        loans.forEach(loan => {
+          if (loan.status === LoanStatus.COMPLETED || loan.status === LoanStatus.REFINANCED || loan.status === LoanStatus.ANNULLED) return;
         
-        const client = clients.find(c => c.id === loan.clientId);
-        const installments = Array.isArray(loan.installments) ? loan.installments : [];
+          const client = clients.find(c => c.id === loan.clientId);
+          const installments = Array.isArray(loan.installments) ? loan.installments : [];
 
-        installments.forEach(inst => {
-          if (inst.status === InstallmentStatus.PAID) return;
-          if (!inst.dueDate) return;
+          installments.forEach(inst => {
+            if (inst.status === InstallmentStatus.PAID) return;
+            if (!inst.dueDate) return;
           
-          try {
-            const due = parseDate(inst.dueDate);
-            due.setHours(0,0,0,0);
+            try {
+              const due = parseDate(inst.dueDate);
+              due.setHours(0,0,0,0);
 
-            if (due >= today && due <= next7Days) {
-              const diffTime = due.getTime() - today.getTime();
-              const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)); 
+              if (due >= today && due <= next7Days) {
+                const diffTime = due.getTime() - today.getTime();
+                const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)); 
               
-              upcoming.push({
-                id: `${loan.id}-${inst.number}`,
-                clientName: client?.name || 'Cliente Desconocido',
-                amount: inst.amount,
-                dueDate: inst.dueDate,
-                number: inst.number,
-                daysUntil: diffDays
-              });
-            }
-          } catch (e) { }
+                upcoming.push({
+                  id: `${loan.id}-${inst.number}`,
+                  clientName: client?.name || 'Cliente Desconocido',
+                  amount: getInstallmentBalance(inst),
+                  dueDate: inst.dueDate,
+                  number: inst.number,
+                  daysUntil: diffDays
+                });
+              }
+            } catch (e) { }
+          });
         });
-      });
 
-      upcoming.sort((a, b) => a.daysUntil - b.daysUntil);
+        upcoming.sort((a, b) => a.daysUntil - b.daysUntil);
 
-      setMetrics({
-        totalLent,
-        totalCollected,
-        estimatedProfit,
-        outstandingCapital: totalOutstanding,
-        activeLoansCount: loans.filter(l => l.status === LoanStatus.ACTIVE).length,
-        clientsCount: clients.length,
-        chartData,
-        upcomingInstallments: upcoming
-      });
-    } catch (globalError) {
-      console.error("Dashboard calculation error:", globalError);
-      setError("Error al procesar los datos para el panel. Es posible que el archivo de respaldo contenga datos inconsistentes.");
-    }
+        setMetrics({
+          totalLent,
+          totalCollected,
+          estimatedProfit,
+          outstandingCapital: totalOutstanding,
+          activeLoansCount: loans.filter(l => l.status === LoanStatus.ACTIVE).length,
+          defaultedLoansCount: loans.filter(l => l.status === LoanStatus.DEFAULTED).length,
+          clientsCount: clients.filter(isClientActive).length,
+          chartData,
+          upcomingInstallments: upcoming
+        });
+      } catch (globalError) {
+        console.error("Dashboard calculation error:", globalError);
+        setError("Error al procesar los datos para el panel. Es posible que el archivo de respaldo contenga datos inconsistentes.");
+      }
+    };
+    loadMetrics();
   }, []);
 
   if (error) {
@@ -165,7 +174,7 @@ const Dashboard: React.FC = () => {
           value={formatCurrency(metrics.totalLent)} 
           icon={Wallet} 
           color="bg-blue-500" 
-          subValue={`${metrics.activeLoansCount} préstamos activos`}
+          subValue={`${metrics.activeLoansCount} activos · ${metrics.defaultedLoansCount} en mora`}
         />
         <StatCard 
           title="Total Recaudado" 
@@ -1,8 +1,30 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { Plus, Calculator, Calendar, DollarSign, ChevronRight, CheckCircle, AlertCircle, Clock, Edit2, RefreshCw, Receipt, X, Filter } from 'lucide-react';
-import { Client, Loan, Frequency, LoanType, LoanStatus, InstallmentStatus, InterestType } from '../types';
+import { Plus, Calculator, Calendar, DollarSign, ChevronRight, CheckCircle, AlertCircle, Clock, Edit2, RefreshCw, Receipt, X, Filter, FastForward, Repeat, Link2, Download, History, Undo2, Ban, ShieldCheck, AlertTriangle, Scale } from 'lucide-react';
+import { Client, Loan, Frequency, LoanType, LoanStatus, InstallmentStatus, InterestType, PaymentMethod, PrepaymentMode, RateBasis, RollConvention, BusinessCalendar, LoanCharge, ChargeType, ChargeCalculation, UpfrontChargeMode, AuditEntry, Payment, Guarantor, DocumentType, CreditGrade } from '../types';
 import { StorageService } from '../services/storage';
-import { calculateSchedule, formatCurrency, formatDate, getInstallmentStatus, addTime, calculateDurationFromDates, parseDate, toISODate } from '../utils';
+import { calculateSchedule, formatCurrency, formatDate, getInstallmentStatus, getDueDate, calculateDurationFromDates, parseDate, toISODate, applyPaymentLedger, getInstallmentBalance, getLoanBalance, getDefaultRateBasis, getScheduleRates, convertRate, calculateTCEA, getLoanTCEA, applyRecurringCharges, getFinancedAmount, getUpfrontCharges, getDisbursedAmount } from '../utils';
+import { accruePenalties } from '../services/penalties';
+import { evaluateLoanStatus } from '../services/loanStatus';
+import { quotePrepayment } from '../services/prepayment';
+import { quoteRefinance } from '../services/refinance';
+import ExportDialog from '../components/ExportDialog';
+import CreditGradeBadge from '../components/CreditGradeBadge';
+import AuditTrail from '../components/AuditTrail';
+import { isClientActive } from '../services/integrity';
+import { normalizeDocument, validateGuarantors } from '../services/kyc';
+import { GRADE_DESCRIPTIONS, scoreClient } from '../services/scoring';
+import { checkCreditLimits } from '../services/creditLimits';
+
+const LOAN_TYPE_HINTS: Record<LoanType, string> = {
+  [LoanType.SIMPLE]: 'Capital e interés repartidos en partes iguales.',
+  [LoanType.FRENCH]: 'Cuota constante: el interés baja y la amortización de capital sube.',
+  [LoanType.GERMAN]: 'Amortización de capital constante: la cuota disminuye en cada periodo.',
+  [LoanType.AMERICAN]: 'Solo interés en cada cuota; el capital se devuelve completo en la última.'
+};
+
+// How long the payment toast offers to undo the payment just registered
+const UNDO_WINDOW_MS = 8000;
+const UNDO_REASON = 'Deshecho al registrarlo (pago ingresado por error)';
 
 const Loans: React.FC = () => {
   const [view, setView] = useState<'list' | 'create' | 'detail'>('list');
@@ -10,10 +32,46 @@ const Loans: React.FC = () => {
   const [clients, setClients] = useState<Client[]>([]);
   const [selectedLoan, setSelectedLoan] = useState<Loan | null>(null);
   const [isEditing, setIsEditing] = useState(false);
+  const [refinancingLoan, setRefinancingLoan] = useState<Loan | null>(null);
   const [filterStatus, setFilterStatus] = useState<LoanStatus | 'ALL'>('ALL');
+  const [showExport, setShowExport] = useState(false);
+  const [detailTab, setDetailTab] = useState<'schedule' | 'history'>('schedule');
+  const [loanHistory, setLoanHistory] = useState<AuditEntry[]>([]);
   
   // Estado para el Toast de notificación
-  const [toast, setToast] = useState<{ show: boolean; message: string } | null>(null);
+  const [toast, setToast] = useState<{ show: boolean; message: string; title?: string; type?: 'success' | 'error'; undo?: { loanId: string; paymentId: string } } | null>(null);
+  // One timer for whichever toast is showing, so an older toast's timer cannot close a newer one
+  const toastTimer = useRef<ReturnType<typeof setTimeout>>();
+  const hideToastAfter = (ms: number) => {
+    clearTimeout(toastTimer.current);
+    toastTimer.current = setTimeout(() => setToast(null), ms);
+  };
+  useEffect(() => () => clearTimeout(toastTimer.current), []);
+
+  // Payment Modal State
+  const [paymentForm, setPaymentForm] = useState<{
+    installmentNumber?: number;
+    amount: number;
+    date: string;
+    method: PaymentMethod;
+    note: string;
+    collector: string;
+  } | null>(null);
+
+  // Annulment Modal State
+  const [annulForm, setAnnulForm] = useState<{ reason: string; error?: string } | null>(null);
+  const [overrideForm, setOverrideForm] = useState<{ breaches: string[]; reason: string; error?: string } | null>(null);
+
+  // Payment Reversal Modal State
+  const [reversalForm, setReversalForm] = useState<{ payment: Payment; reason: string; error?: string } | null>(null);
+
+  // Prepayment Modal State
+  const [prepaymentForm, setPrepaymentForm] = useState<{
+    amount: number;
+    date: string;
+    mode: PrepaymentMode;
+    method: PaymentMethod;
+  } | null>(null);
 
   // Refs for Date Inputs (kept for focus management if needed)
   const startDateRef = useRef<HTMLInputElement>(null);
@@ -26,23 +84,33 @@ const Loans: React.FC = () => {
     amount: 1000,
     interestRate: 10,
     interestType: InterestType.PERCENTAGE,
+    rateBasis: RateBasis.TERM,
     frequency: Frequency.MONTHLY,
+    roll: StorageService.getSettings().calendar.roll,
     duration: 12,
     type: LoanType.SIMPLE,
     startDate: toISODate(new Date()),
-    endDate: ''
+    endDate: '',
+    rateSteps: [] as { from: number; rate: number }[],
+    charges: [] as LoanCharge[],
+    guarantors: [] as Guarantor[]
   });
 
   useEffect(() => {
-    setLoans(StorageService.getLoans());
-    setClients(StorageService.getClients());
+    StorageService.getLoans().then(setLoans);
+    StorageService.getClients().then(setClients);
   }, [view, selectedLoan]);
 
+  // The change history is read when its tab is open, and again after every change to the loan
+  useEffect(() => {
+    if (selectedLoan && detailTab === 'history') StorageService.getAuditLog({ loanId: selectedLoan.id }).then(setLoanHistory);
+  }, [selectedLoan, detailTab]);
+
   // Initial End Date Calculation if not set
   useEffect(() => {
     if (view === 'create' && !isEditing && !formData.endDate && formData.startDate) {
         const start = parseDate(formData.startDate);
-        const end = addTime(start, formData.frequency, formData.duration);
+        const end = getDueDate(start, formData.frequency, formData.duration, getFormCalendar());
         setFormData(prev => ({ ...prev, endDate: toISODate(end) }));
     }
   }, [view, isEditing, formData.startDate, formData.frequency, formData.duration]);
@@ -54,13 +122,19 @@ const Loans: React.FC = () => {
       amount: 1000,
       interestRate: 10,
       interestType: InterestType.PERCENTAGE,
+      rateBasis: RateBasis.TERM,
       frequency: Frequency.MONTHLY,
+      roll: StorageService.getSettings().calendar.roll,
       duration: 12,
       type: LoanType.SIMPLE,
       startDate: toISODate(new Date()),
-      endDate: ''
+      endDate: '',
+      rateSteps: [],
+      charges: [],
+      guarantors: []
     });
     setIsEditing(false);
+    setRefinancingLoan(null);
   };
 
   const handleEditInit = (loan: Loan) => {
@@ -70,16 +144,161 @@ const Loans: React.FC = () => {
       amount: loan.amount,
       interestRate: loan.interestRate,
       interestType: loan.interestType || InterestType.PERCENTAGE, // fallback for old data
+      rateBasis: loan.rateBasis || getDefaultRateBasis(loan.type),
       frequency: loan.frequency,
+      roll: loan.roll || RollConvention.NONE, // loans created before the calendar were never rolled
       duration: loan.duration,
       type: loan.type,
       startDate: loan.startDate.split('T')[0],
-      endDate: loan.endDate ? loan.endDate.split('T')[0] : ''
+      endDate: loan.endDate ? loan.endDate.split('T')[0] : '',
+      rateSteps: Object.entries(loan.variableRates || {})
+        .map(([from, rate]) => ({ from: Number(from), rate }))
+        .sort((a, b) => a.from - b.from),
+      charges: loan.charges || [],
+      guarantors: loan.guarantors || []
     });
     setIsEditing(true);
     setView('create');
   };
 
+  // Loans with payments are restructured instead of edited, so their history is never rewritten
+  const handleRefinanceInit = (loan: Loan) => {
+    const today = toISODate(new Date());
+    const carried = quoteRefinance(loan, today);
+    const remainingTerms = loan.installments.filter(i => i.status !== InstallmentStatus.PAID).length || 1;
+    const roll = loan.roll || StorageService.getSettings().calendar.roll;
+    setFormData({
+      id: '',
+      clientId: loan.clientId,
+      amount: Number(carried.total.toFixed(2)),
+      interestRate: loan.interestRate,
+      interestType: loan.interestType || InterestType.PERCENTAGE,
+      rateBasis: loan.rateBasis || getDefaultRateBasis(loan.type),
+      frequency: loan.frequency,
+      roll,
+      duration: remainingTerms,
+      type: loan.type,
+      startDate: today,
+      endDate: toISODate(getDueDate(parseDate(today), loan.frequency, remainingTerms, getFormCalendar(roll))),
+      rateSteps: [],
+      charges: [],
+      guarantors: loan.guarantors || [] // The new loan keeps the same backing
+    });
+    setIsEditing(false);
+    setRefinancingLoan(loan);
+    setView('create');
+  };
+
+  // Rate steps from the form as the map calculateSchedule expects. Steps outside the term are dropped.
+  const getVariableRates = (): { [installmentNumber: number]: number } | undefined => {
+    const steps = formData.rateSteps.filter(step => step.from > 1 && step.from <= Number(formData.duration));
+    if (steps.length === 0) return undefined;
+    return steps.reduce((acc, step) => ({ ...acc, [step.from]: Number(step.rate) }), {} as { [installmentNumber: number]: number });
+  };
+
+  // Business calendar from Settings with the roll convention chosen for this loan
+  const getFormCalendar = (roll: RollConvention = formData.roll): BusinessCalendar => ({
+    ...StorageService.getSettings().calendar,
+    roll
+  });
+
+  // Loan terms as entered in the form, with rates converted to what calculateSchedule expects
+  const getFormScheduleRates = () => getScheduleRates({
+    interestRate: Number(formData.interestRate) || 0,
+    interestType: formData.interestType,
+    rateBasis: formData.rateBasis,
+    variableRates: getVariableRates(),
+    frequency: formData.frequency,
+    duration: Number(formData.duration) || 1,
+    type: formData.type
+  });
+
+  const handleLoanTypeChange = (type: LoanType) => {
+    // Follow the native basis of the new type unless the user picked a different one
+    setFormData(prev => ({
+        ...prev,
+        type,
+        rateBasis: prev.rateBasis === getDefaultRateBasis(prev.type) ? getDefaultRateBasis(type) : prev.rateBasis
+    }));
+  };
+
+  const handleRateStepChange = (index: number, field: 'from' | 'rate', value: number) => {
+    setFormData(prev => ({
+        ...prev,
+        rateSteps: prev.rateSteps.map((step, i) => i === index ? { ...step, [field]: value } : step)
+    }));
+  };
+
+  const handleAddRateStep = () => {
+    setFormData(prev => {
+        const lastFrom = prev.rateSteps.length > 0 ? prev.rateSteps[prev.rateSteps.length - 1].from : 1;
+        return {
+            ...prev,
+            rateSteps: [...prev.rateSteps, { from: Math.min(lastFrom + 1, Number(prev.duration) || 1), rate: Number(prev.interestRate) }]
+        };
+    });
+  };
+
+  const handleRemoveRateStep = (index: number) => {
+    setFormData(prev => ({ ...prev, rateSteps: prev.rateSteps.filter((_, i) => i !== index) }));
+  };
+
+  const handleAddCharge = () => {
+    setFormData(prev => ({
+        ...prev,
+        charges: [...prev.charges, {
+            id: generateUUID(),
+            name: '',
+            type: ChargeType.UPFRONT,
+            calculation: ChargeCalculation.PERCENTAGE,
+            value: 0,
+            upfrontMode: UpfrontChargeMode.DEDUCTED
+        }]
+    }));
+  };
+
+  const handleChargeChange = (index: number, changes: Partial<LoanCharge>) => {
+    setFormData(prev => ({
+        ...prev,
+        charges: prev.charges.map((charge, i) => {
+            if (i !== index) return charge;
+            const updated = { ...charge, ...changes };
+            // Only upfront charges are deducted or financed
+            if (updated.type === ChargeType.RECURRING) updated.upfrontMode = undefined;
+            else if (!updated.upfrontMode) updated.upfrontMode = UpfrontChargeMode.DEDUCTED;
+            return updated;
+        })
+    }));
+  };
+
+  const handleRemoveCharge = (index: number) => {
+    setFormData(prev => ({ ...prev, charges: prev.charges.filter((_, i) => i !== index) }));
+  };
+
+  const getFormCharges = (): LoanCharge[] | undefined => {
+    const charges = formData.charges
+        .filter(c => Number(c.value) > 0)
+        .map(c => ({ ...c, name: c.name.trim() || c.type, value: Number(c.value) }));
+    return charges.length > 0 ? charges : undefined;
+  };
+
+  // Schedule for the form: financed charges are added to the capital, recurring ones to each installment
+  const getFormSchedule = () => {
+    const scheduleRates = getFormScheduleRates();
+    const charges = getFormCharges();
+    return applyRecurringCharges(calculateSchedule(
+      getFinancedAmount(Number(formData.amount) || 0, charges),
+      scheduleRates.rate,
+      formData.interestType,
+      formData.frequency,
+      Number(formData.duration) || 1,
+      formData.type,
+      formData.startDate || toISODate(new Date()),
+      scheduleRates.variableRates,
+      getFormCalendar()
+    ), charges);
+  };
+
   const handleDateChange = (field: 'start' | 'end', value: string) => {
     // value is YYYY-MM-DD from input[type=date]
     if (!value) {
@@ -90,15 +309,17 @@ const Loans: React.FC = () => {
     if (field === 'start') {
         // If start changes, shift end date based on duration
         const newStart = parseDate(value);
-        const newEnd = addTime(newStart, formData.frequency, formData.duration);
+        const newEnd = getDueDate(newStart, formData.frequency, formData.duration, getFormCalendar());
         setFormData(prev => ({ 
             ...prev, 
             startDate: value, 
-            endDate: toISODate(newEnd)
+            endDate: toISODate(newEnd),
+            // The carried balance depends on which installments are due by the new start
+            ...(refinancingLoan ? { amount: Number(quoteRefinance(refinancingLoan, value).total.toFixed(2)) } : {})
         }));
     } else {
         // If end changes, recalculate duration
-        const duration = calculateDurationFromDates(formData.startDate, value, formData.frequency);
+        const duration = calculateDurationFromDates(formData.startDate, value, formData.frequency, getFormCalendar());
         setFormData(prev => ({ 
             ...prev, 
             endDate: value, 
@@ -109,7 +330,7 @@ const Loans: React.FC = () => {
 
   const handleDurationChange = (value: number) => {
      const start = parseDate(formData.startDate);
-     const newEnd = addTime(start, formData.frequency, value);
+     const newEnd = getDueDate(start, formData.frequency, value, getFormCalendar());
      setFormData(prev => ({
          ...prev,
          duration: value,
@@ -117,9 +338,18 @@ const Loans: React.FC = () => {
      }));
   };
 
+  const handleRollChange = (roll: RollConvention) => {
+      const newEnd = getDueDate(parseDate(formData.startDate), formData.frequency, formData.duration, getFormCalendar(roll));
+      setFormData(prev => ({
+          ...prev,
+          roll,
+          endDate: toISODate(newEnd)
+      }));
+  };
+
   const handleFrequencyChange = (freq: Frequency) => {
       const start = parseDate(formData.startDate);
-      const newEnd = addTime(start, freq, formData.duration);
+      const newEnd = getDueDate(start, freq, formData.duration, getFormCalendar());
       setFormData(prev => ({
           ...prev,
           frequency: freq,
@@ -137,57 +367,101 @@ const Loans: React.FC = () => {
     });
   };
 
-  const handleSaveLoan = (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    // Recalculate schedule based on current form data
-    const schedule = calculateSchedule(
-      Number(formData.amount),
-      Number(formData.interestRate),
-      formData.interestType,
-      formData.frequency,
-      Number(formData.duration),
-      formData.type,
-      formData.startDate
-    );
+  // A registered client is copied with their document so the loan still names them if they change
+  const handleAddGuarantor = (clientId?: string) => {
+    const client = clients.find(c => c.id === clientId);
+    const guarantor: Guarantor = client
+      ? { clientId: client.id, name: client.name, documentType: client.documentType || DocumentType.DNI, dni: client.dni, phone: client.phone }
+      : { name: '', documentType: DocumentType.DNI, dni: '', phone: '' };
+    setFormData(prev => ({ ...prev, guarantors: [...prev.guarantors, guarantor] }));
+  };
 
-    // If editing, attempt to preserve "PAID" status from the previous version of the loan
-    // CAUTION: This assumes the user accepts "rewriting history" regarding amounts if they changed rates/capital.
-    if (isEditing && selectedLoan) {
-        schedule.forEach((newInst) => {
-            const oldInst = selectedLoan.installments.find(i => i.number === newInst.number);
-            if (oldInst && oldInst.status === InstallmentStatus.PAID) {
-                newInst.status = InstallmentStatus.PAID;
-                newInst.paymentDate = oldInst.paymentDate;
-                // Note: We update the amount to the NEW calculation, but keep it marked as paid.
-                // This effectively updates the ledger to the new terms.
-            }
-        });
+  const handleGuarantorChange = (index: number, changes: Partial<Guarantor>) => {
+    setFormData(prev => ({ ...prev, guarantors: prev.guarantors.map((g, i) => i === index ? { ...g, ...changes } : g) }));
+  };
+
+  // The client's other loans: the one being edited or refinanced is replaced by the form
+  const getOtherClientLoans = (): Loan[] =>
+    loans.filter(l => l.clientId === formData.clientId && l.id !== formData.id && l.id !== refinancingLoan?.id);
+
+  const handleSaveLoan = async (e?: React.FormEvent, overrideReason?: string) => {
+    e?.preventDefault();
+
+    const guarantors = formData.guarantors.map(g => ({ ...g, name: g.name.trim(), dni: normalizeDocument(g.dni) }));
+    const guarantorError = validateGuarantors(guarantors, clients.find(c => c.id === formData.clientId));
+    if (guarantorError) {
+        setToast({ show: true, title: 'Revisa los avales', message: guarantorError, type: 'error' });
+        hideToastAfter(4000);
+        return;
     }
+    
+    // Recalculate schedule based on current form data
+    const schedule = getFormSchedule();
 
+    // Only loans without payments can be edited (see handleRefinanceInit), so the ledger starts empty
     const totalPayable = schedule.reduce((acc, curr) => acc + curr.amount, 0);
-    const totalPaid = schedule.reduce((acc, curr) => curr.status === InstallmentStatus.PAID ? acc + curr.amount : acc, 0);
     const actualEndDate = schedule.length > 0 ? schedule[schedule.length - 1].dueDate : formData.endDate;
 
-    const loanPayload: Loan = {
+    // Credit limits: a breach blocks the loan, or needs a written reason when the policy allows exceptions
+    const settings = StorageService.getSettings();
+    const creditCheck = checkCreditLimits(clients.find(c => c.id === formData.clientId), getOtherClientLoans(), totalPayable, settings.credit);
+    if (creditCheck.breaches.length > 0 && !settings.credit.allowOverride) {
+        setToast({ show: true, title: 'Límite de crédito excedido', message: creditCheck.breaches.join(' '), type: 'error' });
+        hideToastAfter(5000);
+        return;
+    }
+    if (creditCheck.breaches.length > 0 && !overrideReason) {
+        setOverrideForm({ breaches: creditCheck.breaches, reason: isEditing && selectedLoan?.limitOverride ? selectedLoan.limitOverride.reason : '' });
+        return;
+    }
+    const limitOverride = creditCheck.breaches.length > 0
+      ? { date: new Date().toISOString(), reason: overrideReason!.trim(), breaches: creditCheck.breaches }
+      : undefined;
+
+    const loanPayload: Loan = evaluateLoanStatus(accruePenalties(applyPaymentLedger({
       id: isEditing ? formData.id : generateUUID(),
       clientId: formData.clientId,
       amount: Number(formData.amount),
       interestRate: Number(formData.interestRate),
       interestType: formData.interestType,
+      rateBasis: formData.interestType === InterestType.PERCENTAGE ? formData.rateBasis : undefined,
+      variableRates: getVariableRates(),
       frequency: formData.frequency,
+      roll: formData.roll,
+      charges: getFormCharges(),
+      guarantors: guarantors.length > 0 ? guarantors : undefined,
+      limitOverride,
+      // Editing a loan that came from a refinance keeps its links to the original
+      refinancedFrom: isEditing ? selectedLoan?.refinancedFrom : undefined,
+      refinancedInto: isEditing ? selectedLoan?.refinancedInto : undefined,
       duration: Number(formData.duration),
       type: formData.type,
       startDate: formData.startDate,
       endDate: actualEndDate,
       installments: schedule,
-      status: schedule.every(i => i.status === InstallmentStatus.PAID) ? LoanStatus.COMPLETED : LoanStatus.ACTIVE,
+      payments: [],
+      status: isEditing && selectedLoan ? selectedLoan.status : LoanStatus.ACTIVE,
+      statusHistory: isEditing && selectedLoan ? selectedLoan.statusHistory : [],
       totalPayable,
-      totalPaid
-    };
+      totalPaid: 0
+    }), settings.penalty), settings.delinquency);
+
+    if (refinancingLoan) {
+        const result = await StorageService.refinanceLoan(refinancingLoan.id, loanPayload);
+        if (!result.success) {
+            setToast({ show: true, title: 'No se pudo refinanciar', message: result.message || '', type: 'error' });
+            hideToastAfter(4000);
+            return;
+        }
+        setLoans(await StorageService.getLoans());
+        setSelectedLoan(result.loan || null);
+        resetForm();
+        setView('detail');
+        return;
+    }
 
-    if (isEditing) StorageService.updateLoan(loanPayload);
-    else StorageService.saveLoan(loanPayload);
+    if (isEditing) await StorageService.updateLoan(loanPayload);
+    else await StorageService.saveLoan(loanPayload);
     
     setLoans(prev => isEditing ? prev.map(l => l.id === loanPayload.id ? loanPayload : l) : [...prev, loanPayload]);
     if (selectedLoan && selectedLoan.id === loanPayload.id) setSelectedLoan(loanPayload);
@@ -196,46 +470,189 @@ const Loans: React.FC = () => {
     setView('list');
   };
 
-  const handlePayInstallment = (installmentNumber: number) => {
+  const handleConfirmOverride = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!overrideForm) return;
+    if (!overrideForm.reason.trim()) {
+        setOverrideForm({ ...overrideForm, error: 'El motivo es obligatorio.' });
+        return;
+    }
+    setOverrideForm(null);
+    await handleSaveLoan(undefined, overrideForm.reason);
+  };
+
+  const handlePayInstallment = (installmentNumber?: number) => {
     if (!selectedLoan) return;
-    const updatedLoan = StorageService.payInstallment(selectedLoan.id, installmentNumber);
+    const installment = selectedLoan.installments.find(i => i.number === installmentNumber);
+    const outstanding = selectedLoan.installments.reduce((acc, i) => acc + getInstallmentBalance(i), 0);
+    setPaymentForm({
+        installmentNumber,
+        amount: Number((installment ? getInstallmentBalance(installment) : outstanding).toFixed(2)),
+        date: toISODate(new Date()),
+        method: PaymentMethod.CASH,
+        note: '',
+        collector: ''
+    });
+  };
+
+  const handleConfirmPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedLoan || !paymentForm) return;
+
+    // Keep the time of registration so several payments on the same day stay ordered
+    const now = new Date();
+    const paymentDate = parseDate(paymentForm.date);
+    paymentDate.setHours(now.getHours(), now.getMinutes(), now.getSeconds());
+
+    const updatedLoan = await StorageService.registerPayment(selectedLoan.id, {
+        amount: Number(paymentForm.amount),
+        date: paymentDate.toISOString(),
+        method: paymentForm.method,
+        note: paymentForm.note.trim(),
+        collector: paymentForm.collector.trim()
+    }, paymentForm.installmentNumber);
+
     if (updatedLoan) {
+        const registered = updatedLoan.payments.find(p => !selectedLoan.payments.some(q => q.id === p.id));
         setSelectedLoan(updatedLoan);
+        setPaymentForm(null);
         
-        // Mostrar Toast de confirmación
+        // Mostrar Toast de confirmación, con la opción de deshacer el pago
         setToast({
             show: true,
-            message: `Pago registrado. Nuevo total recaudado: ${formatCurrency(updatedLoan.totalPaid)}`
+            message: `Pago registrado. Nuevo total recaudado: ${formatCurrency(updatedLoan.totalPaid)}`,
+            undo: registered ? { loanId: updatedLoan.id, paymentId: registered.id } : undefined
         });
 
-        // Ocultar Toast automáticamente después de 3 segundos
-        setTimeout(() => {
-            setToast(null);
-        }, 4000);
+        // Ocultar Toast automáticamente al cerrar la ventana para deshacer
+        hideToastAfter(UNDO_WINDOW_MS);
+    } else {
+        // The modal stays open so the amount can be corrected
+        setToast({ show: true, title: 'No se pudo registrar el pago', message: 'Ingresa un monto mayor a cero. Si el préstamo no tiene saldo pendiente, no hay cuotas a las que aplicarlo.', type: 'error' });
+        hideToastAfter(4000);
     }
   };
 
+  const handleReversePayment = async (loanId: string, paymentId: string, reason: string): Promise<boolean> => {
+    const result = await StorageService.reversePayment(loanId, paymentId, reason);
+    if (result.success && result.loan) {
+        setSelectedLoan(result.loan);
+        setToast({
+            show: true,
+            title: 'Pago Revertido',
+            message: `Las cuotas vuelven a estar pendientes. Total recaudado: ${formatCurrency(result.loan.totalPaid)}`
+        });
+    } else {
+        setToast({ show: true, title: 'No se pudo revertir', message: result.message || '', type: 'error' });
+    }
+    hideToastAfter(4000);
+    return result.success;
+  };
+
+  const handleConfirmAnnul = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedLoan || !annulForm) return;
+    if (!annulForm.reason.trim()) {
+        setAnnulForm({ ...annulForm, error: 'El motivo es obligatorio.' });
+        return;
+    }
+    const result = await StorageService.annulLoan(selectedLoan.id, annulForm.reason);
+    if (result.success && result.loan) {
+        setSelectedLoan(result.loan);
+        setAnnulForm(null);
+        setToast({ show: true, title: 'Préstamo Anulado', message: 'El préstamo se conserva en el historial sin saldo pendiente.' });
+    } else {
+        setToast({ show: true, title: 'No se pudo anular', message: result.message || '', type: 'error' });
+    }
+    hideToastAfter(4000);
+  };
+
+  const handleConfirmReversal = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedLoan || !reversalForm) return;
+    if (!reversalForm.reason.trim()) {
+        setReversalForm({ ...reversalForm, error: 'El motivo es obligatorio.' });
+        return;
+    }
+    if (await handleReversePayment(selectedLoan.id, reversalForm.payment.id, reversalForm.reason)) setReversalForm(null);
+  };
+
+  const handleConfirmPrepayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedLoan || !prepaymentForm) return;
+
+    const now = new Date();
+    const paymentDate = parseDate(prepaymentForm.date);
+    paymentDate.setHours(now.getHours(), now.getMinutes(), now.getSeconds());
+
+    const result = await StorageService.applyPrepayment(selectedLoan.id, {
+        amount: Number(prepaymentForm.amount),
+        date: paymentDate.toISOString(),
+        method: prepaymentForm.method
+    }, prepaymentForm.mode);
+
+    if (result.success && result.loan) {
+        setSelectedLoan(result.loan);
+        setPrepaymentForm(null);
+        setToast({
+            show: true,
+            title: 'Prepago Aplicado',
+            message: result.loan.status === LoanStatus.COMPLETED
+                ? 'Préstamo cancelado anticipadamente.'
+                : `Prepago aplicado. Nueva cuota: ${formatCurrency(result.loan.installments.find(i => i.status !== InstallmentStatus.PAID)?.amount || 0)}`
+        });
+    } else {
+        setToast({ show: true, title: 'No se pudo aplicar el prepago', message: result.message || '', type: 'error' });
+    }
+    hideToastAfter(4000);
+  };
+
   // --- Real-time Simulation Preview ---
   const simulationPreview = useMemo(() => {
     if (!formData.amount || !formData.duration) return null;
     
-    const simSchedule = calculateSchedule(
-        Number(formData.amount) || 0,
-        Number(formData.interestRate) || 0,
-        formData.interestType,
-        formData.frequency,
-        Number(formData.duration) || 1,
-        formData.type,
-        formData.startDate || new Date().toISOString()
-    );
+    const simSchedule = getFormSchedule();
+    const charges = getFormCharges();
+    const upfront = getUpfrontCharges(Number(formData.amount) || 0, charges);
+    const disbursed = getDisbursedAmount({ amount: Number(formData.amount) || 0, charges });
 
     const totalSimulated = simSchedule.reduce((acc, curr) => acc + curr.amount, 0);
     const interestSimulated = simSchedule.reduce((acc, curr) => acc + curr.interest, 0);
     const firstQuota = simSchedule.length > 0 ? simSchedule[0].amount : 0;
+    const lastQuota = simSchedule.length > 0 ? simSchedule[simSchedule.length - 1].amount : 0;
+
+    const chargesSimulated = simSchedule.reduce((acc, curr) => acc + (curr.charges || 0), 0) + upfront.deducted + upfront.financed;
 
-    return { total: totalSimulated, interest: interestSimulated, quota: firstQuota };
+    const tcea = calculateTCEA(disbursed, simSchedule.map(i => ({ date: i.dueDate, amount: i.amount })), formData.startDate || toISODate(new Date()));
+
+    return { total: totalSimulated, interest: interestSimulated, charges: chargesSimulated, disbursed, quota: firstQuota, lastQuota, tcea };
   }, [formData]);
 
+  // Score of the selected client, leaving out the loan being edited or refinanced
+  const clientScore = useMemo(() => {
+    if (!formData.clientId) return null;
+    return scoreClient(getOtherClientLoans());
+  }, [formData.clientId, formData.id, loans, refinancingLoan]);
+
+  const creditCheck = useMemo(() => {
+    if (!formData.clientId) return null;
+    return checkCreditLimits(clients.find(c => c.id === formData.clientId), getOtherClientLoans(), simulationPreview?.total || 0, StorageService.getSettings().credit);
+  }, [formData.clientId, formData.id, loans, clients, refinancingLoan, simulationPreview]);
+
+  // Reasons to think twice before lending; they warn but never block
+  const scoreWarnings = (): string[] => {
+    if (!clientScore) return [];
+    const warnings: string[] = [];
+    if (clientScore.hasDefaultedLoan) warnings.push('Tiene un préstamo en mora.');
+    if (clientScore.grade === CreditGrade.D || clientScore.grade === CreditGrade.E) {
+      warnings.push(`Calificación ${clientScore.grade}: ${GRADE_DESCRIPTIONS[clientScore.grade].toLowerCase()}.`);
+    }
+    if (clientScore.suggestedLimit !== null && Number(formData.amount) > clientScore.suggestedLimit) {
+      warnings.push(`El monto supera el sugerido por su historial (${formatCurrency(clientScore.suggestedLimit)}).`);
+    }
+    return warnings;
+  };
+
 
   const renderCreateForm = () => (
     <div className="max-w-4xl mx-auto">
@@ -246,28 +663,70 @@ const Loans: React.FC = () => {
         <div className="p-6 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
           <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
             <Calculator className="w-5 h-5 text-emerald-600" />
-            {isEditing ? 'Editar Préstamo' : 'Simular y Crear Préstamo'}
+            {refinancingLoan ? 'Refinanciar Préstamo' : isEditing ? 'Editar Préstamo' : 'Simular y Crear Préstamo'}
           </h2>
           {isEditing && <span className="text-xs bg-amber-100 text-amber-700 px-2 py-1 rounded-full font-bold">Modo Edición</span>}
+          {refinancingLoan && <span className="text-xs bg-violet-100 text-violet-700 px-2 py-1 rounded-full font-bold">Refinanciación</span>}
         </div>
         <form onSubmit={handleSaveLoan} className="p-8 space-y-8">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="col-span-full">
                     <label className="block text-sm font-bold text-slate-700 mb-1">Seleccionar Cliente</label>
-                    <select required className="w-full border border-slate-300 rounded-lg px-3 py-2 bg-white text-slate-900 focus:ring-2 focus:ring-emerald-500"
+                    <select required disabled={!!refinancingLoan} className="w-full border border-slate-300 rounded-lg px-3 py-2 bg-white text-slate-900 focus:ring-2 focus:ring-emerald-500 disabled:bg-slate-50"
                         value={formData.clientId} onChange={e => setFormData({...formData, clientId: e.target.value})}>
                         <option value="">-- Seleccione --</option>
-                        {clients.map(c => <option key={c.id} value={c.id}>{c.name} - {c.dni}</option>)}
+                        {clients.filter(c => isClientActive(c) || c.id === formData.clientId).map(c => <option key={c.id} value={c.id}>{c.name} - {c.dni}</option>)}
                     </select>
+                    {clientScore && (
+                        <div className={`mt-3 rounded-lg border px-4 py-3 text-sm ${scoreWarnings().length > 0 ? 'bg-amber-50 border-amber-200' : 'bg-slate-50 border-slate-100'}`}>
+                            <div className="flex flex-wrap items-center gap-3 text-slate-600">
+                                <CreditGradeBadge grade={clientScore.grade} />
+                                <span className="font-medium text-slate-800">{clientScore.grade ? GRADE_DESCRIPTIONS[clientScore.grade] : 'Sin historial de pagos'}</span>
+                                {clientScore.onTimeRate !== null && <span>Puntualidad {(clientScore.onTimeRate * 100).toFixed(0)}%</span>}
+                                <span>Exposición {formatCurrency(clientScore.exposure)}</span>
+                                {clientScore.suggestedLimit !== null && <span>Sugerido hasta {formatCurrency(clientScore.suggestedLimit)}</span>}
+                            </div>
+                            {scoreWarnings().map(warning => (
+                                <p key={warning} className="flex items-center gap-2 text-amber-800 mt-2">
+                                    <AlertTriangle className="w-4 h-4 flex-shrink-0" /> {warning}
+                                </p>
+                            ))}
+                        </div>
+                    )}
+                    {creditCheck && (
+                        <div className={`mt-3 rounded-lg border px-4 py-3 text-sm ${creditCheck.breaches.length > 0 ? 'bg-rose-50 border-rose-200' : 'bg-slate-50 border-slate-100'}`}>
+                            <div className="flex flex-wrap items-center gap-3 text-slate-600">
+                                <Scale className="w-4 h-4 text-slate-400" />
+                                <span>Deuda actual {formatCurrency(creditCheck.exposure)}</span>
+                                <span>Con este préstamo {formatCurrency(creditCheck.projectedExposure)}</span>
+                                <span>{creditCheck.limit !== null ? `Límite ${formatCurrency(creditCheck.limit)}` : 'Sin límite de deuda'}</span>
+                                <span>{creditCheck.activeLoans} préstamo(s) vigente(s)</span>
+                            </div>
+                            {creditCheck.breaches.map(breach => (
+                                <p key={breach} className="flex items-center gap-2 text-rose-700 mt-2">
+                                    <Ban className="w-4 h-4 flex-shrink-0" /> {breach}
+                                </p>
+                            ))}
+                        </div>
+                    )}
                 </div>
 
                 <div>
                     <label className="block text-sm font-bold text-slate-700 mb-1">Monto Capital</label>
                     <div className="relative">
                         <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500">$</span>
-                        <input type="number" min="1" required className="w-full border border-slate-300 rounded-lg pl-8 pr-3 py-2 font-bold text-slate-900 bg-white focus:ring-2 focus:ring-emerald-500"
+                        <input type="number" min="1" required readOnly={!!refinancingLoan} className="w-full border border-slate-300 rounded-lg pl-8 pr-3 py-2 font-bold text-slate-900 bg-white focus:ring-2 focus:ring-emerald-500 read-only:bg-slate-50"
                             value={formData.amount} onChange={e => setFormData({...formData, amount: Number(e.target.value)})} />
                     </div>
+                    {refinancingLoan && (() => {
+                        const carried = quoteRefinance(refinancingLoan, formData.startDate);
+                        return (
+                            <p className="text-xs text-slate-500 mt-2">
+                                Saldo trasladado: capital {formatCurrency(carried.capital)} + interés vencido {formatCurrency(carried.interest)}
+                                {carried.charges > 0 && <> + cargos vencidos {formatCurrency(carried.charges)}</>} + mora {formatCurrency(carried.penalty)}
+                            </p>
+                        );
+                    })()}
                 </div>
 
                 <div className="p-4 bg-slate-50 rounded-lg border border-slate-200 col-span-full md:col-span-1">
@@ -294,18 +753,50 @@ const Loans: React.FC = () => {
                              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-500 font-bold">%</span>
                         )}
                     </div>
-                    <p className="text-xs text-slate-500 mt-2">
-                        {formData.interestType === InterestType.PERCENTAGE 
-                            ? (formData.type === LoanType.SIMPLE ? 'Tasa global total sobre el capital.' : 'Tasa por periodo.') 
-                            : 'Monto total de ganancia (Interés) a cobrar.'}
-                    </p>
+                    {formData.interestType === InterestType.PERCENTAGE ? (
+                        <>
+                            <select className="w-full mt-2 border border-slate-300 rounded-lg px-3 py-1.5 text-xs bg-white text-slate-700"
+                                value={formData.rateBasis} onChange={e => setFormData({...formData, rateBasis: e.target.value as RateBasis})}>
+                                {Object.values(RateBasis).map(b => <option key={b} value={b}>{b}</option>)}
+                            </select>
+                            <p className="text-xs text-slate-500 mt-2">
+                                Equivale a {convertRate(Number(formData.interestRate) || 0, formData.rateBasis, RateBasis.PER_PERIOD, formData.frequency, Number(formData.duration) || 1).toFixed(4)}% por periodo ({formData.frequency.toLowerCase()})
+                                {' · '}TEA {convertRate(Number(formData.interestRate) || 0, formData.rateBasis, RateBasis.EFFECTIVE_ANNUAL, formData.frequency, Number(formData.duration) || 1).toFixed(2)}%
+                            </p>
+                        </>
+                    ) : (
+                        <p className="text-xs text-slate-500 mt-2">
+                            {formData.type === LoanType.SIMPLE ? 'Monto total de ganancia (Interés) a cobrar.' : 'Monto total de interés; se convierte a la tasa por periodo equivalente.'}
+                        </p>
+                    )}
+
+                    {/* Variable Rate Steps */}
+                    <div className="mt-4 pt-3 border-t border-slate-200 space-y-2">
+                        {formData.rateSteps.map((step, index) => (
+                            <div key={index} className="flex items-center gap-2 text-xs text-slate-600">
+                                <span>Desde cuota</span>
+                                <input type="number" min="2" max={formData.duration} required className="w-16 border border-slate-300 rounded-md px-2 py-1 bg-white text-slate-900"
+                                    value={step.from} onChange={e => handleRateStepChange(index, 'from', Number(e.target.value))} />
+                                <span>{formData.interestType === InterestType.FIXED_AMOUNT ? 'monto' : 'tasa'}</span>
+                                <input type="number" step="0.1" required className="w-20 border border-slate-300 rounded-md px-2 py-1 bg-white text-slate-900 font-bold"
+                                    value={step.rate} onChange={e => handleRateStepChange(index, 'rate', Number(e.target.value))} />
+                                <span>{formData.interestType === InterestType.FIXED_AMOUNT ? '$' : '%'}</span>
+                                <button type="button" onClick={() => handleRemoveRateStep(index)} className="ml-auto p-1 text-slate-400 hover:text-rose-600 rounded">
+                                    <X className="w-3 h-3" />
+                                </button>
+                            </div>
+                        ))}
+                        <button type="button" onClick={handleAddRateStep} className="text-xs text-emerald-700 font-medium hover:underline flex items-center gap-1">
+                            <Plus className="w-3 h-3" /> Agregar cambio de tasa
+                        </button>
+                    </div>
                 </div>
 
                 <div className="col-span-full border-t border-slate-100 pt-6">
                     <h3 className="text-sm font-bold text-slate-800 mb-4 flex items-center gap-2">
                         <Clock className="w-4 h-4 text-emerald-500" /> Tiempo y Frecuencia
                     </h3>
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
                          <div>
                             <label className="block text-xs font-bold text-slate-600 mb-1">Frecuencia</label>
                             <select className="w-full border border-slate-300 rounded-lg px-3 py-2 bg-white text-slate-900"
@@ -313,6 +804,14 @@ const Loans: React.FC = () => {
                                 {Object.values(Frequency).map(f => <option key={f} value={f}>{f}</option>)}
                             </select>
                         </div>
+
+                        <div>
+                            <label className="block text-xs font-bold text-slate-600 mb-1">Días no hábiles</label>
+                            <select className="w-full border border-slate-300 rounded-lg px-3 py-2 bg-white text-slate-900"
+                                value={formData.roll} onChange={e => handleRollChange(e.target.value as RollConvention)}>
+                                {Object.values(RollConvention).map(r => <option key={r} value={r}>{r}</option>)}
+                            </select>
+                        </div>
                         
                         {/* Start Date */}
                         <div className="relative">
@@ -360,18 +859,102 @@ const Loans: React.FC = () => {
                     </div>
                 </div>
 
+                <div className="col-span-full border-t border-slate-100 pt-6">
+                    <h3 className="text-sm font-bold text-slate-800 mb-4 flex items-center gap-2">
+                        <Receipt className="w-4 h-4 text-emerald-500" /> Cargos y Seguros
+                    </h3>
+                    <div className="space-y-2">
+                        {formData.charges.map((charge, index) => (
+                            <div key={charge.id} className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+                                <input type="text" placeholder="Comisión, seguro..." className="flex-1 min-w-[140px] border border-slate-300 rounded-md px-2 py-1.5 bg-white text-slate-900"
+                                    value={charge.name} onChange={e => handleChargeChange(index, { name: e.target.value })} />
+                                <select className="border border-slate-300 rounded-md px-2 py-1.5 bg-white text-slate-700"
+                                    value={charge.type} onChange={e => handleChargeChange(index, { type: e.target.value as ChargeType })}>
+                                    {Object.values(ChargeType).map(t => <option key={t} value={t}>{t}</option>)}
+                                </select>
+                                <select className="border border-slate-300 rounded-md px-2 py-1.5 bg-white text-slate-700"
+                                    value={charge.calculation} onChange={e => handleChargeChange(index, { calculation: e.target.value as ChargeCalculation })}>
+                                    {Object.values(ChargeCalculation).map(c => <option key={c} value={c}>{c}</option>)}
+                                </select>
+                                <input type="number" min="0" step="0.01" required className="w-24 border border-slate-300 rounded-md px-2 py-1.5 bg-white text-slate-900 font-bold"
+                                    value={charge.value} onChange={e => handleChargeChange(index, { value: Number(e.target.value) })} />
+                                <span>{charge.calculation === ChargeCalculation.PERCENTAGE ? (charge.type === ChargeType.RECURRING ? '% del saldo' : '% del capital') : '$'}</span>
+                                {charge.type === ChargeType.UPFRONT && (
+                                    <select className="border border-slate-300 rounded-md px-2 py-1.5 bg-white text-slate-700"
+                                        value={charge.upfrontMode} onChange={e => handleChargeChange(index, { upfrontMode: e.target.value as UpfrontChargeMode })}>
+                                        {Object.values(UpfrontChargeMode).map(m => <option key={m} value={m}>{m}</option>)}
+                                    </select>
+                                )}
+                                <button type="button" onClick={() => handleRemoveCharge(index)} className="ml-auto p-1 text-slate-400 hover:text-rose-600 rounded">
+                                    <X className="w-3 h-3" />
+                                </button>
+                            </div>
+                        ))}
+                        <button type="button" onClick={handleAddCharge} className="text-xs text-emerald-700 font-medium hover:underline flex items-center gap-1">
+                            <Plus className="w-3 h-3" /> Agregar cargo
+                        </button>
+                    </div>
+                </div>
+
+                <div className="col-span-full border-t border-slate-100 pt-6">
+                    <h3 className="text-sm font-bold text-slate-800 mb-4 flex items-center gap-2">
+                        <ShieldCheck className="w-4 h-4 text-emerald-500" /> Avales
+                    </h3>
+                    <div className="space-y-2">
+                        {formData.guarantors.map((guarantor, index) => (
+                            <div key={index} className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+                                {guarantor.clientId ? (
+                                    <span className="flex-1 min-w-[140px] px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-md text-slate-800">
+                                        {guarantor.name} · {guarantor.documentType} {guarantor.dni} · {guarantor.phone} <span className="text-slate-400">(cliente)</span>
+                                    </span>
+                                ) : (
+                                    <>
+                                        <input type="text" placeholder="Nombre del aval" className="flex-1 min-w-[140px] border border-slate-300 rounded-md px-2 py-1.5 bg-white text-slate-900"
+                                            value={guarantor.name} onChange={e => handleGuarantorChange(index, { name: e.target.value })} />
+                                        <select className="border border-slate-300 rounded-md px-2 py-1.5 bg-white text-slate-700"
+                                            value={guarantor.documentType} onChange={e => handleGuarantorChange(index, { documentType: e.target.value as DocumentType })}>
+                                            {Object.values(DocumentType).map(t => <option key={t} value={t}>{t}</option>)}
+                                        </select>
+                                        <input type="text" placeholder="Número" className="w-28 border border-slate-300 rounded-md px-2 py-1.5 bg-white text-slate-900 font-mono"
+                                            value={guarantor.dni} onChange={e => handleGuarantorChange(index, { dni: e.target.value })} />
+                                        <input type="tel" placeholder="Teléfono" className="w-28 border border-slate-300 rounded-md px-2 py-1.5 bg-white text-slate-900"
+                                            value={guarantor.phone} onChange={e => handleGuarantorChange(index, { phone: e.target.value })} />
+                                    </>
+                                )}
+                                <button type="button" onClick={() => setFormData(prev => ({ ...prev, guarantors: prev.guarantors.filter((_, i) => i !== index) }))}
+                                    className="ml-auto p-1 text-slate-400 hover:text-rose-600 rounded">
+                                    <X className="w-3 h-3" />
+                                </button>
+                            </div>
+                        ))}
+                        <div className="flex flex-wrap items-center gap-3">
+                            <select className="border border-slate-300 rounded-md px-2 py-1.5 bg-white text-xs text-slate-700" value=""
+                                onChange={e => handleAddGuarantor(e.target.value)}>
+                                <option value="">Agregar cliente como aval...</option>
+                                {clients
+                                    .filter(c => isClientActive(c) && c.id !== formData.clientId && !formData.guarantors.some(g => g.clientId === c.id))
+                                    .map(c => <option key={c.id} value={c.id}>{c.name} - {c.dni}</option>)}
+                            </select>
+                            <button type="button" onClick={() => handleAddGuarantor()} className="text-xs text-emerald-700 font-medium hover:underline flex items-center gap-1">
+                                <Plus className="w-3 h-3" /> Agregar aval externo
+                            </button>
+                        </div>
+                    </div>
+                </div>
+
                 <div className="col-span-full">
                     <label className="block text-sm font-bold text-slate-700 mb-2">Tipo de Amortización</label>
-                    <div className="flex gap-4">
+                    <div className="flex flex-wrap gap-4">
                         {Object.values(LoanType).map(t => (
                             <label key={t} className={`flex items-center gap-2 cursor-pointer border p-3 rounded-lg transition-all ${formData.type === t ? 'border-emerald-500 bg-emerald-50' : 'border-slate-200 bg-white'}`}>
                                 <input type="radio" name="loanType" value={t} checked={formData.type === t} 
-                                    onChange={() => setFormData({...formData, type: t})} 
+                                    onChange={() => handleLoanTypeChange(t)} 
                                     className="text-emerald-600 focus:ring-emerald-500"/>
                                 <span className="text-sm font-medium text-slate-700">{t}</span>
                             </label>
                         ))}
                     </div>
+                    <p className="text-xs text-slate-500 mt-2">{LOAN_TYPE_HINTS[formData.type]}</p>
                 </div>
 
                 {/* Live Simulation Preview */}
@@ -380,10 +963,13 @@ const Loans: React.FC = () => {
                         <RefreshCw className="w-4 h-4" />
                         Resumen de Simulación (Calculado automáticamente)
                     </h3>
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                         <div className="bg-white p-3 rounded-lg border border-emerald-100 shadow-sm">
-                            <p className="text-xs text-slate-500 uppercase font-semibold">Cuota Estimada</p>
+                            <p className="text-xs text-slate-500 uppercase font-semibold">{formData.type === LoanType.AMERICAN ? 'Cuota de Interés' : 'Cuota Estimada'}</p>
                             <p className="text-lg font-bold text-emerald-600">{formatCurrency(simulationPreview?.quota || 0)}</p>
+                            {simulationPreview && Math.abs(simulationPreview.lastQuota - simulationPreview.quota) >= 0.01 && (
+                                <p className="text-xs text-slate-500">Última cuota: {formatCurrency(simulationPreview.lastQuota)}</p>
+                            )}
                         </div>
                         <div className="bg-white p-3 rounded-lg border border-emerald-100 shadow-sm">
                             <p className="text-xs text-slate-500 uppercase font-semibold">Total Interés</p>
@@ -392,6 +978,18 @@ const Loans: React.FC = () => {
                         <div className="bg-white p-3 rounded-lg border border-emerald-100 shadow-sm">
                             <p className="text-xs text-slate-500 uppercase font-semibold">Total a Pagar</p>
                             <p className="text-lg font-bold text-emerald-600">{formatCurrency(simulationPreview?.total || 0)}</p>
+                            {simulationPreview && simulationPreview.charges > 0 && (
+                                <p className="text-xs text-slate-500">Cargos: {formatCurrency(simulationPreview.charges)}</p>
+                            )}
+                        </div>
+                        <div className="bg-white p-3 rounded-lg border border-emerald-100 shadow-sm">
+                            <p className="text-xs text-slate-500 uppercase font-semibold">TCEA</p>
+                            <p className="text-lg font-bold text-emerald-600">{(simulationPreview?.tcea || 0).toFixed(2)}%</p>
+                            <p className="text-[10px] text-slate-400">
+                                {simulationPreview && Math.abs(simulationPreview.disbursed - (Number(formData.amount) || 0)) >= 0.01
+                                    ? `Desembolso neto: ${formatCurrency(simulationPreview.disbursed)}`
+                                    : 'Costo efectivo anual'}
+                            </p>
                         </div>
                     </div>
                 </div>
@@ -400,7 +998,7 @@ const Loans: React.FC = () => {
             <div className="pt-6 border-t border-slate-100 flex justify-end gap-3">
                 <button type="button" onClick={() => { resetForm(); setView('list'); }} className="px-6 py-2 border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 font-medium">Cancelar</button>
                 <button type="submit" className="px-6 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 font-medium shadow-sm hover:shadow-md transition-all">
-                    {isEditing ? 'Guardar Cambios' : 'Crear Préstamo'}
+                    {refinancingLoan ? 'Refinanciar' : isEditing ? 'Guardar Cambios' : 'Crear Préstamo'}
                 </button>
             </div>
         </form>
@@ -412,13 +1010,16 @@ const Loans: React.FC = () => {
     if (!selectedLoan) return null;
     const client = clients.find(c => c.id === selectedLoan.clientId);
     
-    // Sort paid installments by date descending
-    const paidInstallments = selectedLoan.installments.filter(i => i.status === InstallmentStatus.PAID);
-    paidInstallments.sort((a, b) => {
-        if (!a.paymentDate) return 1;
-        if (!b.paymentDate) return -1;
-        return new Date(b.paymentDate).getTime() - new Date(a.paymentDate).getTime();
-    });
+    const lastStatusChange = selectedLoan.statusHistory?.[selectedLoan.statusHistory.length - 1];
+    const linkedFrom = selectedLoan.refinancedFrom ? loans.find(l => l.id === selectedLoan.refinancedFrom) : undefined;
+    const linkedInto = selectedLoan.refinancedInto ? loans.find(l => l.id === selectedLoan.refinancedInto) : undefined;
+    const totalPenalty = selectedLoan.installments.reduce((acc, i) => acc + (i.penalty || 0), 0);
+    const hasCharges = selectedLoan.installments.some(i => i.charges);
+    const disbursed = getDisbursedAmount(selectedLoan);
+
+    // Sort payments by date descending
+    const payments = [...(selectedLoan.payments || [])];
+    payments.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
     return (
         <div className="space-y-6">
@@ -426,37 +1027,106 @@ const Loans: React.FC = () => {
                 <span className="text-sm">← Volver a la lista</span>
             </div>
             <div className="bg-white rounded-xl shadow-sm border border-slate-100 p-6 relative">
-                <button 
-                    onClick={() => handleEditInit(selectedLoan)}
-                    className="absolute top-6 right-6 text-slate-400 hover:text-emerald-600 p-2 hover:bg-slate-50 rounded-full transition-colors"
-                    title="Editar Préstamo"
-                >
-                    <Edit2 className="w-5 h-5" />
-                </button>
+                <div className="absolute top-6 right-6 flex gap-1">
+                    {selectedLoan.payments.length === 0 && selectedLoan.status !== LoanStatus.REFINANCED && selectedLoan.status !== LoanStatus.ANNULLED ? (
+                        <button 
+                            onClick={() => handleEditInit(selectedLoan)}
+                            className="text-slate-400 hover:text-emerald-600 p-2 hover:bg-slate-50 rounded-full transition-colors"
+                            title="Editar Préstamo"
+                        >
+                            <Edit2 className="w-5 h-5" />
+                        </button>
+                    ) : (selectedLoan.status === LoanStatus.ACTIVE || selectedLoan.status === LoanStatus.DEFAULTED) && (
+                        <button 
+                            onClick={() => handleRefinanceInit(selectedLoan)}
+                            className="text-slate-400 hover:text-violet-600 p-2 hover:bg-slate-50 rounded-full transition-colors"
+                            title="Refinanciar Préstamo"
+                        >
+                            <Repeat className="w-5 h-5" />
+                        </button>
+                    )}
+                    {selectedLoan.status !== LoanStatus.REFINANCED && selectedLoan.status !== LoanStatus.ANNULLED && (
+                        <button 
+                            onClick={() => setAnnulForm({ reason: '' })}
+                            className="text-slate-400 hover:text-rose-600 p-2 hover:bg-slate-50 rounded-full transition-colors"
+                            title="Anular Préstamo"
+                        >
+                            <Ban className="w-5 h-5" />
+                        </button>
+                    )}
+                </div>
 
-                <div className="flex flex-col md:flex-row justify-between md:items-center gap-4 pr-12">
+                <div className="flex flex-col md:flex-row justify-between md:items-center gap-4 pr-24">
                     <div>
                         <div className="flex items-center gap-3">
                             <h2 className="text-2xl font-bold text-slate-800">{client?.name}</h2>
-                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${selectedLoan.status === LoanStatus.ACTIVE ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-100 text-slate-600'}`}>
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${selectedLoan.status === LoanStatus.ACTIVE ? 'bg-emerald-100 text-emerald-700' : selectedLoan.status === LoanStatus.DEFAULTED ? 'bg-rose-100 text-rose-700' : 'bg-slate-100 text-slate-600'}`}>
                                 {selectedLoan.status}
                             </span>
                         </div>
+                        {lastStatusChange && (
+                            <p className="text-xs text-slate-400 mt-1">
+                                {lastStatusChange.from} → {lastStatusChange.to} el {formatDate(lastStatusChange.date)} ({lastStatusChange.reason})
+                            </p>
+                        )}
+                        {linkedFrom && (
+                            <button onClick={() => setSelectedLoan(linkedFrom)} className="text-xs text-violet-700 mt-1 flex items-center gap-1 hover:underline">
+                                <Link2 className="w-3 h-3" /> Refinanciación del préstamo del {formatDate(linkedFrom.startDate)} ({formatCurrency(linkedFrom.amount)})
+                            </button>
+                        )}
+                        {linkedInto && (
+                            <button onClick={() => setSelectedLoan(linkedInto)} className="text-xs text-violet-700 mt-1 flex items-center gap-1 hover:underline">
+                                <Link2 className="w-3 h-3" /> Refinanciado en el préstamo del {formatDate(linkedInto.startDate)} ({formatCurrency(linkedInto.amount)})
+                            </button>
+                        )}
                         <p className="text-slate-500 text-sm mt-1 flex gap-2">
                              <span>{selectedLoan.type}</span>
                              <span>•</span>
                              <span>{selectedLoan.frequency}</span>
                              <span>•</span>
-                             <span>{selectedLoan.interestType === InterestType.FIXED_AMOUNT ? `Interés Fijo: ${formatCurrency(selectedLoan.interestRate)}` : `Tasa: ${selectedLoan.interestRate}%`}</span>
+                             <span>{selectedLoan.interestType === InterestType.FIXED_AMOUNT ? `Interés Fijo: ${formatCurrency(selectedLoan.interestRate)}` : `Tasa: ${selectedLoan.interestRate}% ${selectedLoan.rateBasis || getDefaultRateBasis(selectedLoan.type)}`}</span>
+                             {Object.entries(selectedLoan.variableRates || {}).map(([from, rate]) => (
+                                <span key={from} className="text-amber-700">
+                                    → {selectedLoan.interestType === InterestType.FIXED_AMOUNT ? formatCurrency(rate) : `${rate}%`} desde cuota {from}
+                                </span>
+                             ))}
                         </p>
+                        {selectedLoan.charges && selectedLoan.charges.length > 0 && (
+                            <p className="text-xs text-slate-500 mt-1 flex flex-wrap gap-2">
+                                {selectedLoan.charges.map(c => (
+                                    <span key={c.id} className="bg-slate-100 px-2 py-0.5 rounded">
+                                        {c.name}: {c.calculation === ChargeCalculation.PERCENTAGE ? `${c.value}%` : formatCurrency(c.value)} {c.type === ChargeType.RECURRING ? 'por cuota' : c.upfrontMode === UpfrontChargeMode.FINANCED ? 'financiado' : 'descontado'}
+                                    </span>
+                                ))}
+                            </p>
+                        )}
+                        {selectedLoan.limitOverride && (
+                            <p className="text-xs text-rose-700 mt-1 flex items-center gap-1" title={selectedLoan.limitOverride.breaches.join(' ')}>
+                                <Scale className="w-3 h-3" />
+                                Aprobado por excepción al límite de crédito el {formatDate(selectedLoan.limitOverride.date)}: {selectedLoan.limitOverride.reason}
+                            </p>
+                        )}
+                        {selectedLoan.guarantors && selectedLoan.guarantors.length > 0 && (
+                            <p className="text-xs text-slate-500 mt-1 flex flex-wrap items-center gap-2">
+                                <ShieldCheck className="w-3 h-3" />
+                                {selectedLoan.guarantors.map((g, idx) => (
+                                    <span key={idx} className="bg-slate-100 px-2 py-0.5 rounded">
+                                        Aval: {g.name} ({g.documentType} {g.dni}){g.phone && ` · ${g.phone}`}
+                                    </span>
+                                ))}
+                            </p>
+                        )}
                     </div>
                     <div className="text-right">
                         <p className="text-sm text-slate-500">Monto del Préstamo</p>
                         <p className="text-2xl font-bold text-slate-900">{formatCurrency(selectedLoan.amount)}</p>
+                        {disbursed !== selectedLoan.amount && (
+                            <p className="text-xs text-slate-500">Desembolso neto: {formatCurrency(disbursed)}</p>
+                        )}
                     </div>
                 </div>
 
-                <div className="mt-8 grid grid-cols-1 md:grid-cols-4 gap-6 bg-slate-50 p-4 rounded-lg border border-slate-100">
+                <div className="mt-8 grid grid-cols-2 md:grid-cols-6 gap-6 bg-slate-50 p-4 rounded-lg border border-slate-100">
                     <div>
                         <p className="text-xs text-slate-500 uppercase font-semibold">Total a Pagar</p>
                         <p className="text-lg font-bold text-slate-800">{formatCurrency(selectedLoan.totalPayable)}</p>
@@ -465,6 +1135,14 @@ const Loans: React.FC = () => {
                         <p className="text-xs text-slate-500 uppercase font-semibold">Total Pagado</p>
                         <p className="text-lg font-bold text-emerald-600">{formatCurrency(selectedLoan.totalPaid)}</p>
                     </div>
+                    <div>
+                        <p className="text-xs text-slate-500 uppercase font-semibold">TCEA</p>
+                        <p className="text-lg font-bold text-slate-800">{getLoanTCEA(selectedLoan).toFixed(2)}%</p>
+                    </div>
+                    <div>
+                        <p className="text-xs text-slate-500 uppercase font-semibold">Mora Acumulada</p>
+                        <p className={`text-lg font-bold ${totalPenalty > 0 ? 'text-rose-600' : 'text-slate-400'}`}>{formatCurrency(totalPenalty)}</p>
+                    </div>
                     <div>
                         <p className="text-xs text-slate-500 uppercase font-semibold">Inicio</p>
                         <p className="text-sm font-medium text-slate-700">{formatDate(selectedLoan.startDate)}</p>
@@ -476,9 +1154,48 @@ const Loans: React.FC = () => {
                 </div>
             </div>
 
+            <div className="flex gap-2 border-b border-slate-200">
+                {([['schedule', 'Cronograma y pagos'], ['history', 'Historial de cambios']] as const).map(([tab, label]) => (
+                    <button key={tab} onClick={() => setDetailTab(tab)}
+                        className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${detailTab === tab ? 'border-emerald-600 text-emerald-700' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            {detailTab === 'history' ? (
+                <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+                    <div className="p-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+                        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+                            <History className="w-4 h-4 text-slate-500" />
+                            Historial de cambios
+                        </h3>
+                        <span className="text-xs font-medium text-slate-500">{loanHistory.length} registros</span>
+                    </div>
+                    <AuditTrail entries={loanHistory} />
+                </div>
+            ) : (<>
             <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
-                <div className="p-4 border-b border-slate-100 bg-slate-50">
+                <div className="p-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
                     <h3 className="font-semibold text-slate-800">Cronograma de Pagos</h3>
+                    {selectedLoan.status !== LoanStatus.COMPLETED && selectedLoan.status !== LoanStatus.REFINANCED && selectedLoan.status !== LoanStatus.ANNULLED && (
+                        <div className="flex gap-2">
+                            <button 
+                                onClick={() => setPrepaymentForm({ amount: 0, date: toISODate(new Date()), mode: PrepaymentMode.SHORTEN_TERM, method: PaymentMethod.CASH })}
+                                className="text-xs border border-emerald-600 text-emerald-700 px-3 py-1.5 rounded-lg hover:bg-emerald-50 transition-colors flex items-center gap-1"
+                            >
+                                <FastForward className="w-3 h-3" />
+                                Prepago / Cancelación
+                            </button>
+                            <button 
+                                onClick={() => handlePayInstallment()}
+                                className="text-xs bg-emerald-600 text-white px-3 py-1.5 rounded-lg hover:bg-emerald-700 transition-colors shadow-sm flex items-center gap-1"
+                            >
+                                <DollarSign className="w-3 h-3" />
+                                Registrar Pago
+                            </button>
+                        </div>
+                    )}
                 </div>
                 <div className="overflow-x-auto">
                     <table className="w-full">
@@ -489,6 +1206,9 @@ const Loans: React.FC = () => {
                                 <th className="px-6 py-3 text-right">Cuota</th>
                                 <th className="px-6 py-3 text-right">Capital</th>
                                 <th className="px-6 py-3 text-right">Interés</th>
+                                {hasCharges && <th className="px-6 py-3 text-right">Cargos</th>}
+                                <th className="px-6 py-3 text-right">Mora</th>
+                                <th className="px-6 py-3 text-right">Saldo</th>
                                 <th className="px-6 py-3 text-center">Estado</th>
                                 <th className="px-6 py-3 text-center">Acción</th>
                             </tr>
@@ -499,7 +1219,9 @@ const Loans: React.FC = () => {
                                 let statusColor = 'bg-slate-100 text-slate-600';
                                 if (inst.status === InstallmentStatus.PAID) statusColor = 'bg-emerald-100 text-emerald-700';
                                 else if (realStatus === InstallmentStatus.LATE) statusColor = 'bg-rose-100 text-rose-700';
+                                else if (realStatus === InstallmentStatus.PARTIAL) statusColor = 'bg-amber-100 text-amber-700';
                                 else if (inst.status === InstallmentStatus.PENDING) statusColor = 'bg-blue-50 text-blue-700';
+                                const balance = getInstallmentBalance(inst);
 
                                 return (
                                     <tr key={inst.number} className="hover:bg-slate-50 transition-colors">
@@ -508,13 +1230,16 @@ const Loans: React.FC = () => {
                                         <td className="px-6 py-4 text-sm font-bold text-slate-900 text-right">{formatCurrency(inst.amount)}</td>
                                         <td className="px-6 py-4 text-sm text-slate-500 text-right">{formatCurrency(inst.capital)}</td>
                                         <td className="px-6 py-4 text-sm text-slate-500 text-right">{formatCurrency(inst.interest)}</td>
+                                        {hasCharges && <td className="px-6 py-4 text-sm text-slate-500 text-right">{formatCurrency(inst.charges || 0)}</td>}
+                                        <td className={`px-6 py-4 text-sm text-right ${inst.penalty ? 'font-medium text-rose-600' : 'text-slate-400'}`}>{formatCurrency(inst.penalty || 0)}</td>
+                                        <td className={`px-6 py-4 text-sm text-right ${balance > 0 ? 'font-medium text-slate-700' : 'text-slate-400'}`}>{formatCurrency(balance)}</td>
                                         <td className="px-6 py-4 text-center">
                                             <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusColor}`}>
                                                 {inst.status === InstallmentStatus.PAID ? 'Pagado' : realStatus}
                                             </span>
                                         </td>
                                         <td className="px-6 py-4 text-center">
-                                            {inst.status !== InstallmentStatus.PAID && (
+                                            {inst.status !== InstallmentStatus.PAID && selectedLoan.status !== LoanStatus.REFINANCED && selectedLoan.status !== LoanStatus.ANNULLED && (
                                                 <button 
                                                     onClick={() => handlePayInstallment(inst.number)}
                                                     className="text-xs bg-emerald-500 text-white px-3 py-1 rounded hover:bg-emerald-600 transition-colors shadow-sm"
@@ -534,41 +1259,61 @@ const Loans: React.FC = () => {
                 </div>
             </div>
 
-            {/* NEW: Payment History Section */}
-            {paidInstallments.length > 0 && (
+            {/* Payment History Section */}
+            {payments.length > 0 && (
                 <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
                     <div className="p-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
                         <h3 className="font-semibold text-slate-800 flex items-center gap-2">
                              <Receipt className="w-4 h-4 text-emerald-600" />
                              Historial de Pagos Registrados
                         </h3>
-                        <span className="text-xs font-medium text-slate-500">{paidInstallments.length} pagos</span>
+                        <span className="text-xs font-medium text-slate-500">{payments.length} pagos</span>
                     </div>
                     <div className="overflow-x-auto">
                         <table className="w-full">
                             <thead className="bg-slate-50 text-slate-500 text-xs uppercase font-semibold">
                                 <tr>
                                     <th className="px-6 py-3 text-left">Fecha Pago</th>
-                                    <th className="px-6 py-3 text-left">Cuota</th>
+                                    <th className="px-6 py-3 text-left">Aplicado a</th>
+                                    <th className="px-6 py-3 text-left">Método</th>
+                                    <th className="px-6 py-3 text-left">Cobrador</th>
                                     <th className="px-6 py-3 text-right">Monto</th>
-                                    <th className="px-6 py-3 text-center">Estado</th>
+                                    <th className="px-6 py-3 text-center">Acción</th>
                                 </tr>
                             </thead>
                             <tbody className="divide-y divide-slate-100">
-                                {paidInstallments.map((inst) => (
-                                    <tr key={`pay-${inst.number}`} className="hover:bg-slate-50">
+                                {payments.map((payment) => (
+                                    <tr key={`pay-${payment.id}`} className={`hover:bg-slate-50 ${payment.reversal ? 'bg-rose-50/40' : ''}`}>
                                         <td className="px-6 py-4 text-sm text-slate-900 font-medium">
-                                            {formatDate(inst.paymentDate!)}
+                                            {formatDate(payment.date)}
                                             <span className="text-xs text-slate-400 block ml-0">
-                                                {new Date(inst.paymentDate!).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
+                                                {new Date(payment.date).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
                                             </span>
                                         </td>
-                                        <td className="px-6 py-4 text-sm text-slate-600">Cuota #{inst.number}</td>
-                                        <td className="px-6 py-4 text-sm font-bold text-emerald-600 text-right">{formatCurrency(inst.amount)}</td>
+                                        <td className="px-6 py-4 text-sm text-slate-600">
+                                            {payment.prepayment
+                                                ? 'Prepago de capital'
+                                                : payment.allocations.map(a => `Cuota #${a.installmentNumber} (${formatCurrency(a.amount)})`).join(', ')}
+                                            {payment.note && <span className="text-xs text-slate-400 block">{payment.note}</span>}
+                                            {payment.reversal && (
+                                                <span className="text-xs text-rose-600 block">
+                                                    Revertido el {formatDate(payment.reversal.date)}: {payment.reversal.reason}
+                                                </span>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 text-sm text-slate-600">{payment.method}</td>
+                                        <td className="px-6 py-4 text-sm text-slate-600">{payment.collector || '-'}</td>
+                                        <td className={`px-6 py-4 text-sm font-bold text-right ${payment.reversal ? 'text-slate-400 line-through' : 'text-emerald-600'}`}>{formatCurrency(payment.amount)}</td>
                                         <td className="px-6 py-4 text-center">
-                                            <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-emerald-100 text-emerald-800">
-                                                Completado
-                                            </span>
+                                            {!payment.reversal && !payment.prepayment && selectedLoan.status !== LoanStatus.REFINANCED && selectedLoan.status !== LoanStatus.ANNULLED && (
+                                                <button
+                                                    onClick={() => setReversalForm({ payment, reason: '' })}
+                                                    className="text-xs text-rose-600 hover:text-rose-700 hover:bg-rose-50 px-2 py-1 rounded transition-colors inline-flex items-center gap-1"
+                                                >
+                                                    <Undo2 className="w-3 h-3" />
+                                                    Revertir
+                                                </button>
+                                            )}
                                         </td>
                                     </tr>
                                 ))}
@@ -577,6 +1322,7 @@ const Loans: React.FC = () => {
                     </div>
                 </div>
             )}
+            </>)}
         </div>
     );
   };
@@ -608,6 +1354,13 @@ const Loans: React.FC = () => {
                     <div className="w-0 h-0 border-l-[4px] border-l-transparent border-r-[4px] border-r-transparent border-t-[4px] border-t-slate-400"></div>
                 </div>
             </div>
+            <button 
+              onClick={() => setShowExport(true)}
+              className="bg-white border border-slate-300 text-slate-600 hover:bg-slate-50 px-4 py-2 rounded-lg flex items-center justify-center gap-2 transition-colors shadow-sm whitespace-nowrap"
+            >
+              <Download className="w-4 h-4" />
+              Exportar
+            </button>
             <button 
               onClick={() => { resetForm(); setView('create'); }}
               className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg flex items-center justify-center gap-2 transition-colors shadow-sm whitespace-nowrap"
@@ -623,7 +1376,7 @@ const Loans: React.FC = () => {
             const client = clients.find(c => c.id === loan.clientId);
             const progress = Math.min(100, (loan.totalPaid / loan.totalPayable) * 100);
             return (
-                <div key={loan.id} className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 hover:shadow-md transition-all cursor-pointer group" onClick={() => { setSelectedLoan(loan); setView('detail'); }}>
+                <div key={loan.id} className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 hover:shadow-md transition-all cursor-pointer group" onClick={() => { setSelectedLoan(loan); setDetailTab('schedule'); setView('detail'); }}>
                     <div className="flex justify-between items-start">
                         <div className="flex items-center gap-4">
                              <div className="w-12 h-12 rounded-full bg-slate-50 flex items-center justify-center text-emerald-600 group-hover:bg-emerald-50 transition-colors">
@@ -636,7 +1389,7 @@ const Loans: React.FC = () => {
                         </div>
                         <div className="text-right">
                              <p className="text-sm text-slate-500">Saldo Pendiente</p>
-                             <p className="font-bold text-slate-900 text-lg">{formatCurrency(loan.totalPayable - loan.totalPaid)}</p>
+                             <p className="font-bold text-slate-900 text-lg">{formatCurrency(getLoanBalance(loan))}</p>
                         </div>
                     </div>
                     
@@ -660,7 +1413,7 @@ const Loans: React.FC = () => {
                                 <Clock className="w-4 h-4" />
                                 {loan.duration} cuotas
                              </div>
-                             <div className={`px-2 py-0.5 rounded text-xs font-bold ${loan.status === LoanStatus.ACTIVE ? 'bg-emerald-100 text-emerald-700' : loan.status === LoanStatus.DEFAULTED ? 'bg-rose-100 text-rose-700' : 'bg-blue-100 text-blue-700'}`}>
+                             <div className={`px-2 py-0.5 rounded text-xs font-bold ${loan.status === LoanStatus.ACTIVE ? 'bg-emerald-100 text-emerald-700' : loan.status === LoanStatus.DEFAULTED ? 'bg-rose-100 text-rose-700' : loan.status === LoanStatus.REFINANCED ? 'bg-violet-100 text-violet-700' : loan.status === LoanStatus.ANNULLED ? 'bg-slate-200 text-slate-600' : 'bg-blue-100 text-blue-700'}`}>
                                 {loan.status}
                              </div>
                          </div>
@@ -688,18 +1441,246 @@ const Loans: React.FC = () => {
       {view === 'create' && renderCreateForm()}
       {view === 'detail' && renderDetail()}
 
+      {/* Payment Modal */}
+      {paymentForm && selectedLoan && (
+        <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+            <form onSubmit={handleConfirmPayment} className="bg-white rounded-xl shadow-2xl max-w-md w-full overflow-hidden">
+                <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+                    <h3 className="font-bold text-lg text-slate-800">
+                        {paymentForm.installmentNumber ? `Pago de Cuota #${paymentForm.installmentNumber}` : 'Registrar Pago'}
+                    </h3>
+                    <button type="button" onClick={() => setPaymentForm(null)} className="p-1 text-slate-400 hover:text-slate-600 rounded">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+                <div className="p-6 space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs font-bold text-slate-600 mb-1">Monto Recibido</label>
+                            <input type="number" min="0.01" step="0.01" required className="w-full border border-slate-300 rounded-lg px-3 py-2 font-bold text-slate-900 bg-white focus:ring-2 focus:ring-emerald-500"
+                                value={paymentForm.amount} onChange={e => setPaymentForm({...paymentForm, amount: Number(e.target.value)})} />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-slate-600 mb-1">Fecha de Pago</label>
+                            <input type="date" required className="w-full border border-slate-300 rounded-lg px-3 py-2 bg-white text-slate-900 focus:ring-2 focus:ring-emerald-500"
+                                value={paymentForm.date} onChange={e => setPaymentForm({...paymentForm, date: e.target.value})} />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-slate-600 mb-1">Método</label>
+                            <select className="w-full border border-slate-300 rounded-lg px-3 py-2 bg-white text-slate-900"
+                                value={paymentForm.method} onChange={e => setPaymentForm({...paymentForm, method: e.target.value as PaymentMethod})}>
+                                {Object.values(PaymentMethod).map(m => <option key={m} value={m}>{m}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-slate-600 mb-1">Cobrador</label>
+                            <input type="text" className="w-full border border-slate-300 rounded-lg px-3 py-2 bg-white text-slate-900 focus:ring-2 focus:ring-emerald-500"
+                                value={paymentForm.collector} onChange={e => setPaymentForm({...paymentForm, collector: e.target.value})} />
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-xs font-bold text-slate-600 mb-1">Nota</label>
+                        <input type="text" className="w-full border border-slate-300 rounded-lg px-3 py-2 bg-white text-slate-900 focus:ring-2 focus:ring-emerald-500"
+                            value={paymentForm.note} onChange={e => setPaymentForm({...paymentForm, note: e.target.value})} />
+                    </div>
+                    <p className="text-xs text-slate-500">
+                        Un monto menor a la cuota queda como pago parcial. El excedente se aplica a las siguientes cuotas en orden.
+                    </p>
+                </div>
+                <div className="px-6 py-4 border-t border-slate-100 flex justify-end gap-3">
+                    <button type="button" onClick={() => setPaymentForm(null)} className="px-4 py-2 text-slate-600 hover:bg-slate-50 rounded-lg">Cancelar</button>
+                    <button type="submit" className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 font-medium shadow-sm">Confirmar Pago</button>
+                </div>
+            </form>
+        </div>
+      )}
+
+      {/* Prepayment Modal */}
+      {prepaymentForm && selectedLoan && (() => {
+        const quote = quotePrepayment(selectedLoan, Number(prepaymentForm.amount), prepaymentForm.date, prepaymentForm.mode);
+        return (
+        <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+            <form onSubmit={handleConfirmPrepayment} className="bg-white rounded-xl shadow-2xl max-w-lg w-full overflow-hidden">
+                <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+                    <h3 className="font-bold text-lg text-slate-800">Prepago de Capital</h3>
+                    <button type="button" onClick={() => setPrepaymentForm(null)} className="p-1 text-slate-400 hover:text-slate-600 rounded">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+                <div className="p-6 space-y-4">
+                    <div className="bg-slate-50 p-3 rounded-lg border border-slate-100 flex justify-between items-center">
+                        <div>
+                            <p className="text-xs text-slate-500 uppercase font-semibold">Monto para Cancelar</p>
+                            <p className="text-lg font-bold text-slate-800">{formatCurrency(quote.outstandingCapital)}</p>
+                        </div>
+                        <button type="button" onClick={() => setPrepaymentForm({...prepaymentForm, amount: Number(quote.outstandingCapital.toFixed(2))})}
+                            className="text-xs text-emerald-700 font-medium hover:underline">
+                            Cancelar todo
+                        </button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs font-bold text-slate-600 mb-1">Monto a Prepagar</label>
+                            <input type="number" min="0.01" step="0.01" required className="w-full border border-slate-300 rounded-lg px-3 py-2 font-bold text-slate-900 bg-white focus:ring-2 focus:ring-emerald-500"
+                                value={prepaymentForm.amount} onChange={e => setPrepaymentForm({...prepaymentForm, amount: Number(e.target.value)})} />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-slate-600 mb-1">Fecha</label>
+                            <input type="date" required className="w-full border border-slate-300 rounded-lg px-3 py-2 bg-white text-slate-900 focus:ring-2 focus:ring-emerald-500"
+                                value={prepaymentForm.date} onChange={e => setPrepaymentForm({...prepaymentForm, date: e.target.value})} />
+                        </div>
+                    </div>
+                    <div className="flex gap-2">
+                        {Object.values(PrepaymentMode).map(m => (
+                            <button key={m} type="button"
+                                onClick={() => setPrepaymentForm({...prepaymentForm, mode: m})}
+                                className={`flex-1 text-xs py-2 rounded-md border transition-colors ${prepaymentForm.mode === m ? 'bg-emerald-100 border-emerald-500 text-emerald-700 font-bold' : 'bg-white border-slate-300 text-slate-500'}`}>
+                                {m}
+                            </button>
+                        ))}
+                    </div>
+                    {quote.error ? (
+                        <p className="text-xs text-rose-600 flex items-center gap-1"><AlertCircle className="w-4 h-4" /> {quote.error}</p>
+                    ) : (
+                        <div className="grid grid-cols-3 gap-3 bg-emerald-50 p-3 rounded-lg border border-emerald-100">
+                            <div>
+                                <p className="text-[10px] text-slate-500 uppercase font-semibold">Nueva Cuota</p>
+                                <p className="text-sm font-bold text-emerald-700">{formatCurrency(quote.newQuota)}</p>
+                            </div>
+                            <div>
+                                <p className="text-[10px] text-slate-500 uppercase font-semibold">Cuotas Restantes</p>
+                                <p className="text-sm font-bold text-emerald-700">{quote.newDuration}</p>
+                            </div>
+                            <div>
+                                <p className="text-[10px] text-slate-500 uppercase font-semibold">Interés Ahorrado</p>
+                                <p className="text-sm font-bold text-emerald-700">{formatCurrency(quote.interestSaved)}</p>
+                            </div>
+                        </div>
+                    )}
+                </div>
+                <div className="px-6 py-4 border-t border-slate-100 flex justify-end gap-3">
+                    <button type="button" onClick={() => setPrepaymentForm(null)} className="px-4 py-2 text-slate-600 hover:bg-slate-50 rounded-lg">Cancelar</button>
+                    <button type="submit" disabled={!!quote.error} className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 font-medium shadow-sm disabled:opacity-50 disabled:cursor-not-allowed">Aplicar Prepago</button>
+                </div>
+            </form>
+        </div>
+        );
+      })()}
+
+      {showExport && <ExportDialog initialStatus={filterStatus} onClose={() => setShowExport(false)} />}
+
+      {/* Credit Limit Override Modal */}
+      {overrideForm && (
+        <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+            <form onSubmit={handleConfirmOverride} className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6">
+                <div className="flex items-center gap-3 mb-4 text-rose-600">
+                    <Scale className="w-6 h-6" />
+                    <h3 className="text-xl font-bold text-slate-900">Límite de Crédito Excedido</h3>
+                </div>
+                <ul className="text-slate-600 text-sm mb-4 space-y-1 list-disc pl-5">
+                    {overrideForm.breaches.map(breach => <li key={breach}>{breach}</li>)}
+                </ul>
+                <p className="text-slate-600 text-sm mb-4">Para otorgarlo de todos modos indica el motivo. Quedará registrado en el préstamo.</p>
+                <label className="block text-xs font-bold text-slate-600 mb-1">Motivo de la excepción</label>
+                <textarea
+                    autoFocus
+                    rows={2}
+                    value={overrideForm.reason}
+                    onChange={(e) => setOverrideForm({ ...overrideForm, reason: e.target.value, error: undefined })}
+                    className={`w-full border rounded-lg px-3 py-2 text-sm ${overrideForm.error ? 'border-rose-400' : 'border-slate-300'}`}
+                    placeholder="Ej. Aval con patrimonio suficiente"
+                />
+                {overrideForm.error && <p className="text-xs text-rose-600 mt-1">{overrideForm.error}</p>}
+                <div className="flex justify-end gap-3 mt-6">
+                    <button type="button" onClick={() => setOverrideForm(null)} className="px-4 py-2 text-slate-600 hover:bg-slate-50 rounded-lg">Cancelar</button>
+                    <button type="submit" className="px-4 py-2 bg-rose-600 text-white rounded-lg hover:bg-rose-700">Otorgar con Excepción</button>
+                </div>
+            </form>
+        </div>
+      )}
+
+      {/* Annulment Modal */}
+      {annulForm && selectedLoan && (
+        <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+            <form onSubmit={handleConfirmAnnul} className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6">
+                <div className="flex items-center gap-3 mb-4 text-rose-600">
+                    <Ban className="w-6 h-6" />
+                    <h3 className="text-xl font-bold text-slate-900">Anular Préstamo</h3>
+                </div>
+                <p className="text-slate-600 text-sm mb-4">
+                    El préstamo de <strong>{formatCurrency(selectedLoan.amount)}</strong> quedará anulado: no tendrá saldo ni admitirá pagos,
+                    pero se conservará con su cronograma y pagos registrados.
+                    {selectedLoan.payments.some(p => !p.reversal) && ' Los pagos ya recibidos no se revierten.'}
+                </p>
+                <label className="block text-xs font-bold text-slate-600 mb-1">Motivo</label>
+                <textarea
+                    autoFocus
+                    rows={2}
+                    value={annulForm.reason}
+                    onChange={(e) => setAnnulForm({ reason: e.target.value })}
+                    className={`w-full border rounded-lg px-3 py-2 text-sm ${annulForm.error ? 'border-rose-400' : 'border-slate-300'}`}
+                    placeholder="Ej. Préstamo no desembolsado"
+                />
+                {annulForm.error && <p className="text-xs text-rose-600 mt-1">{annulForm.error}</p>}
+                <div className="flex justify-end gap-3 mt-6">
+                    <button type="button" onClick={() => setAnnulForm(null)} className="px-4 py-2 text-slate-600 hover:bg-slate-50 rounded-lg">Cancelar</button>
+                    <button type="submit" className="px-4 py-2 bg-rose-600 text-white rounded-lg hover:bg-rose-700">Anular Préstamo</button>
+                </div>
+            </form>
+        </div>
+      )}
+
+      {/* Payment Reversal Modal */}
+      {reversalForm && selectedLoan && (
+        <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+            <form onSubmit={handleConfirmReversal} className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6">
+                <div className="flex items-center gap-3 mb-4 text-rose-600">
+                    <Undo2 className="w-6 h-6" />
+                    <h3 className="text-xl font-bold text-slate-900">Revertir Pago</h3>
+                </div>
+                <p className="text-slate-600 text-sm mb-4">
+                    El pago de <strong>{formatCurrency(reversalForm.payment.amount)}</strong> del {formatDate(reversalForm.payment.date)} quedará
+                    registrado como revertido y las cuotas {reversalForm.payment.allocations.map(a => `#${a.installmentNumber}`).join(', ')} volverán a estar pendientes.
+                </p>
+                <label className="block text-xs font-bold text-slate-600 mb-1">Motivo</label>
+                <textarea
+                    autoFocus
+                    rows={2}
+                    value={reversalForm.reason}
+                    onChange={(e) => setReversalForm({ ...reversalForm, reason: e.target.value, error: undefined })}
+                    className={`w-full border rounded-lg px-3 py-2 text-sm ${reversalForm.error ? 'border-rose-400' : 'border-slate-300'}`}
+                    placeholder="Ej. Pago registrado en el préstamo equivocado"
+                />
+                {reversalForm.error && <p className="text-xs text-rose-600 mt-1">{reversalForm.error}</p>}
+                <div className="flex justify-end gap-3 mt-6">
+                    <button type="button" onClick={() => setReversalForm(null)} className="px-4 py-2 text-slate-600 hover:bg-slate-50 rounded-lg">Cancelar</button>
+                    <button type="submit" className="px-4 py-2 bg-rose-600 text-white rounded-lg hover:bg-rose-700">Revertir Pago</button>
+                </div>
+            </form>
+        </div>
+      )}
+
       {/* Toast Notification */}
       {toast && toast.show && (
         <div className="fixed bottom-6 right-6 z-50 animate-in slide-in-from-bottom-5 fade-in duration-300">
-            <div className="bg-emerald-600 text-white px-6 py-4 rounded-lg shadow-xl flex items-center gap-3 pr-10 relative">
-                <CheckCircle className="w-6 h-6 flex-shrink-0" />
+            <div className={`${toast.type === 'error' ? 'bg-rose-600' : 'bg-emerald-600'} text-white px-6 py-4 rounded-lg shadow-xl flex items-center gap-3 pr-10 relative`}>
+                {toast.type === 'error' ? <AlertCircle className="w-6 h-6 flex-shrink-0" /> : <CheckCircle className="w-6 h-6 flex-shrink-0" />}
                 <div>
-                    <h4 className="font-bold text-sm">¡Pago Exitoso!</h4>
-                    <p className="text-xs text-emerald-100">{toast.message}</p>
+                    <h4 className="font-bold text-sm">{toast.title || '¡Pago Exitoso!'}</h4>
+                    <p className={`text-xs ${toast.type === 'error' ? 'text-rose-100' : 'text-emerald-100'}`}>{toast.message}</p>
                 </div>
+                {toast.undo && (
+                    <button
+                        onClick={() => { const { loanId, paymentId } = toast.undo!; setToast(null); handleReversePayment(loanId, paymentId, UNDO_REASON); }}
+                        className="ml-2 text-xs font-bold bg-white/20 hover:bg-white/30 px-3 py-1.5 rounded flex items-center gap-1 whitespace-nowrap"
+                    >
+                        <Undo2 className="w-3 h-3" />
+                        Deshacer
+                    </button>
+                )}
                 <button 
                     onClick={() => setToast(null)} 
-                    className="absolute top-2 right-2 p-1 text-emerald-200 hover:text-white hover:bg-emerald-700/50 rounded"
+                    className={`absolute top-2 right-2 p-1 rounded ${toast.type === 'error' ? 'text-rose-200 hover:text-white hover:bg-rose-700/50' : 'text-emerald-200 hover:text-white hover:bg-emerald-700/50'}`}
                 >
                     <X className="w-4 h-4" />
                 </button>
@@ -1,26 +1,229 @@
-import React, { useState, useRef } from 'react';
-import { Download, Upload, Trash2, Database, AlertTriangle, FileJson, RefreshCw, CheckCircle, X, XCircle } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { Download, Upload, Trash2, Database, AlertTriangle, FileJson, RefreshCw, CheckCircle, X, XCircle, Percent, Save, ShieldAlert, CalendarDays, Plus, GitMerge, FileSpreadsheet, Lock, History, RotateCcw, Wrench, Scale } from 'lucide-react';
 import { StorageService } from '../services/storage';
+import { parseHolidayFile, mergeHolidays } from '../services/calendar';
+import { MergePreview, getModifiedAt } from '../services/importMerge';
+import { ValidationReport } from '../services/validation';
+import ValidationReportView from '../components/ValidationReportView';
+import ExportDialog from '../components/ExportDialog';
+import { MIN_PASSPHRASE_LENGTH } from '../services/backupCrypto';
+import { ColumnMapping, SPREADSHEET_FIELDS, SheetCell, SpreadsheetImportOptions, buildSpreadsheetImport, guessColumnMapping, parseCsv } from '../services/spreadsheetImport';
+import { readXlsxRows } from '../services/xlsx';
+import { IntegrityReport, isClientActive } from '../services/integrity';
+import { PenaltyPolicy, DelinquencyPolicy, CreditPolicy, BusinessCalendar, RollConvention, MergeStatus, MergeResolution, Client, LoanType, RateBasis, Frequency, BackupError, Snapshot, SnapshotPolicy, SnapshotReason } from '../types';
+import { formatCurrency, formatDate } from '../utils';
+
+const WEEKDAYS = ['Dom', 'Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb'];
+
+const MERGE_STATUS_STYLES: Record<MergeStatus, string> = {
+  [MergeStatus.NEW]: 'bg-emerald-100 text-emerald-700',
+  [MergeStatus.UPDATED]: 'bg-blue-100 text-blue-700',
+  [MergeStatus.CONFLICT]: 'bg-amber-100 text-amber-700',
+  [MergeStatus.UNCHANGED]: 'bg-slate-100 text-slate-600'
+};
 
 const Settings: React.FC = () => {
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
   const [deleteConfirmation, setDeleteConfirmation] = useState(''); 
   const [toast, setToast] = useState<{ show: boolean; message: string; type: 'success' | 'error' } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importMode, setImportMode] = useState<'replace' | 'merge'>('replace');
+  const [mergePreview, setMergePreview] = useState<MergePreview | null>(null);
+  const [mergeReport, setMergeReport] = useState<ValidationReport | null>(null);
+  // Replace import waiting for the validation report to be accepted
+  const [importReview, setImportReview] = useState<{ content: string; passphrase?: string; report: ValidationReport; clients: number; loans: number; message?: string } | null>(null);
+  const [passphrasePrompt, setPassphrasePrompt] = useState<{ content: string; passphrase: string; error?: string; checking?: boolean } | null>(null);
+  const [exportEncryption, setExportEncryption] = useState({ enabled: false, passphrase: '', confirmation: '' });
+  const [mergeResolutions, setMergeResolutions] = useState<Record<string, MergeResolution>>({});
+  const [defaultResolution, setDefaultResolution] = useState<MergeResolution>(MergeResolution.KEEP_NEWEST);
+  const sheetInputRef = useRef<HTMLInputElement>(null);
+  // Spreadsheet being mapped, with the clients it may link to
+  const [sheet, setSheet] = useState<{ fileName: string; rows: SheetCell[][]; existingClients: Client[] } | null>(null);
+  const [sheetMapping, setSheetMapping] = useState<ColumnMapping>({});
+  const [sheetOptions, setSheetOptions] = useState<Omit<SpreadsheetImportOptions, 'calendar'>>({
+    loanType: LoanType.SIMPLE,
+    rateBasis: RateBasis.TERM,
+    defaultFrequency: Frequency.MONTHLY,
+    defaultDuration: 12
+  });
+  const [penaltyPolicy, setPenaltyPolicy] = useState<PenaltyPolicy>(() => StorageService.getSettings().penalty);
+
+  const [delinquencyPolicy, setDelinquencyPolicy] = useState<DelinquencyPolicy>(() => StorageService.getSettings().delinquency);
+  const [creditPolicy, setCreditPolicy] = useState<CreditPolicy>(() => StorageService.getSettings().credit);
+
+  const [calendar, setCalendar] = useState<BusinessCalendar>(() => StorageService.getSettings().calendar);
+  const [snapshotPolicy, setSnapshotPolicy] = useState<SnapshotPolicy>(() => StorageService.getSettings().snapshots);
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [restoreTarget, setRestoreTarget] = useState<Snapshot | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  // Integrity check results, with the client chosen for each orphaned loan (none: a placeholder is created)
+  const [integrity, setIntegrity] = useState<{ report: IntegrityReport; clients: Client[] } | null>(null);
+  const [orphanAssignments, setOrphanAssignments] = useState<Record<string, string>>({});
+  const [newHoliday, setNewHoliday] = useState({ date: '', name: '' });
+  const holidayInputRef = useRef<HTMLInputElement>(null);
+
+  const loadSnapshots = async () => {
+    setSnapshots(await StorageService.listSnapshots());
+  };
+
+  useEffect(() => {
+    loadSnapshots();
+  }, []);
+
+  const toggleNonWorkingDay = (day: number) => {
+    const days = calendar.nonWorkingDays.includes(day)
+      ? calendar.nonWorkingDays.filter(d => d !== day)
+      : [...calendar.nonWorkingDays, day].sort();
+    setCalendar({ ...calendar, nonWorkingDays: days });
+  };
+
+  const handleAddHoliday = () => {
+    if (!newHoliday.date) return;
+    setCalendar({
+      ...calendar,
+      holidays: mergeHolidays(calendar.holidays, [{ date: newHoliday.date, name: newHoliday.name.trim() || undefined }])
+    });
+    setNewHoliday({ date: '', name: '' });
+  };
+
+  const handleRemoveHoliday = (date: string) => {
+    setCalendar({ ...calendar, holidays: calendar.holidays.filter(h => h.date !== date) });
+  };
+
+  const handleHolidayFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const incoming = parseHolidayFile((event.target?.result as string) || '', file.name);
+      if (incoming.length === 0) {
+        setToast({ show: true, message: "No se encontraron feriados en el archivo.", type: 'error' });
+      } else {
+        setCalendar(prev => ({ ...prev, holidays: mergeHolidays(prev.holidays, incoming) }));
+        setToast({ show: true, message: `${incoming.length} feriados leídos. Guarda el calendario para aplicarlos.`, type: 'success' });
+      }
+      setTimeout(() => setToast(null), 3000);
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleSaveCalendar = (e: React.FormEvent) => {
+    e.preventDefault();
+    StorageService.saveSettings({ ...StorageService.getSettings(), calendar });
+    setToast({ show: true, message: "Calendario guardado. Se aplicará a los nuevos cronogramas.", type: 'success' });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const handleSaveDelinquencyPolicy = (e: React.FormEvent) => {
+    e.preventDefault();
+    StorageService.saveSettings({ ...StorageService.getSettings(), delinquency: delinquencyPolicy });
+    setToast({ show: true, message: "Política de morosidad guardada. Los préstamos se reclasificarán.", type: 'success' });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const handleSaveCreditPolicy = (e: React.FormEvent) => {
+    e.preventDefault();
+    StorageService.saveSettings({ ...StorageService.getSettings(), credit: creditPolicy });
+    setToast({ show: true, message: "Límites de crédito guardados. Se aplicarán a los nuevos préstamos.", type: 'success' });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const handleSavePenaltyPolicy = (e: React.FormEvent) => {
+    e.preventDefault();
+    StorageService.saveSettings({ ...StorageService.getSettings(), penalty: penaltyPolicy });
+    setToast({ show: true, message: "Reglas de mora guardadas.", type: 'success' });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const handleSaveSnapshotPolicy = (e: React.FormEvent) => {
+    e.preventDefault();
+    StorageService.saveSettings({ ...StorageService.getSettings(), snapshots: snapshotPolicy });
+    setSnapshotPolicy(StorageService.getSettings().snapshots);
+    setToast({ show: true, message: "Política de puntos de restauración guardada.", type: 'success' });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const handleCreateSnapshot = async () => {
+    try {
+      const snapshot = await StorageService.createSnapshot(SnapshotReason.MANUAL);
+      setToast(snapshot
+        ? { show: true, message: "Punto de restauración creado.", type: 'success' }
+        : { show: true, message: "No hay datos que guardar todavía.", type: 'error' });
+    } catch (e) {
+      console.error("Error creating snapshot", e);
+      setToast({ show: true, message: "No se pudo crear el punto de restauración. Revisa el espacio disponible.", type: 'error' });
+    }
+    setTimeout(() => setToast(null), 3000);
+    loadSnapshots();
+  };
+
+  const handleDeleteSnapshot = async (id: string) => {
+    await StorageService.deleteSnapshot(id);
+    loadSnapshots();
+  };
+
+  const handleCheckIntegrity = async () => {
+    const [report, clients] = await Promise.all([StorageService.checkIntegrity(), StorageService.getClients()]);
+    setIntegrity({ report, clients: clients.filter(isClientActive) });
+    setOrphanAssignments({});
+  };
+
+  const handleRepairIntegrity = async () => {
+    const result = await StorageService.repairIntegrity(orphanAssignments);
+    if (result.success) {
+      setToast({ show: true, message: `Datos reparados: ${result.repaired} registros actualizados.`, type: 'success' });
+      handleCheckIntegrity();
+    } else {
+      setToast({ show: true, message: result.message || "No se pudo reparar.", type: 'error' });
+    }
+    setTimeout(() => setToast(null), 4000);
+  };
+
+  const executeRestore = async () => {
+    if (!restoreTarget) return;
+    setIsRestoring(true);
+    const result = await StorageService.restoreSnapshot(restoreTarget.id);
+    setIsRestoring(false);
+    if (result.success) {
+      setRestoreTarget(null);
+      setToast({ show: true, message: "Datos restaurados. Recargando...", type: 'success' });
+      setTimeout(() => window.location.reload(), 1500);
+    } else {
+      setToast({ show: true, message: result.message || "No se pudo restaurar.", type: 'error' });
+      setTimeout(() => setToast(null), 4000);
+    }
+  };
+
+  const handleExport = async () => {
+    if (exportEncryption.enabled) {
+      if (exportEncryption.passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setToast({ show: true, message: `La contraseña debe tener al menos ${MIN_PASSPHRASE_LENGTH} caracteres.`, type: 'error' });
+        setTimeout(() => setToast(null), 4000);
+        return;
+      }
+      if (exportEncryption.passphrase !== exportEncryption.confirmation) {
+        setToast({ show: true, message: "Las contraseñas no coinciden.", type: 'error' });
+        setTimeout(() => setToast(null), 4000);
+        return;
+      }
+    }
 
-  const handleExport = () => {
     try {
-      const data = StorageService.exportData();
+      const data = await StorageService.exportData(exportEncryption.enabled ? exportEncryption.passphrase : undefined);
       const blob = new Blob([data], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       
       const a = document.createElement('a');
       a.href = url;
-      a.download = `lenderpro_respaldo_${new Date().toISOString().split('T')[0]}.json`;
+      a.download = `lenderpro_respaldo${exportEncryption.enabled ? '_cifrado' : ''}_${new Date().toISOString().split('T')[0]}.json`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
+      setExportEncryption({ ...exportEncryption, passphrase: '', confirmation: '' });
     } catch (e) {
       console.error("Error al exportar:", e);
       setToast({ show: true, message: "Hubo un error al generar el archivo.", type: 'error' });
@@ -38,30 +241,12 @@ const Settings: React.FC = () => {
 
     const reader = new FileReader();
     
-    reader.onload = (event) => {
+    reader.onload = async (event) => {
       try {
         const content = event.target?.result as string;
         if (!content) throw new Error("El archivo está vacío.");
 
-        // Utilizamos StorageService para asegurar que las claves (keys) de localStorage sean las correctas
-        const result = StorageService.importData(content);
-        
-        if (result.success) {
-            // Feedback visual amigable (Toast)
-            setToast({ 
-                show: true, 
-                message: "¡Respaldo cargado correctamente! Reiniciando sistema...", 
-                type: 'success' 
-            });
-
-            // Aumentamos el tiempo a 2 segundos para que el usuario pueda leer el mensaje antes de recargar
-            setTimeout(() => {
-                window.location.reload();
-            }, 2000);
-        } else {
-            setToast({ show: true, message: result.message || "Error al importar el archivo.", type: 'error' });
-            setTimeout(() => setToast(null), 4000);
-        }
+        await openBackup(content);
       } catch (err: any) {
         console.error(err);
         setToast({ show: true, message: "El archivo no es un JSON válido o está corrupto.", type: 'error' });
@@ -79,10 +264,142 @@ const Settings: React.FC = () => {
     e.target.value = ''; 
   };
 
-  const executeClearData = () => {
+  // Encrypted backups ask for their passphrase, and again after a wrong one
+  const askPassphrase = (content: string, result: { error?: BackupError, message?: string }, passphrase?: string): boolean => {
+    if (result.error !== BackupError.PASSPHRASE_REQUIRED && result.error !== BackupError.WRONG_PASSPHRASE) return false;
+    setPassphrasePrompt({ content, passphrase: '', error: passphrase ? result.message : undefined });
+    return true;
+  };
+
+  // Reads a backup for review; nothing is written until the report or the merge preview is confirmed
+  const openBackup = async (content: string, passphrase?: string) => {
+    if (importMode === 'merge') {
+        const preview = await StorageService.previewImport(content, passphrase);
+        if (askPassphrase(content, preview, passphrase)) return;
+        setPassphrasePrompt(null);
+
+        if (preview.success && preview.preview) {
+            setMergeResolutions({});
+            setDefaultResolution(MergeResolution.KEEP_NEWEST);
+            setMergeReport(preview.report || null);
+            setMergePreview(preview.preview);
+        } else if (preview.report) {
+            // Every record was rejected: show why instead of a bare error
+            setImportReview({ content, passphrase, report: preview.report, clients: 0, loans: 0, message: preview.message });
+        } else {
+            setToast({ show: true, message: preview.message || "Error al leer el archivo.", type: 'error' });
+            setTimeout(() => setToast(null), 4000);
+        }
+        return;
+    }
+
+    const validation = await StorageService.validateImport(content, passphrase);
+    if (askPassphrase(content, validation, passphrase)) return;
+    setPassphrasePrompt(null);
+
+    if (validation.report) {
+        setImportReview({
+            content,
+            passphrase,
+            report: validation.report,
+            clients: validation.clients || 0,
+            loans: validation.loans || 0,
+            message: validation.success ? undefined : validation.message
+        });
+    } else {
+        setToast({ show: true, message: validation.message || "Error al importar el archivo.", type: 'error' });
+        setTimeout(() => setToast(null), 4000);
+    }
+  };
+
+  const handleSubmitPassphrase = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrasePrompt || !passphrasePrompt.passphrase) return;
+    setPassphrasePrompt({ ...passphrasePrompt, checking: true });
+    await openBackup(passphrasePrompt.content, passphrasePrompt.passphrase);
+  };
+
+  const handleConfirmImport = async () => {
+    if (!importReview) return;
+    // Utilizamos StorageService para asegurar que las claves (keys) de localStorage sean las correctas
+    const result = await StorageService.importData(importReview.content, importReview.passphrase);
+    setImportReview(null);
+
+    if (result.success) {
+        // Feedback visual amigable (Toast)
+        setToast({ 
+            show: true, 
+            message: "¡Respaldo cargado correctamente! Reiniciando sistema...", 
+            type: 'success' 
+        });
+
+        // Aumentamos el tiempo a 2 segundos para que el usuario pueda leer el mensaje antes de recargar
+        setTimeout(() => {
+            window.location.reload();
+        }, 2000);
+    } else {
+        setToast({ show: true, message: result.message || "Error al importar el archivo.", type: 'error' });
+        setTimeout(() => setToast(null), 4000);
+    }
+  };
+
+  const handleSheetFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const rows = /\.xlsx$/i.test(file.name) ? await readXlsxRows(await file.arrayBuffer()) : parseCsv(await file.text());
+      if (rows.length < 2) throw new Error("La hoja no tiene filas de datos debajo de los encabezados.");
+
+      setSheetMapping(guessColumnMapping(rows[0]));
+      setSheet({ fileName: file.name, rows, existingClients: await StorageService.getClients() });
+    } catch (err: any) {
+      console.error(err);
+      setToast({ show: true, message: err.message || "No se pudo leer la hoja de cálculo.", type: 'error' });
+      setTimeout(() => setToast(null), 4000);
+    }
+  };
+
+  const handleConfirmSheet = async () => {
+    if (!sheet) return;
+    const result = buildSpreadsheetImport(sheet.rows, sheetMapping, { ...sheetOptions, calendar: StorageService.getSettings().calendar }, sheet.existingClients);
+    const saved = await StorageService.importRecords(result.clients, result.loans);
+    setSheet(null);
+
+    if (saved.success) {
+        setToast({ show: true, message: `Hoja importada: ${result.clients.length} clientes y ${result.loans.length} préstamos. Reiniciando sistema...`, type: 'success' });
+        setTimeout(() => window.location.reload(), 2000);
+    } else {
+        setToast({ show: true, message: saved.message || "Error al importar la hoja de cálculo.", type: 'error' });
+        setTimeout(() => setToast(null), 4000);
+    }
+  };
+
+  const handleConfirmMerge = async () => {
+    if (!mergePreview) return;
+    const result = await StorageService.applyMergeImport(mergePreview, mergeResolutions, defaultResolution);
+    setMergePreview(null);
+
+    if (result.success) {
+        setToast({ show: true, message: `Respaldo combinado: ${result.written} registros guardados. Reiniciando sistema...`, type: 'success' });
+        setTimeout(() => window.location.reload(), 2000);
+    } else {
+        setToast({ show: true, message: result.message || "Error al combinar el respaldo.", type: 'error' });
+        setTimeout(() => setToast(null), 4000);
+    }
+  };
+
+  const executeClearData = async () => {
     if (deleteConfirmation !== 'BORRAR') return;
-    StorageService.clearData();
-    window.location.reload();
+    const result = await StorageService.clearData();
+    if (result.success) {
+      window.location.reload();
+    } else {
+      setShowDeleteModal(false);
+      setToast({ show: true, message: result.message || "No se pudieron borrar los datos.", type: 'error' });
+      setTimeout(() => setToast(null), 4000);
+    }
   };
 
   return (
@@ -99,16 +416,48 @@ const Settings: React.FC = () => {
                 </div>
                 <h3 className="text-lg font-bold text-slate-800 mb-2">Copia de Seguridad</h3>
                 <p className="text-slate-500 text-sm mb-6">
-                    Descarga tu base de datos actual a tu computadora para guardarla.
+                    Descarga tu base de datos actual a tu computadora para guardarla, o exporta clientes, préstamos,
+                    cronogramas y pagos en CSV o Excel para tu contador.
                 </p>
             </div>
-            <button 
-                onClick={handleExport}
-                className="w-full py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors flex items-center justify-center gap-2 shadow-sm"
-            >
-                <FileJson className="w-4 h-4" />
-                Descargar JSON
-            </button>
+            <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm font-medium text-slate-700 cursor-pointer">
+                    <input type="checkbox" checked={exportEncryption.enabled}
+                        onChange={e => setExportEncryption({ ...exportEncryption, enabled: e.target.checked })}
+                        className="text-blue-600 focus:ring-blue-500 rounded" />
+                    <Lock className="w-4 h-4 text-slate-400" />
+                    Cifrar con contraseña
+                </label>
+                {exportEncryption.enabled && (
+                    <div className="grid grid-cols-2 gap-2">
+                        <input type="password" autoComplete="new-password" placeholder="Contraseña"
+                            value={exportEncryption.passphrase}
+                            onChange={e => setExportEncryption({ ...exportEncryption, passphrase: e.target.value })}
+                            className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm" />
+                        <input type="password" autoComplete="new-password" placeholder="Repetir contraseña"
+                            value={exportEncryption.confirmation}
+                            onChange={e => setExportEncryption({ ...exportEncryption, confirmation: e.target.value })}
+                            className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm" />
+                        <p className="col-span-2 text-xs text-amber-600">
+                            Sin esta contraseña el respaldo no se puede recuperar. Guárdala en un lugar seguro.
+                        </p>
+                    </div>
+                )}
+                <button 
+                    onClick={handleExport}
+                    className="w-full py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors flex items-center justify-center gap-2 shadow-sm"
+                >
+                    {exportEncryption.enabled ? <Lock className="w-4 h-4" /> : <FileJson className="w-4 h-4" />}
+                    {exportEncryption.enabled ? 'Descargar Respaldo Cifrado' : 'Descargar JSON'}
+                </button>
+                <button 
+                    onClick={() => setShowExportDialog(true)}
+                    className="w-full py-3 border border-blue-200 text-blue-700 rounded-lg font-medium hover:bg-blue-50 transition-colors flex items-center justify-center gap-2"
+                >
+                    <FileSpreadsheet className="w-4 h-4" />
+                    Exportar CSV / Excel
+                </button>
+            </div>
         </div>
 
         {/* Import Card */}
@@ -118,11 +467,23 @@ const Settings: React.FC = () => {
                     <Upload className="w-6 h-6 text-emerald-600" />
                 </div>
                 <h3 className="text-lg font-bold text-slate-800 mb-2">Restaurar Copia</h3>
-                <p className="text-slate-500 text-sm mb-6">
-                    Carga un archivo JSON previamente descargado para recuperar tus datos.
+                <p className="text-slate-500 text-sm mb-4">
+                    {importMode === 'replace'
+                        ? 'Carga un archivo JSON previamente descargado para recuperar tus datos.'
+                        : 'Combina el respaldo de otro equipo con tus datos. Verás los cambios antes de guardarlos.'}
                     <br />
                     <span className="text-emerald-600 font-semibold text-xs">Nota: La página se recargará automáticamente al finalizar.</span>
                 </p>
+                <div className="flex gap-2 mb-6">
+                    <button type="button" onClick={() => setImportMode('replace')}
+                        className={`flex-1 text-xs py-1.5 rounded-md border transition-colors ${importMode === 'replace' ? 'bg-emerald-100 border-emerald-500 text-emerald-700 font-bold' : 'bg-white border-slate-300 text-slate-500'}`}>
+                        Reemplazar todo
+                    </button>
+                    <button type="button" onClick={() => setImportMode('merge')}
+                        className={`flex-1 text-xs py-1.5 rounded-md border transition-colors ${importMode === 'merge' ? 'bg-emerald-100 border-emerald-500 text-emerald-700 font-bold' : 'bg-white border-slate-300 text-slate-500'}`}>
+                        Combinar
+                    </button>
+                </div>
             </div>
             
             <input 
@@ -137,11 +498,396 @@ const Settings: React.FC = () => {
                 onClick={handleImportClick}
                 className="w-full py-3 bg-emerald-600 text-white rounded-lg font-medium hover:bg-emerald-700 transition-colors flex items-center justify-center gap-2 shadow-sm"
             >
-                <RefreshCw className="w-4 h-4" />
-                Seleccionar Archivo y Restaurar
+                {importMode === 'replace' ? <RefreshCw className="w-4 h-4" /> : <GitMerge className="w-4 h-4" />}
+                {importMode === 'replace' ? 'Seleccionar Archivo y Restaurar' : 'Seleccionar Archivo y Revisar'}
             </button>
         </div>
 
+        {/* Spreadsheet Import */}
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 md:col-span-2">
+            <div className="flex flex-col md:flex-row items-start md:items-center justify-between gap-4">
+                <div className="flex items-start gap-4">
+                    <div className="w-12 h-12 bg-teal-50 rounded-lg flex items-center justify-center flex-shrink-0">
+                        <FileSpreadsheet className="w-6 h-6 text-teal-600" />
+                    </div>
+                    <div>
+                        <h3 className="text-lg font-bold text-slate-800">Importar desde Hoja de Cálculo</h3>
+                        <p className="text-slate-500 text-sm mt-1">
+                            Trae clientes y préstamos desde un archivo CSV o Excel (.xlsx). Podrás elegir qué columna corresponde a cada dato;
+                            los cronogramas se recalculan y las primeras cuotas indicadas se marcan como pagadas.
+                        </p>
+                    </div>
+                </div>
+                <input ref={sheetInputRef} type="file" accept=".csv,.txt,.xlsx" className="hidden" onChange={handleSheetFileChange} />
+                <button type="button" onClick={() => sheetInputRef.current?.click()}
+                    className="px-6 py-3 bg-teal-600 text-white rounded-lg font-medium hover:bg-teal-700 transition-colors flex items-center gap-2 whitespace-nowrap shadow-sm">
+                    <Upload className="w-4 h-4" />
+                    Seleccionar Archivo
+                </button>
+            </div>
+        </div>
+
+        {/* Penalty Rules */}
+        <form onSubmit={handleSavePenaltyPolicy} className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 md:col-span-2">
+            <div className="flex flex-col md:flex-row items-start md:items-center justify-between gap-4 mb-6">
+                <div className="flex items-start gap-4">
+                    <div className="w-12 h-12 bg-amber-50 rounded-lg flex items-center justify-center flex-shrink-0">
+                        <Percent className="w-6 h-6 text-amber-600" />
+                    </div>
+                    <div>
+                        <h3 className="text-lg font-bold text-slate-800">Reglas de Mora</h3>
+                        <p className="text-slate-500 text-sm mt-1">
+                            Penalidad que se acumula sobre las cuotas vencidas y se cobra junto con ellas.
+                        </p>
+                    </div>
+                </div>
+                <label className="flex items-center gap-2 text-sm font-medium text-slate-700 cursor-pointer">
+                    <input type="checkbox" checked={penaltyPolicy.enabled}
+                        onChange={e => setPenaltyPolicy({...penaltyPolicy, enabled: e.target.checked})}
+                        className="text-emerald-600 focus:ring-emerald-500 rounded" />
+                    Cobrar mora
+                </label>
+            </div>
+            <div className={`grid grid-cols-2 md:grid-cols-4 gap-4 ${penaltyPolicy.enabled ? '' : 'opacity-50'}`}>
+                <div>
+                    <label className="block text-xs font-bold text-slate-600 mb-1">Cargo Fijo (S/)</label>
+                    <input type="number" min="0" step="0.01" disabled={!penaltyPolicy.enabled} className="w-full border border-slate-300 rounded-lg px-3 py-2 bg-white text-slate-900"
+                        value={penaltyPolicy.flatFee} onChange={e => setPenaltyPolicy({...penaltyPolicy, flatFee: Number(e.target.value)})} />
+                </div>
+                <div>
+                    <label className="block text-xs font-bold text-slate-600 mb-1">% Diario sobre Cuota</label>
+                    <input type="number" min="0" step="0.01" disabled={!penaltyPolicy.enabled} className="w-full border border-slate-300 rounded-lg px-3 py-2 bg-white text-slate-900"
+                        value={penaltyPolicy.dailyRate} onChange={e => setPenaltyPolicy({...penaltyPolicy, dailyRate: Number(e.target.value)})} />
+                </div>
+                <div>
+                    <label className="block text-xs font-bold text-slate-600 mb-1">Días de Gracia</label>
+                    <input type="number" min="0" step="1" disabled={!penaltyPolicy.enabled} className="w-full border border-slate-300 rounded-lg px-3 py-2 bg-white text-slate-900"
+                        value={penaltyPolicy.graceDays} onChange={e => setPenaltyPolicy({...penaltyPolicy, graceDays: Number(e.target.value)})} />
+                </div>
+                <div>
+                    <label className="block text-xs font-bold text-slate-600 mb-1">Tope (% de la Cuota)</label>
+                    <input type="number" min="0" step="1" disabled={!penaltyPolicy.enabled} className="w-full border border-slate-300 rounded-lg px-3 py-2 bg-white text-slate-900"
+                        value={penaltyPolicy.capPercent} onChange={e => setPenaltyPolicy({...penaltyPolicy, capPercent: Number(e.target.value)})} />
+                    <p className="text-[10px] text-slate-400 mt-1">0 = sin tope</p>
+                </div>
+            </div>
+            <div className="flex justify-end mt-6">
+                <button type="submit" className="px-4 py-2 bg-slate-800 text-white rounded-lg font-medium hover:bg-slate-900 transition-colors flex items-center gap-2 shadow-sm">
+                    <Save className="w-4 h-4" />
+                    Guardar Reglas
+                </button>
+            </div>
+        </form>
+
+        {/* Delinquency Policy */}
+        <form onSubmit={handleSaveDelinquencyPolicy} className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 md:col-span-2">
+            <div className="flex items-start gap-4 mb-6">
+                <div className="w-12 h-12 bg-rose-50 rounded-lg flex items-center justify-center flex-shrink-0">
+                    <ShieldAlert className="w-6 h-6 text-rose-600" />
+                </div>
+                <div>
+                    <h3 className="text-lg font-bold text-slate-800">Política de Morosidad</h3>
+                    <p className="text-slate-500 text-sm mt-1">
+                        Un préstamo pasa a "En Mora" al cumplir cualquiera de los criterios y vuelve a "Activo" cuando se pone al día.
+                    </p>
+                </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+                <div>
+                    <label className="block text-xs font-bold text-slate-600 mb-1">Días de Atraso</label>
+                    <input type="number" min="0" step="1" className="w-full border border-slate-300 rounded-lg px-3 py-2 bg-white text-slate-900"
+                        value={delinquencyPolicy.daysOverdue} onChange={e => setDelinquencyPolicy({...delinquencyPolicy, daysOverdue: Number(e.target.value)})} />
+                    <p className="text-[10px] text-slate-400 mt-1">Atraso de la cuota más antigua. 0 = no aplicar</p>
+                </div>
+                <div>
+                    <label className="block text-xs font-bold text-slate-600 mb-1">Cuotas Vencidas</label>
+                    <input type="number" min="0" step="1" className="w-full border border-slate-300 rounded-lg px-3 py-2 bg-white text-slate-900"
+                        value={delinquencyPolicy.installmentsOverdue} onChange={e => setDelinquencyPolicy({...delinquencyPolicy, installmentsOverdue: Number(e.target.value)})} />
+                    <p className="text-[10px] text-slate-400 mt-1">0 = no aplicar</p>
+                </div>
+            </div>
+            <div className="flex justify-end mt-6">
+                <button type="submit" className="px-4 py-2 bg-slate-800 text-white rounded-lg font-medium hover:bg-slate-900 transition-colors flex items-center gap-2 shadow-sm">
+                    <Save className="w-4 h-4" />
+                    Guardar Política
+                </button>
+            </div>
+        </form>
+
+        {/* Credit Limits */}
+        <form onSubmit={handleSaveCreditPolicy} className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 md:col-span-2">
+            <div className="flex items-start gap-4 mb-6">
+                <div className="w-12 h-12 bg-indigo-50 rounded-lg flex items-center justify-center flex-shrink-0">
+                    <Scale className="w-6 h-6 text-indigo-600" />
+                </div>
+                <div>
+                    <h3 className="text-lg font-bold text-slate-800">Límites de Crédito</h3>
+                    <p className="text-slate-500 text-sm mt-1">
+                        Se revisan al otorgar, editar o refinanciar un préstamo. La deuda cuenta el saldo de todos los préstamos vigentes del cliente más el total del nuevo.
+                    </p>
+                </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+                <div>
+                    <label className="block text-xs font-bold text-slate-600 mb-1">Deuda Máxima por Cliente</label>
+                    <input type="number" min="0" step="0.01" className="w-full border border-slate-300 rounded-lg px-3 py-2 bg-white text-slate-900"
+                        value={creditPolicy.maxExposure} onChange={e => setCreditPolicy({...creditPolicy, maxExposure: Number(e.target.value)})} />
+                    <p className="text-[10px] text-slate-400 mt-1">Cada cliente puede tener su propio límite. 0 = sin límite</p>
+                </div>
+                <div>
+                    <label className="block text-xs font-bold text-slate-600 mb-1">Préstamos Vigentes Simultáneos</label>
+                    <input type="number" min="0" step="1" className="w-full border border-slate-300 rounded-lg px-3 py-2 bg-white text-slate-900"
+                        value={creditPolicy.maxActiveLoans} onChange={e => setCreditPolicy({...creditPolicy, maxActiveLoans: Number(e.target.value)})} />
+                    <p className="text-[10px] text-slate-400 mt-1">Incluye el nuevo préstamo. 0 = sin límite</p>
+                </div>
+            </div>
+            <div className="space-y-2 mt-4 text-sm text-slate-700">
+                <label className="flex items-center gap-2 cursor-pointer">
+                    <input type="checkbox" checked={creditPolicy.blockDefaulted}
+                        onChange={e => setCreditPolicy({...creditPolicy, blockDefaulted: e.target.checked})}
+                        className="text-emerald-600 focus:ring-emerald-500 rounded" />
+                    No otorgar préstamos a clientes con un préstamo en mora
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                    <input type="checkbox" checked={creditPolicy.allowOverride}
+                        onChange={e => setCreditPolicy({...creditPolicy, allowOverride: e.target.checked})}
+                        className="text-emerald-600 focus:ring-emerald-500 rounded" />
+                    Permitir excepciones con un motivo escrito (si no, el préstamo se bloquea)
+                </label>
+            </div>
+            <div className="flex justify-end mt-6">
+                <button type="submit" className="px-4 py-2 bg-slate-800 text-white rounded-lg font-medium hover:bg-slate-900 transition-colors flex items-center gap-2 shadow-sm">
+                    <Save className="w-4 h-4" />
+                    Guardar Límites
+                </button>
+            </div>
+        </form>
+
+        {/* Business Calendar */}
+        <form onSubmit={handleSaveCalendar} className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 md:col-span-2">
+            <div className="flex items-start gap-4 mb-6">
+                <div className="w-12 h-12 bg-indigo-50 rounded-lg flex items-center justify-center flex-shrink-0">
+                    <CalendarDays className="w-6 h-6 text-indigo-600" />
+                </div>
+                <div>
+                    <h3 className="text-lg font-bold text-slate-800">Calendario Laboral</h3>
+                    <p className="text-slate-500 text-sm mt-1">
+                        Los vencimientos que caen en un día no hábil se mueven según la regla elegida en cada préstamo.
+                    </p>
+                </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                    <label className="block text-xs font-bold text-slate-600 mb-2">Días No Laborables</label>
+                    <div className="flex flex-wrap gap-2">
+                        {WEEKDAYS.map((label, day) => (
+                            <button key={day} type="button" onClick={() => toggleNonWorkingDay(day)}
+                                className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-colors ${
+                                    calendar.nonWorkingDays.includes(day)
+                                        ? 'bg-indigo-600 border-indigo-600 text-white'
+                                        : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'
+                                }`}>
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div>
+                    <label className="block text-xs font-bold text-slate-600 mb-1">Regla por Defecto</label>
+                    <select className="w-full border border-slate-300 rounded-lg px-3 py-2 bg-white text-slate-900"
+                        value={calendar.roll} onChange={e => setCalendar({...calendar, roll: e.target.value as RollConvention})}>
+                        {Object.values(RollConvention).map(r => <option key={r} value={r}>{r}</option>)}
+                    </select>
+                    <p className="text-[10px] text-slate-400 mt-1">Se propone al crear un préstamo nuevo</p>
+                </div>
+            </div>
+
+            <div className="mt-6">
+                <div className="flex items-center justify-between mb-2">
+                    <label className="block text-xs font-bold text-slate-600">Feriados ({calendar.holidays.length})</label>
+                    <input ref={holidayInputRef} type="file" accept=".ics,.csv" className="hidden" onChange={handleHolidayFileChange} />
+                    <button type="button" onClick={() => holidayInputRef.current?.click()}
+                        className="text-xs font-bold text-indigo-600 hover:text-indigo-700 flex items-center gap-1">
+                        <Upload className="w-3 h-3" /> Importar ICS / CSV
+                    </button>
+                </div>
+                <div className="flex gap-2 mb-3">
+                    <input type="date" className="border border-slate-300 rounded-lg px-3 py-2 bg-white text-slate-900 text-sm"
+                        value={newHoliday.date} onChange={e => setNewHoliday({...newHoliday, date: e.target.value})} />
+                    <input type="text" placeholder="Nombre (opcional)" className="flex-1 border border-slate-300 rounded-lg px-3 py-2 bg-white text-slate-900 text-sm"
+                        value={newHoliday.name} onChange={e => setNewHoliday({...newHoliday, name: e.target.value})} />
+                    <button type="button" onClick={handleAddHoliday} disabled={!newHoliday.date}
+                        className="px-3 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 disabled:opacity-50">
+                        <Plus className="w-4 h-4" />
+                    </button>
+                </div>
+                {calendar.holidays.length > 0 ? (
+                    <div className="max-h-48 overflow-y-auto border border-slate-100 rounded-lg divide-y divide-slate-100">
+                        {calendar.holidays.map(h => (
+                            <div key={h.date} className="flex items-center justify-between px-3 py-2 text-sm">
+                                <span className="text-slate-700">
+                                    <span className="font-mono text-slate-500 mr-3">{h.date}</span>
+                                    {h.name || '-'}
+                                </span>
+                                <button type="button" onClick={() => handleRemoveHoliday(h.date)} className="text-slate-400 hover:text-rose-600">
+                                    <X className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                ) : (
+                    <p className="text-xs text-slate-400">No hay feriados registrados.</p>
+                )}
+            </div>
+            <div className="flex justify-end mt-6">
+                <button type="submit" className="px-4 py-2 bg-slate-800 text-white rounded-lg font-medium hover:bg-slate-900 transition-colors flex items-center gap-2 shadow-sm">
+                    <Save className="w-4 h-4" />
+                    Guardar Calendario
+                </button>
+            </div>
+        </form>
+
+        {/* Restore Points */}
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 md:col-span-2">
+            <div className="flex flex-col md:flex-row items-start justify-between gap-4 mb-6">
+                <div className="flex items-start gap-4">
+                    <div className="w-12 h-12 bg-teal-50 rounded-lg flex items-center justify-center flex-shrink-0">
+                        <History className="w-6 h-6 text-teal-600" />
+                    </div>
+                    <div>
+                        <h3 className="text-lg font-bold text-slate-800">Puntos de Restauración</h3>
+                        <p className="text-slate-500 text-sm mt-1">
+                            Copias guardadas en este navegador antes de importar, borrar o restaurar, y una vez al día.
+                        </p>
+                    </div>
+                </div>
+                <button type="button" onClick={handleCreateSnapshot}
+                    className="px-4 py-2 bg-teal-50 text-teal-700 rounded-lg font-medium hover:bg-teal-100 transition-colors flex items-center gap-2 whitespace-nowrap">
+                    <Plus className="w-4 h-4" />
+                    Crear punto ahora
+                </button>
+            </div>
+
+            <form onSubmit={handleSaveSnapshotPolicy} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end mb-6">
+                <label className="flex items-center gap-2 text-sm text-slate-700 md:pb-2">
+                    <input type="checkbox" checked={snapshotPolicy.daily}
+                        onChange={e => setSnapshotPolicy({...snapshotPolicy, daily: e.target.checked})} />
+                    Copia diaria automática
+                </label>
+                <div>
+                    <label className="block text-xs font-bold text-slate-600 mb-1">Copias diarias a conservar</label>
+                    <input type="number" min="1" className="w-full border border-slate-300 rounded-lg px-3 py-2 bg-white text-slate-900"
+                        value={snapshotPolicy.keepDaily} onChange={e => setSnapshotPolicy({...snapshotPolicy, keepDaily: parseInt(e.target.value) || 1})} />
+                </div>
+                <div>
+                    <label className="block text-xs font-bold text-slate-600 mb-1">Otras copias a conservar</label>
+                    <input type="number" min="1" className="w-full border border-slate-300 rounded-lg px-3 py-2 bg-white text-slate-900"
+                        value={snapshotPolicy.keepOther} onChange={e => setSnapshotPolicy({...snapshotPolicy, keepOther: parseInt(e.target.value) || 1})} />
+                </div>
+                <button type="submit" className="px-4 py-2 bg-slate-800 text-white rounded-lg font-medium hover:bg-slate-900 transition-colors flex items-center justify-center gap-2 shadow-sm">
+                    <Save className="w-4 h-4" />
+                    Guardar Política
+                </button>
+            </form>
+
+            {snapshots.length > 0 ? (
+                <div className="max-h-72 overflow-y-auto border border-slate-100 rounded-lg divide-y divide-slate-100">
+                    {snapshots.map(s => (
+                        <div key={s.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                            <div className="flex items-center gap-3 min-w-0">
+                                <span className="font-mono text-slate-500 whitespace-nowrap">{new Date(s.createdAt).toLocaleString('es-PE')}</span>
+                                <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full whitespace-nowrap ${s.reason === SnapshotReason.DAILY ? 'bg-slate-100 text-slate-600' : 'bg-teal-100 text-teal-700'}`}>
+                                    {s.reason}
+                                </span>
+                                <span className="text-slate-600 truncate">
+                                    {s.clients} clientes · {s.loans} préstamos · {(s.size / 1024).toFixed(1)} KB
+                                </span>
+                            </div>
+                            <div className="flex items-center gap-2 flex-shrink-0">
+                                <button type="button" onClick={() => setRestoreTarget(s)}
+                                    className="text-xs font-bold text-teal-700 hover:text-teal-800 flex items-center gap-1">
+                                    <RotateCcw className="w-3 h-3" /> Restaurar
+                                </button>
+                                <button type="button" onClick={() => handleDeleteSnapshot(s.id)} className="text-slate-400 hover:text-rose-600">
+                                    <X className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <p className="text-xs text-slate-400">Todavía no hay puntos de restauración.</p>
+            )}
+        </div>
+
+        {/* Data Integrity */}
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 md:col-span-2">
+            <div className="flex flex-col md:flex-row items-start justify-between gap-4">
+                <div className="flex items-start gap-4">
+                    <div className="w-12 h-12 bg-amber-50 rounded-lg flex items-center justify-center flex-shrink-0">
+                        <Wrench className="w-6 h-6 text-amber-600" />
+                    </div>
+                    <div>
+                        <h3 className="text-lg font-bold text-slate-800">Integridad de Datos</h3>
+                        <p className="text-slate-500 text-sm mt-1">
+                            Busca préstamos cuyo cliente ya no existe y clientes eliminados que aún tienen préstamos vigentes.
+                        </p>
+                    </div>
+                </div>
+                <button type="button" onClick={handleCheckIntegrity}
+                    className="px-4 py-2 bg-amber-50 text-amber-700 rounded-lg font-medium hover:bg-amber-100 transition-colors flex items-center gap-2 whitespace-nowrap">
+                    <RefreshCw className="w-4 h-4" />
+                    Verificar
+                </button>
+            </div>
+
+            {integrity && (
+                integrity.report.orphanedLoans.length === 0 && integrity.report.deletedWithActiveLoans.length === 0 ? (
+                    <div className="mt-6 flex items-center gap-2 text-sm text-emerald-700 bg-emerald-50 border border-emerald-100 rounded-lg px-3 py-2">
+                        <CheckCircle className="w-4 h-4" />
+                        No se encontraron problemas.
+                    </div>
+                ) : (
+                    <div className="mt-6 space-y-4">
+                        {integrity.report.orphanedLoans.length > 0 && (
+                            <div>
+                                <p className="text-xs font-bold text-slate-600 mb-2">Préstamos sin cliente ({integrity.report.orphanedLoans.length})</p>
+                                <div className="border border-slate-100 rounded-lg divide-y divide-slate-100">
+                                    {integrity.report.orphanedLoans.map(l => (
+                                        <div key={l.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 px-3 py-2 text-sm">
+                                            <span className="text-slate-700">
+                                                {formatCurrency(l.amount)} · {formatDate(l.startDate)} · {l.status}
+                                                <span className="font-mono text-xs text-slate-400 ml-2">cliente {l.clientId}</span>
+                                            </span>
+                                            <select className="border border-slate-300 rounded-lg px-2 py-1 text-sm bg-white"
+                                                value={orphanAssignments[l.id] || ''}
+                                                onChange={e => setOrphanAssignments({ ...orphanAssignments, [l.id]: e.target.value })}>
+                                                <option value="">Crear cliente provisional</option>
+                                                {integrity.clients.map(c => <option key={c.id} value={c.id}>{c.name} - {c.dni}</option>)}
+                                            </select>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                        {integrity.report.deletedWithActiveLoans.length > 0 && (
+                            <div>
+                                <p className="text-xs font-bold text-slate-600 mb-2">Clientes eliminados con préstamos vigentes (se reactivarán)</p>
+                                <p className="text-sm text-slate-700">{integrity.report.deletedWithActiveLoans.map(c => c.name).join(', ')}</p>
+                            </div>
+                        )}
+                        <div className="flex justify-end">
+                            <button type="button" onClick={handleRepairIntegrity}
+                                className="px-4 py-2 bg-slate-800 text-white rounded-lg font-medium hover:bg-slate-900 transition-colors flex items-center gap-2 shadow-sm">
+                                <Wrench className="w-4 h-4" />
+                                Reparar
+                            </button>
+                        </div>
+                    </div>
+                )
+            )}
+        </div>
+
         {/* Danger Zone */}
         <div className="bg-white p-6 rounded-xl shadow-sm border border-rose-100 md:col-span-2 relative overflow-hidden">
             <div className="absolute top-0 left-0 w-1 h-full bg-rose-500"></div>
@@ -185,7 +931,7 @@ const Settings: React.FC = () => {
                     <h3 className="text-xl font-bold text-slate-900">¿Borrar todo?</h3>
                 </div>
                 <p className="text-slate-600 mb-4">
-                    Esta acción no se puede deshacer. Escribe <strong>BORRAR</strong> para confirmar.
+                    Se guardará un punto de restauración antes de borrar; los documentos adjuntos no se incluyen en él y se perderán. Escribe <strong>BORRAR</strong> para confirmar.
                 </p>
                 <input 
                     type="text"
@@ -208,6 +954,345 @@ const Settings: React.FC = () => {
         </div>
       )}
 
+      {/* Restore Point Confirmation */}
+      {restoreTarget && (
+        <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6">
+                <div className="flex items-center gap-3 mb-4 text-teal-600">
+                    <RotateCcw className="w-6 h-6" />
+                    <h3 className="text-xl font-bold text-slate-900">¿Restaurar este punto?</h3>
+                </div>
+                <p className="text-slate-600 mb-2">
+                    Los datos actuales se reemplazarán por los del {new Date(restoreTarget.createdAt).toLocaleString('es-PE')}
+                    {' '}({restoreTarget.clients} clientes, {restoreTarget.loans} préstamos).
+                </p>
+                <p className="text-sm text-slate-500 mb-6">
+                    Antes se guardará un punto de restauración con los datos actuales, por si necesitas volver.
+                </p>
+                <div className="flex justify-end gap-3">
+                    <button onClick={() => setRestoreTarget(null)} className="px-4 py-2 text-slate-600 hover:bg-slate-50 rounded-lg">Cancelar</button>
+                    <button 
+                        onClick={executeRestore}
+                        disabled={isRestoring}
+                        className="px-4 py-2 bg-teal-600 text-white rounded-lg disabled:opacity-50 hover:bg-teal-700"
+                    >
+                        {isRestoring ? 'Restaurando...' : 'Restaurar'}
+                    </button>
+                </div>
+            </div>
+        </div>
+      )}
+
+      {showExportDialog && <ExportDialog onClose={() => setShowExportDialog(false)} />}
+
+      {/* Encrypted Backup Passphrase */}
+      {passphrasePrompt && (
+        <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+            <form onSubmit={handleSubmitPassphrase} className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6">
+                <div className="flex items-center gap-3 mb-4 text-blue-600">
+                    <Lock className="w-6 h-6" />
+                    <h3 className="text-xl font-bold text-slate-900">Respaldo Cifrado</h3>
+                </div>
+                <p className="text-slate-600 mb-4 text-sm">Ingresa la contraseña con la que se creó este respaldo.</p>
+                <input 
+                    type="password"
+                    autoFocus
+                    autoComplete="current-password"
+                    value={passphrasePrompt.passphrase}
+                    onChange={(e) => setPassphrasePrompt({ ...passphrasePrompt, passphrase: e.target.value, error: undefined })}
+                    className={`w-full border rounded-lg px-3 py-2 ${passphrasePrompt.error ? 'border-rose-400' : 'border-slate-300'}`}
+                    placeholder="Contraseña"
+                />
+                {passphrasePrompt.error && <p className="text-xs text-rose-600 mt-1">{passphrasePrompt.error}</p>}
+                <div className="flex justify-end gap-3 mt-6">
+                    <button type="button" onClick={() => setPassphrasePrompt(null)} className="px-4 py-2 text-slate-600 hover:bg-slate-50 rounded-lg">Cancelar</button>
+                    <button 
+                        type="submit"
+                        disabled={!passphrasePrompt.passphrase || passphrasePrompt.checking}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-blue-700"
+                    >
+                        {passphrasePrompt.checking ? 'Descifrando...' : 'Descifrar'}
+                    </button>
+                </div>
+            </form>
+        </div>
+      )}
+
+      {/* Import Validation Report */}
+      {importReview && (
+        <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full p-6 max-h-[90vh] overflow-y-auto">
+                <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center gap-3 text-emerald-600">
+                        <ShieldAlert className="w-6 h-6" />
+                        <h3 className="text-xl font-bold text-slate-900">Validación del Respaldo</h3>
+                    </div>
+                    <button onClick={() => setImportReview(null)} className="p-1 text-slate-400 hover:text-slate-600 rounded">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {importReview.message ? (
+                    <p className="text-sm text-rose-600 mb-4">{importReview.message}</p>
+                ) : (
+                    <p className="text-sm text-slate-600 mb-4">
+                        Se importarán <strong>{importReview.clients}</strong> clientes y <strong>{importReview.loans}</strong> préstamos.
+                        Los datos actuales serán reemplazados.
+                    </p>
+                )}
+
+                <ValidationReportView report={importReview.report} />
+
+                <div className="flex justify-end gap-3 mt-6">
+                    <button onClick={() => setImportReview(null)} className="px-4 py-2 text-slate-600 hover:bg-slate-50 rounded-lg">
+                        {importReview.message ? 'Cerrar' : 'Cancelar Importación'}
+                    </button>
+                    {!importReview.message && (
+                        <button onClick={handleConfirmImport} className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 flex items-center gap-2">
+                            <Upload className="w-4 h-4" />
+                            Importar
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+      )}
+
+      {/* Spreadsheet Column Mapping */}
+      {sheet && (() => {
+        const headers = sheet.rows[0];
+        const result = buildSpreadsheetImport(sheet.rows, sheetMapping, { ...sheetOptions, calendar: StorageService.getSettings().calendar }, sheet.existingClients);
+        const clientNames = new Map([...sheet.existingClients, ...result.clients].map(c => [c.id, c.name]));
+        const canImport = sheetMapping.name !== undefined || sheetMapping.dni !== undefined;
+
+        return (
+        <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl max-w-4xl w-full p-6 max-h-[90vh] overflow-y-auto">
+                <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center gap-3 text-teal-600">
+                        <FileSpreadsheet className="w-6 h-6" />
+                        <div>
+                            <h3 className="text-xl font-bold text-slate-900">Importar Hoja de Cálculo</h3>
+                            <p className="text-xs text-slate-400">{sheet.fileName} · {sheet.rows.length - 1} filas</p>
+                        </div>
+                    </div>
+                    <button onClick={() => setSheet(null)} className="p-1 text-slate-400 hover:text-slate-600 rounded">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <p className="text-sm font-bold text-slate-800 mb-2">Columnas</p>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-6">
+                    {SPREADSHEET_FIELDS.map(({ field, label, group }) => (
+                        <div key={field}>
+                            <label className="block text-xs font-bold text-slate-600 mb-1">
+                                {label} <span className="font-normal text-slate-400">{group === 'client' ? '· Cliente' : '· Préstamo'}</span>
+                            </label>
+                            <select className="w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm bg-white"
+                                value={sheetMapping[field] ?? ''}
+                                onChange={e => setSheetMapping({ ...sheetMapping, [field]: e.target.value === '' ? undefined : Number(e.target.value) })}>
+                                <option value="">— No importar —</option>
+                                {headers.map((h, idx) => <option key={idx} value={idx}>{h || `Columna ${idx + 1}`}</option>)}
+                            </select>
+                        </div>
+                    ))}
+                </div>
+
+                <p className="text-sm font-bold text-slate-800 mb-2">Condiciones de los préstamos</p>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+                    <div>
+                        <label className="block text-xs font-bold text-slate-600 mb-1">Tipo de préstamo</label>
+                        <select className="w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm bg-white" value={sheetOptions.loanType}
+                            onChange={e => setSheetOptions({ ...sheetOptions, loanType: e.target.value as LoanType })}>
+                            {Object.values(LoanType).map(t => <option key={t} value={t}>{t}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-xs font-bold text-slate-600 mb-1">La tasa de la hoja es</label>
+                        <select className="w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm bg-white" value={sheetOptions.rateBasis}
+                            onChange={e => setSheetOptions({ ...sheetOptions, rateBasis: e.target.value as RateBasis })}>
+                            {Object.values(RateBasis).map(b => <option key={b} value={b}>{b}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-xs font-bold text-slate-600 mb-1">Frecuencia si falta</label>
+                        <select className="w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm bg-white" value={sheetOptions.defaultFrequency}
+                            onChange={e => setSheetOptions({ ...sheetOptions, defaultFrequency: e.target.value as Frequency })}>
+                            {Object.values(Frequency).map(f => <option key={f} value={f}>{f}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-xs font-bold text-slate-600 mb-1">N° de cuotas si falta</label>
+                        <input type="number" min="1" className="w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm"
+                            value={sheetOptions.defaultDuration}
+                            onChange={e => setSheetOptions({ ...sheetOptions, defaultDuration: Math.max(1, Math.floor(Number(e.target.value) || 1)) })} />
+                    </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2 mb-4 text-xs">
+                    <span className="px-2 py-0.5 rounded-full font-medium bg-emerald-100 text-emerald-700">Clientes nuevos: {result.clients.length}</span>
+                    <span className="px-2 py-0.5 rounded-full font-medium bg-slate-100 text-slate-600">Clientes existentes (por DNI): {result.linkedClients}</span>
+                    <span className="px-2 py-0.5 rounded-full font-medium bg-blue-100 text-blue-700">Préstamos: {result.loans.length}</span>
+                    <span className="px-2 py-0.5 rounded-full font-medium bg-rose-100 text-rose-700">Filas con errores: {result.errors.length}</span>
+                </div>
+
+                {result.loans.length > 0 && (
+                    <div className="border border-slate-100 rounded-lg overflow-x-auto mb-4">
+                        <table className="w-full text-xs text-left">
+                            <thead className="bg-slate-50 text-slate-500 uppercase">
+                                <tr>
+                                    <th className="px-3 py-2">Cliente</th>
+                                    <th className="px-3 py-2">Monto</th>
+                                    <th className="px-3 py-2">Tasa</th>
+                                    <th className="px-3 py-2">Frecuencia</th>
+                                    <th className="px-3 py-2">Inicio</th>
+                                    <th className="px-3 py-2">Cuotas</th>
+                                    <th className="px-3 py-2">Pagadas</th>
+                                    <th className="px-3 py-2">Cuota</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-100">
+                                {result.loans.slice(0, 5).map(l => (
+                                    <tr key={l.id}>
+                                        <td className="px-3 py-2 text-slate-700">{clientNames.get(l.clientId)}</td>
+                                        <td className="px-3 py-2">{formatCurrency(l.amount)}</td>
+                                        <td className="px-3 py-2">{l.interestRate}%</td>
+                                        <td className="px-3 py-2">{l.frequency}</td>
+                                        <td className="px-3 py-2">{formatDate(l.startDate)}</td>
+                                        <td className="px-3 py-2">{l.duration}</td>
+                                        <td className="px-3 py-2">{l.payments.length}</td>
+                                        <td className="px-3 py-2">{formatCurrency(l.installments[0].amount)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {result.loans.length > 5 && <p className="text-xs text-slate-400 px-3 py-2 border-t border-slate-100">y {result.loans.length - 5} préstamos más.</p>}
+                    </div>
+                )}
+
+                {result.errors.length > 0 && (
+                    <div className="border border-rose-100 bg-rose-50/50 rounded-lg max-h-40 overflow-y-auto mb-4 divide-y divide-rose-100">
+                        {result.errors.map(err => (
+                            <p key={err.row} className="px-3 py-1.5 text-xs text-rose-700"><span className="font-bold mr-2">Fila {err.row}</span>{err.message}</p>
+                        ))}
+                    </div>
+                )}
+
+                {!canImport && <p className="text-xs text-rose-600 mb-4">Elige la columna del nombre o del DNI para identificar a los clientes.</p>}
+                <p className="text-xs text-slate-400 mb-4">Los datos actuales se conservan. Las filas con errores no se importan.</p>
+                <div className="flex justify-end gap-3">
+                    <button onClick={() => setSheet(null)} className="px-4 py-2 text-slate-600 hover:bg-slate-50 rounded-lg">Cancelar</button>
+                    <button onClick={handleConfirmSheet} disabled={!canImport || (result.clients.length === 0 && result.loans.length === 0)}
+                        className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed">
+                        <Upload className="w-4 h-4" />
+                        Importar
+                    </button>
+                </div>
+            </div>
+        </div>
+        );
+      })()}
+
+      {/* Merge Import Preview */}
+      {mergePreview && (() => {
+        const clientNames = new Map<string, string>();
+        mergePreview.clients.forEach(e => {
+            clientNames.set(e.incoming.id, e.incoming.name);
+            if (e.local) clientNames.set(e.local.id, e.local.name);
+        });
+        const count = (entries: { status: MergeStatus }[], status: MergeStatus) => entries.filter(e => e.status === status).length;
+        const conflicts = [
+            ...mergePreview.clients.filter(e => e.status === MergeStatus.CONFLICT).map(e => ({
+                key: e.key, kind: 'Cliente', label: `${e.incoming.name} (${e.incoming.dni || 'sin DNI'})`, reason: e.reason,
+                local: getModifiedAt(e.local!), incoming: getModifiedAt(e.incoming)
+            })),
+            ...mergePreview.loans.filter(e => e.status === MergeStatus.CONFLICT).map(e => ({
+                key: e.key, kind: 'Préstamo', label: `${clientNames.get(e.incoming.clientId) || 'Cliente'} · ${formatCurrency(e.incoming.amount)} · ${formatDate(e.incoming.startDate)}`, reason: e.reason,
+                local: getModifiedAt(e.local!), incoming: getModifiedAt(e.incoming)
+            }))
+        ];
+
+        return (
+        <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full p-6 max-h-[90vh] overflow-y-auto">
+                <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center gap-3 text-emerald-600">
+                        <GitMerge className="w-6 h-6" />
+                        <h3 className="text-xl font-bold text-slate-900">Revisar Combinación</h3>
+                    </div>
+                    <button onClick={() => setMergePreview(null)} className="p-1 text-slate-400 hover:text-slate-600 rounded">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4 mb-6">
+                    {([['Clientes', mergePreview.clients], ['Préstamos', mergePreview.loans]] as [string, { status: MergeStatus }[]][]).map(([title, entries]) => (
+                        <div key={title} className="bg-slate-50 rounded-lg border border-slate-100 p-3">
+                            <p className="text-xs text-slate-500 uppercase font-semibold mb-2">{title}</p>
+                            <div className="flex flex-wrap gap-2">
+                                {Object.values(MergeStatus).map(status => (
+                                    <span key={status} className={`px-2 py-0.5 rounded-full text-xs font-medium ${MERGE_STATUS_STYLES[status]}`}>
+                                        {status}: {count(entries, status)}
+                                    </span>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                {conflicts.length > 0 ? (
+                    <div className="mb-6">
+                        <div className="flex items-center justify-between mb-2">
+                            <p className="text-sm font-bold text-slate-800">Conflictos ({conflicts.length})</p>
+                            <label className="text-xs text-slate-500 flex items-center gap-2">
+                                Resolver todos:
+                                <select className="border border-slate-300 rounded-md px-2 py-1 bg-white text-slate-700"
+                                    value={defaultResolution} onChange={e => { setDefaultResolution(e.target.value as MergeResolution); setMergeResolutions({}); }}>
+                                    {Object.values(MergeResolution).map(r => <option key={r} value={r}>{r}</option>)}
+                                </select>
+                            </label>
+                        </div>
+                        <div className="border border-slate-100 rounded-lg divide-y divide-slate-100">
+                            {conflicts.map(c => (
+                                <div key={c.key} className="flex flex-col md:flex-row md:items-center justify-between gap-2 px-3 py-2 text-sm">
+                                    <div>
+                                        <p className="text-slate-800"><span className="text-xs text-slate-400 mr-2">{c.kind}</span>{c.label}</p>
+                                        <p className="text-xs text-amber-700">{c.reason}</p>
+                                        <p className="text-[10px] text-slate-400">Local: {formatDate(c.local)} · Importado: {formatDate(c.incoming)}</p>
+                                    </div>
+                                    <select className="border border-slate-300 rounded-md px-2 py-1 text-xs bg-white text-slate-700"
+                                        value={mergeResolutions[c.key] || defaultResolution}
+                                        onChange={e => setMergeResolutions({ ...mergeResolutions, [c.key]: e.target.value as MergeResolution })}>
+                                        {Object.values(MergeResolution).map(r => <option key={r} value={r}>{r}</option>)}
+                                    </select>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                ) : (
+                    <p className="text-sm text-slate-500 mb-6">No hay conflictos: los registros nuevos y actualizados se guardarán directamente.</p>
+                )}
+
+                {mergeReport && mergeReport.issues.length > 0 && (
+                    <div className="mb-6">
+                        <p className="text-sm font-bold text-slate-800 mb-2">Validación del archivo</p>
+                        <ValidationReportView report={mergeReport} />
+                    </div>
+                )}
+
+                <p className="text-xs text-slate-400 mb-4">Los registros locales que no están en el respaldo no se modifican.</p>
+                <div className="flex justify-end gap-3">
+                    <button onClick={() => setMergePreview(null)} className="px-4 py-2 text-slate-600 hover:bg-slate-50 rounded-lg">Cancelar</button>
+                    <button onClick={handleConfirmMerge} className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 flex items-center gap-2">
+                        <GitMerge className="w-4 h-4" />
+                        Combinar
+                    </button>
+                </div>
+            </div>
+        </div>
+        );
+      })()}
+
       {/* Toast Notification */}
       {toast && toast.show && (
         <div className="fixed bottom-6 right-6 z-50 animate-in slide-in-from-bottom-5 fade-in duration-300">
@@ -0,0 +1,132 @@
+import { AuditChange, Loan } from '../types';
+import { formatCurrency, formatDate } from '../utils';
+
+// Bookkeeping fields that change on every write (or when a route is reordered) and say nothing about the record
+const IGNORED_FIELDS = ['updatedAt', 'routeOrder'];
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Nombre',
+  documentType: 'Tipo de documento',
+  dni: 'Documento',
+  phone: 'Teléfono',
+  address: 'Dirección',
+  email: 'Correo',
+  birthDate: 'Nacimiento',
+  occupation: 'Ocupación',
+  monthlyIncome: 'Ingreso mensual',
+  creditLimit: 'Límite de crédito',
+  latitude: 'Latitud',
+  longitude: 'Longitud',
+  zone: 'Zona',
+  references: 'Referencias',
+  relationship: 'Relación',
+  guarantors: 'Avales',
+  limitOverride: 'Excepción de límite',
+  breaches: 'Límites excedidos',
+  attachments: 'Adjunto',
+  clientId: 'Cliente',
+  amount: 'Monto',
+  interestRate: 'Tasa',
+  interestType: 'Tipo de interés',
+  rateBasis: 'Base de tasa',
+  variableRates: 'Tasas variables',
+  frequency: 'Frecuencia',
+  roll: 'Días no hábiles',
+  duration: 'Cuotas',
+  type: 'Tipo',
+  startDate: 'Inicio',
+  endDate: 'Fin',
+  status: 'Estado',
+  statusHistory: 'Cambio de estado',
+  totalPayable: 'Total a pagar',
+  totalPaid: 'Pagado',
+  charges: 'Cargos',
+  capital: 'Capital',
+  interest: 'Interés',
+  penalty: 'Mora',
+  paidAmount: 'Pagado',
+  paymentDate: 'Fecha de pago',
+  dueDate: 'Vencimiento',
+  method: 'Método',
+  collector: 'Cobrador',
+  note: 'Nota',
+  allocations: 'Aplicación',
+  reversal: 'Reversión',
+  archivedAt: 'Archivado',
+  deletedAt: 'Eliminado',
+  reason: 'Motivo'
+};
+
+// Array elements are named after what they are; installments and payments are numbered from 1
+const ITEM_LABELS: Record<string, string> = {
+  installments: 'Cuota',
+  payments: 'Pago',
+  statusHistory: 'Cambio de estado',
+  charges: 'Cargo',
+  references: 'Referencia',
+  guarantors: 'Aval'
+};
+
+const isPlainObject = (value: any): boolean => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const sameValue = (a: any, b: any): boolean => {
+  if (typeof a === 'number' && typeof b === 'number') return Math.abs(a - b) < 1e-9;
+  return a === b;
+};
+
+/**
+ * Field-by-field differences between two versions of a record. Objects and arrays are walked down to
+ * the changed leaves; arrays are compared by position. A record that did not exist before (or no longer
+ * exists) is reported as a single change at the root.
+ */
+export const diffRecords = (before: any, after: any, path: string = ''): AuditChange[] => {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: AuditChange[] = [];
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      changes.push(...diffRecords(before[i], after[i], `${path}[${i}]`));
+    }
+    return changes;
+  }
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+      .filter(key => !(path === '' && IGNORED_FIELDS.includes(key)));
+    return keys.flatMap(key => diffRecords(before[key], after[key], path ? `${path}.${key}` : key));
+  }
+  if (sameValue(before, after)) return [];
+  return [{ path, before, after }];
+};
+
+// "installments[2].paidAmount" -> "Cuota 3 · Pagado"
+export const formatAuditPath = (path: string): string => {
+  if (!path) return 'Registro';
+  return path.split('.').map(segment => {
+    const match = segment.match(/^(\w+)((?:\[\d+\])*)$/);
+    if (!match) return segment;
+    const [, field, indexes] = match;
+    const positions = Array.from(indexes.matchAll(/\[(\d+)\]/g)).map(m => Number(m[1]) + 1);
+    if (positions.length === 0) return FIELD_LABELS[field] || field;
+    return `${ITEM_LABELS[field] || FIELD_LABELS[field] || field} ${positions.join('.')}`;
+  }).join(' · ');
+};
+
+export const formatAuditValue = (value: any): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(2);
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+  if (typeof value === 'string') return /^\d{4}-\d{2}-\d{2}(T|$)/.test(value) ? formatDate(value) : value;
+  const json = JSON.stringify(value);
+  return json.length > 80 ? `${json.slice(0, 77)}...` : json;
+};
+
+// Installments that were already paid (fully or in part) whose amounts an edit changed
+export const getEditedPaidInstallments = (before: Loan, changes: AuditChange[]): number[] => {
+  const touched = new Set<number>();
+  changes.forEach(change => {
+    const match = change.path.match(/^installments\[(\d+)\]\.(amount|capital|interest|charges)$/);
+    const installment = match ? before.installments[Number(match[1])] : undefined;
+    if (installment && (installment.paidAmount || 0) > 0) touched.add(installment.number);
+  });
+  return Array.from(touched).sort((a, b) => a - b);
+};
+
+export const describeLoan = (loan: Loan): string => `${formatCurrency(loan.amount)} (${loan.duration} cuotas ${loan.frequency.toLowerCase()})`;
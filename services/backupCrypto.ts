@@ -0,0 +1,112 @@
+import { BackupError } from '../types';
+
+/**
+ * Passphrase-encrypted backups. The backup JSON is encrypted with AES-GCM under a key derived
+ * from the passphrase with PBKDF2. The same derivation also yields a check value, stored in the
+ * file, that tells a wrong passphrase apart from a file that was damaged after it was written:
+ * GCM alone rejects both the same way.
+ */
+
+const FORMAT = 'lenderpro-encrypted';
+const FORMAT_VERSION = 1;
+const ITERATIONS = 600000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+interface EncryptedBackup {
+  format: typeof FORMAT;
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  check: string; // Derived alongside the key; matches only for the right passphrase
+  data: string;
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// 512 derived bits: the first half is the AES key, the second half the check value
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<{ key: CryptoKey; check: Uint8Array }> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = new Uint8Array(await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, 512));
+  const key = await crypto.subtle.importKey('raw', bits.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']);
+  return { key, check: bits.slice(32) };
+};
+
+const parseEnvelope = (input: string | any): any => {
+  if (typeof input !== 'string') return input;
+  try {
+    return JSON.parse(input);
+  } catch (e) {
+    return null;
+  }
+};
+
+// True for files written by encryptBackup, whether or not they can still be decrypted
+export const isEncryptedBackup = (input: string | any): boolean => parseEnvelope(input)?.format === FORMAT;
+
+export const encryptBackup = async (plaintext: string, passphrase: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const { key, check } = await deriveKey(passphrase, salt, ITERATIONS);
+  const data = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext)));
+
+  const envelope: EncryptedBackup = {
+    format: FORMAT,
+    version: FORMAT_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    check: toBase64(check),
+    data: toBase64(data)
+  };
+  return JSON.stringify(envelope, null, 2);
+};
+
+/**
+ * Decrypts a file written by encryptBackup back to the backup JSON.
+ */
+export const decryptBackup = async (input: string | any, passphrase: string): Promise<{ success: boolean; json?: string; error?: BackupError; message?: string }> => {
+  if (!passphrase) {
+    return { success: false, error: BackupError.PASSPHRASE_REQUIRED, message: "Este respaldo está cifrado. Ingresa la contraseña con la que se creó." };
+  }
+
+  const corrupted = { success: false, error: BackupError.CORRUPTED, message: "El respaldo cifrado está dañado o incompleto y no se puede descifrar." };
+  const envelope = parseEnvelope(input);
+  if (envelope?.version > FORMAT_VERSION) {
+    return { ...corrupted, message: "El respaldo fue cifrado con una versión más reciente de LenderPro. Actualiza la aplicación antes de importarlo." };
+  }
+
+  let salt: Uint8Array<ArrayBuffer>, iv: Uint8Array<ArrayBuffer>, check: Uint8Array, data: Uint8Array<ArrayBuffer>;
+  try {
+    salt = fromBase64(envelope.kdf.salt);
+    iv = fromBase64(envelope.cipher.iv);
+    check = fromBase64(envelope.check);
+    data = fromBase64(envelope.data);
+  } catch (e) {
+    return corrupted;
+  }
+  const iterations = Number(envelope.kdf.iterations);
+  if (!Number.isInteger(iterations) || iterations < 1 || iv.length !== 12 || check.length !== 32) return corrupted;
+
+  const derived = await deriveKey(passphrase, salt, iterations);
+  if (!derived.check.every((b, i) => b === check[i])) {
+    return { success: false, error: BackupError.WRONG_PASSPHRASE, message: "La contraseña no es correcta." };
+  }
+
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, derived.key, data);
+    return { success: true, json: new TextDecoder().decode(plaintext) };
+  } catch (e) {
+    // The passphrase is right, so the authentication tag failed because the data changed
+    return corrupted;
+  }
+};
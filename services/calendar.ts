@@ -0,0 +1,84 @@
+import { Holiday } from '../types';
+import { toISODate } from '../utils';
+
+// How many years ahead a yearly recurring ICS event is expanded
+const RECURRENCE_YEARS = 5;
+
+const fromCompactDate = (value: string): string | null => {
+  const match = value.match(/(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+// Accepts YYYY-MM-DD and the local DD/MM/YYYY (or DD-MM-YYYY)
+const fromTextDate = (value: string): string | null => {
+  const trimmed = value.trim().replace(/^"|"$/g, '');
+  let match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+  match = trimmed.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (match) return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+  return null;
+};
+
+/**
+ * Reads holidays from an iCalendar file. Only the start date of each VEVENT is used;
+ * FREQ=YEARLY events are repeated for the next few years.
+ */
+export const parseICSHolidays = (content: string): Holiday[] => {
+  // Unfold continuation lines (RFC 5545: a line starting with a space continues the previous one)
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const holidays: Holiday[] = [];
+  let current: { date?: string; name?: string; yearly?: boolean } | null = null;
+
+  lines.forEach(line => {
+    if (line.startsWith('BEGIN:VEVENT')) current = {};
+    else if (line.startsWith('END:VEVENT') && current) {
+      const event: { date?: string; name?: string; yearly?: boolean } = current;
+      if (event.date) {
+        holidays.push({ date: event.date, name: event.name });
+        if (event.yearly) {
+          const [y, m, d] = event.date.split('-').map(Number);
+          const lastYear = new Date().getFullYear() + RECURRENCE_YEARS;
+          for (let year = y + 1; year <= lastYear; year++) {
+            holidays.push({ date: toISODate(new Date(year, m - 1, d, 12)), name: event.name });
+          }
+        }
+      }
+      current = null;
+    } else if (current) {
+      if (line.startsWith('DTSTART')) current.date = fromCompactDate(line.split(':').pop() || '') || undefined;
+      else if (line.startsWith('SUMMARY')) current.name = line.substring(line.indexOf(':') + 1).trim();
+      else if (line.startsWith('RRULE') && line.includes('FREQ=YEARLY')) current.yearly = true;
+    }
+  });
+
+  return holidays;
+};
+
+/**
+ * Reads holidays from a CSV: one per row, a date column and an optional name column.
+ * Rows without a recognizable date (headers, blanks) are skipped.
+ */
+export const parseCSVHolidays = (content: string): Holiday[] => {
+  const holidays: Holiday[] = [];
+  content.split(/\r?\n/).forEach(line => {
+    const cells = line.split(/[;,]/);
+    const dateIndex = cells.findIndex(c => fromTextDate(c) !== null);
+    if (dateIndex === -1) return;
+
+    const name = cells.filter((_, i) => i !== dateIndex).map(c => c.trim().replace(/^"|"$/g, '')).find(c => c.length > 0);
+    holidays.push({ date: fromTextDate(cells[dateIndex])!, name });
+  });
+  return holidays;
+};
+
+export const parseHolidayFile = (content: string, fileName: string): Holiday[] => {
+  const isICS = fileName.toLowerCase().endsWith('.ics') || content.includes('BEGIN:VCALENDAR');
+  return isICS ? parseICSHolidays(content) : parseCSVHolidays(content);
+};
+
+// Adds holidays to a list, one entry per date, sorted chronologically
+export const mergeHolidays = (existing: Holiday[], incoming: Holiday[]): Holiday[] => {
+  const byDate = new Map(existing.map(h => [h.date, h]));
+  incoming.forEach(h => { if (!byDate.has(h.date)) byDate.set(h.date, h); });
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
@@ -0,0 +1,104 @@
+import { Client, Installment, InstallmentStatus, Loan, PaymentMethod } from '../types';
+import { getDaysLate, getInstallmentBalance, parseDate, toISODate } from '../utils';
+import { isLoanOpen } from './integrity';
+
+export const UNASSIGNED_COLLECTOR = 'Sin cobrador';
+export const NO_ZONE = 'Sin zona';
+
+// One loan to visit on the day
+export interface CollectionStop {
+  loan: Loan;
+  client?: Client;
+  installments: Installment[]; // Unpaid installments due on or before the day
+  amountDue: number; // Their balance, penalties included
+  daysLate: number; // Of the oldest one
+  collectedToday: number; // Payments already received on the day
+}
+
+export interface CollectionRoute {
+  collector: string;
+  zone: string;
+  stops: CollectionStop[]; // In route order
+}
+
+// What a collector received on the day, to reconcile against the cash handed in
+export interface CollectorTotals {
+  collector: string;
+  payments: number;
+  total: number;
+  cash: number;
+}
+
+// Local calendar day of a stored date: payments are kept as UTC timestamps, so an evening payment
+// would otherwise fall on the next day
+const day = (date: string) => toISODate(parseDate(date));
+
+const collectedOn = (loan: Loan, date: string): number => (loan.payments || [])
+  .filter(p => !p.reversal && day(p.date) === date)
+  .reduce((acc, p) => acc + p.amount, 0);
+
+// Clients with a route position come first, in that order; the rest follow by name
+const compareStops = (a: CollectionStop, b: CollectionStop): number => {
+  const orderA = a.client?.routeOrder;
+  const orderB = b.client?.routeOrder;
+  if (orderA !== undefined && orderB !== undefined && orderA !== orderB) return orderA - orderB;
+  if (orderA !== undefined && orderB === undefined) return -1;
+  if (orderA === undefined && orderB !== undefined) return 1;
+  return (a.client?.name || '').localeCompare(b.client?.name || '');
+};
+
+// Named groups first, alphabetically; the catch-all group last
+const compareNames = (a: string, b: string, fallback: string): number =>
+  a === fallback ? (b === fallback ? 0 : 1) : b === fallback ? -1 : a.localeCompare(b);
+
+/**
+ * The day's collection sheet: every open loan with an installment due that day or overdue, plus the loans
+ * already paid that day so they stay on the sheet. Grouped by the client's collector and zone.
+ */
+export const buildCollectionRoutes = (loans: Loan[], clients: Client[], date: string): CollectionRoute[] => {
+  const clientsById = new Map(clients.map(c => [c.id, c]));
+  const asOf = parseDate(date);
+  const routes = new Map<string, CollectionRoute>();
+
+  loans.forEach(loan => {
+    const installments = isLoanOpen(loan)
+      ? loan.installments.filter(i => i.status !== InstallmentStatus.PAID && day(i.dueDate) <= date)
+      : [];
+    const collectedToday = collectedOn(loan, date);
+    if (installments.length === 0 && collectedToday === 0) return;
+
+    const client = clientsById.get(loan.clientId);
+    const collector = client?.collector || UNASSIGNED_COLLECTOR;
+    const zone = client?.zone || NO_ZONE;
+    const key = `${collector}\u0000${zone}`;
+    if (!routes.has(key)) routes.set(key, { collector, zone, stops: [] });
+    routes.get(key)!.stops.push({
+      loan,
+      client,
+      installments,
+      amountDue: installments.reduce((acc, i) => acc + getInstallmentBalance(i), 0),
+      daysLate: installments.reduce((max, i) => Math.max(max, getDaysLate(i.dueDate, asOf)), 0),
+      collectedToday
+    });
+  });
+
+  return Array.from(routes.values())
+    .map(route => ({ ...route, stops: route.stops.sort(compareStops) }))
+    .sort((a, b) => compareNames(a.collector, b.collector, UNASSIGNED_COLLECTOR) || compareNames(a.zone, b.zone, NO_ZONE));
+};
+
+// Payments received on the day by each collector, wherever they were registered. Reversed payments do not count.
+export const summarizeCollectors = (loans: Loan[], date: string): CollectorTotals[] => {
+  const totals = new Map<string, CollectorTotals>();
+  loans.forEach(loan => (loan.payments || [])
+    .filter(p => !p.reversal && day(p.date) === date)
+    .forEach(p => {
+      const collector = p.collector || UNASSIGNED_COLLECTOR;
+      const entry = totals.get(collector) || { collector, payments: 0, total: 0, cash: 0 };
+      entry.payments += 1;
+      entry.total += p.amount;
+      if (p.method === PaymentMethod.CASH) entry.cash += p.amount;
+      totals.set(collector, entry);
+    }));
+  return Array.from(totals.values()).sort((a, b) => compareNames(a.collector, b.collector, UNASSIGNED_COLLECTOR));
+};
@@ -0,0 +1,45 @@
+import { Client, CreditPolicy, Loan, LoanStatus } from '../types';
+import { formatCurrency, getLoanBalance } from '../utils';
+import { isLoanOpen } from './integrity';
+
+export interface CreditCheck {
+  exposure: number; // Balance owed today across the client's open loans
+  projectedExposure: number; // With the new loan
+  limit: number | null; // Exposure limit that applies to the client, null when none
+  activeLoans: number; // Open loans today
+  breaches: string[]; // One message per limit the new loan would exceed
+}
+
+export const getClientExposure = (loans: Loan[]): number =>
+  loans.filter(isLoanOpen).reduce((acc, l) => acc + getLoanBalance(l), 0);
+
+// The client's own limit wins over the general one, even when it is higher
+export const getExposureLimit = (client: Client | undefined, policy: CreditPolicy): number | null => {
+  if (client?.creditLimit !== undefined) return client.creditLimit;
+  return policy.maxExposure > 0 ? policy.maxExposure : null;
+};
+
+/**
+ * Checks a new loan against the credit policy. loans are the client's other loans: a loan being edited
+ * or refinanced is left out by the caller, since the new one replaces it. newDebt is what the new loan
+ * will be owed in total (principal, interest and charges), the same measure as the exposure.
+ */
+export const checkCreditLimits = (client: Client | undefined, loans: Loan[], newDebt: number, policy: CreditPolicy): CreditCheck => {
+  const exposure = getClientExposure(loans);
+  const projectedExposure = exposure + newDebt;
+  const limit = getExposureLimit(client, policy);
+  const activeLoans = loans.filter(isLoanOpen).length;
+  const defaulted = loans.filter(l => l.status === LoanStatus.DEFAULTED).length;
+
+  const breaches: string[] = [];
+  if (limit !== null && projectedExposure > limit) {
+    breaches.push(`La deuda total quedaría en ${formatCurrency(projectedExposure)}, por encima del límite de ${formatCurrency(limit)}${client?.creditLimit !== undefined ? ' del cliente' : ''}.`);
+  }
+  if (policy.maxActiveLoans > 0 && activeLoans + 1 > policy.maxActiveLoans) {
+    breaches.push(`Tendría ${activeLoans + 1} préstamos vigentes; el máximo es ${policy.maxActiveLoans}.`);
+  }
+  if (policy.blockDefaulted && defaulted > 0) {
+    breaches.push(`Tiene ${defaulted} préstamo(s) en mora.`);
+  }
+  return { exposure, projectedExposure, limit, activeLoans, breaches };
+};
@@ -0,0 +1,158 @@
+import { Client, Loan, MergeResolution, MergeStatus } from '../types';
+
+export interface MergeEntry<T> {
+  key: string; // Unique across the preview, used to attach a resolution
+  status: MergeStatus;
+  incoming: T;
+  local?: T; // Record it would overwrite (for clients, possibly a different id with the same DNI)
+  reason?: string; // Why it needs a decision
+}
+
+export interface MergePreview {
+  clients: MergeEntry<Client>[];
+  loans: MergeEntry<Loan>[];
+}
+
+export interface MergeResult {
+  clients: Client[]; // Records to write
+  loans: Loan[];
+}
+
+// Bookkeeping and values derived from the ledger or the current date are not compared
+const CLIENT_IGNORED = ['id', 'createdAt', 'updatedAt'];
+const LOAN_IGNORED = ['updatedAt', 'status', 'statusHistory', 'totalPaid'];
+
+const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(k => value[k] !== undefined && value[k] !== null)
+      .sort()
+      .map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const omit = (record: object, keys: string[]): Record<string, unknown> => {
+  const copy: Record<string, unknown> = { ...record };
+  keys.forEach(k => delete copy[k]);
+  return copy;
+};
+
+const clientFingerprint = (client: Client): string => stableStringify(omit(client, CLIENT_IGNORED));
+
+const loanFingerprint = (loan: Loan): string => stableStringify({
+  ...omit(loan, LOAN_IGNORED),
+  // Installment status, paid amount and penalty follow from the ledger and the day it is evaluated
+  installments: loan.installments.map(i => ({
+    number: i.number, dueDate: i.dueDate, amount: i.amount, capital: i.capital, interest: i.interest, charges: i.charges || 0
+  }))
+});
+
+const latestPaymentDate = (loan: Loan): string | undefined =>
+  (loan.payments || []).map(p => p.date).sort().pop();
+
+// Last time a record is known to have changed. Records saved before updatedAt existed fall back to their own dates.
+export const getModifiedAt = (record: Client | Loan): string => {
+  if (record.updatedAt) return record.updatedAt;
+  if ('payments' in record) return latestPaymentDate(record) || record.startDate;
+  return record.createdAt;
+};
+
+const paymentIds = (loan: Loan) => new Set((loan.payments || []).map(p => p.id));
+const containsAll = (set: Set<string>, subset: Set<string>) => Array.from(subset).every(id => set.has(id));
+
+const compareLoans = (local: Loan, incoming: Loan): { status: MergeStatus; reason?: string } => {
+  if (loanFingerprint(local) === loanFingerprint(incoming)) return { status: MergeStatus.UNCHANGED };
+
+  const localIds = paymentIds(local);
+  const incomingIds = paymentIds(incoming);
+  const incomingHasAll = containsAll(incomingIds, localIds);
+  const localHasAll = containsAll(localIds, incomingIds);
+
+  // The ledger only grows, so a loan whose payments include all of the other side's is the more advanced copy
+  if (incomingHasAll && incomingIds.size > localIds.size) return { status: MergeStatus.UPDATED };
+  if (localHasAll && localIds.size > incomingIds.size) return { status: MergeStatus.UNCHANGED };
+  if (!incomingHasAll && !localHasAll) return { status: MergeStatus.CONFLICT, reason: 'Ambos equipos registraron pagos distintos' };
+  return { status: MergeStatus.CONFLICT, reason: 'Las condiciones o el cronograma no coinciden' };
+};
+
+/**
+ * Classifies every incoming record against the local data: new, updated (the incoming copy is ahead),
+ * conflicting (both sides changed, or a client with the same DNI under another id) or unchanged.
+ * Nothing is written; see applyMerge.
+ */
+export const buildMergePreview = (local: { clients: Client[]; loans: Loan[] }, incoming: { clients: Client[]; loans: Loan[] }): MergePreview => {
+  const localClients = new Map(local.clients.map(c => [c.id, c]));
+  const localByDni = new Map(local.clients.filter(c => c.dni).map(c => [c.dni, c]));
+  const localLoans = new Map(local.loans.map(l => [l.id, l]));
+
+  const clients = incoming.clients.map((client): MergeEntry<Client> => {
+    const key = `client:${client.id}`;
+    const sameId = localClients.get(client.id);
+    if (sameId) {
+      return clientFingerprint(sameId) === clientFingerprint(client)
+        ? { key, status: MergeStatus.UNCHANGED, incoming: client, local: sameId }
+        // Clients carry no history, so any difference needs a decision
+        : { key, status: MergeStatus.CONFLICT, incoming: client, local: sameId, reason: 'Datos del cliente distintos' };
+    }
+
+    const sameDni = client.dni ? localByDni.get(client.dni) : undefined;
+    if (sameDni) {
+      return { key, status: MergeStatus.CONFLICT, incoming: client, local: sameDni, reason: `DNI ${client.dni} ya registrado` };
+    }
+    return { key, status: MergeStatus.NEW, incoming: client };
+  });
+
+  const loans = incoming.loans.map((loan): MergeEntry<Loan> => {
+    const key = `loan:${loan.id}`;
+    const existing = localLoans.get(loan.id);
+    if (!existing) return { key, status: MergeStatus.NEW, incoming: loan };
+    return { key, incoming: loan, local: existing, ...compareLoans(existing, loan) };
+  });
+
+  return { clients, loans };
+};
+
+const useIncoming = <T extends Client | Loan>(entry: MergeEntry<T>, resolution: MergeResolution): boolean => {
+  if (!entry.local) return true;
+  if (resolution === MergeResolution.KEEP_INCOMING) return true;
+  if (resolution === MergeResolution.KEEP_NEWEST) return getModifiedAt(entry.incoming) > getModifiedAt(entry.local);
+  return false;
+};
+
+/**
+ * Records to write for a preview. Conflicts without an explicit resolution use the given default.
+ * A client matched by DNI keeps the local id, and the incoming loans are moved onto it.
+ */
+export const applyMerge = (
+  preview: MergePreview,
+  resolutions: Record<string, MergeResolution>,
+  defaultResolution: MergeResolution = MergeResolution.KEEP_NEWEST
+): MergeResult => {
+  const clientIdMap = new Map<string, string>();
+  const clients: Client[] = [];
+
+  preview.clients.forEach(entry => {
+    if (entry.local && entry.local.id !== entry.incoming.id) clientIdMap.set(entry.incoming.id, entry.local.id);
+
+    if (entry.status === MergeStatus.NEW) clients.push(entry.incoming);
+    else if (entry.status === MergeStatus.CONFLICT && entry.local && useIncoming(entry, resolutions[entry.key] || defaultResolution)) {
+      clients.push({ ...entry.incoming, id: entry.local.id, createdAt: entry.local.createdAt });
+    }
+  });
+
+  const loans: Loan[] = [];
+  preview.loans.forEach(entry => {
+    const take = entry.status === MergeStatus.NEW
+      || entry.status === MergeStatus.UPDATED
+      || (entry.status === MergeStatus.CONFLICT && useIncoming(entry, resolutions[entry.key] || defaultResolution));
+    if (!take) return;
+
+    const clientId = clientIdMap.get(entry.incoming.clientId) || entry.incoming.clientId;
+    loans.push({ ...entry.incoming, clientId });
+  });
+
+  return { clients, loans };
+};
@@ -0,0 +1,305 @@
+import { Attachment, AuditEntry, Client, InstallmentStatus, Loan, LoanStatus, Snapshot } from '../types';
+import { isLoanOpen } from './integrity';
+import { AttachmentRepository, AuditRepository, ClientRepository, LoanRepository, MetaRepository, Repository, SnapshotRepository } from './repository';
+
+const DB_NAME = 'lenderpro';
+const DB_VERSION = 5; // Object stores and indexes only; the data schema is versioned in services/migrations
+const CLIENTS_STORE = 'clients';
+const LOANS_STORE = 'loans';
+const META_STORE = 'meta';
+const SNAPSHOTS_STORE = 'snapshots';
+const SNAPSHOT_DATA_STORE = 'snapshotData'; // Payloads, apart so listing snapshots stays cheap
+const AUDIT_STORE = 'audit';
+const ATTACHMENTS_STORE = 'attachments';
+const ATTACHMENT_DATA_STORE = 'attachmentData'; // Blobs, apart so listing a client's files stays cheap
+
+// Where earlier versions kept everything, as two JSON arrays
+const LEGACY_CLIENTS_KEY = 'lenderpro_clients';
+const LEGACY_LOANS_KEY = 'lenderpro_loans';
+
+// Loans are stored with the due dates of their unpaid installments so the dueDate index can reach them
+type LoanRecord = Loan & { dueDates: string[] };
+
+// Only open loans are indexed by due date: installments of refinanced or annulled loans are never paid
+const toLoanRecord = (loan: Loan): LoanRecord => ({
+  ...loan,
+  dueDates: !isLoanOpen(loan) ? [] : Array.from(new Set(
+    (Array.isArray(loan.installments) ? loan.installments : [])
+      .filter(i => i && i.status !== InstallmentStatus.PAID && i.dueDate)
+      .map(i => String(i.dueDate).split('T')[0])
+  ))
+});
+
+const fromLoanRecord = (record: LoanRecord): Loan => {
+  const { dueDates, ...loan } = record;
+  return loan;
+};
+
+const request = <T>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+});
+
+const parseLegacy = (raw: string | null): any[] => {
+  try {
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter(r => r && typeof r === 'object') : [];
+  } catch (e) {
+    console.error("Error reading legacy data", e);
+    return [];
+  }
+};
+
+/**
+ * One-time copy of the localStorage data written by earlier versions. Records are copied as they are
+ * (StorageService sanitizes on read); the old keys are removed only once the transaction has committed,
+ * so an interrupted migration runs again on the next start.
+ */
+const migrateFromLocalStorage = async (db: IDBDatabase): Promise<IDBDatabase> => {
+  const rawClients = localStorage.getItem(LEGACY_CLIENTS_KEY);
+  const rawLoans = localStorage.getItem(LEGACY_LOANS_KEY);
+  if (rawClients === null && rawLoans === null) return db;
+
+  const withId = (r: any) => ({ ...r, id: String(r.id || Math.random().toString(36).substr(2, 9)) });
+
+  const tx = db.transaction([CLIENTS_STORE, LOANS_STORE], 'readwrite');
+  parseLegacy(rawClients).forEach(c => tx.objectStore(CLIENTS_STORE).put(withId(c)));
+  parseLegacy(rawLoans).forEach(l => tx.objectStore(LOANS_STORE).put(toLoanRecord(withId(l))));
+  await transactionDone(tx);
+
+  localStorage.removeItem(LEGACY_CLIENTS_KEY);
+  localStorage.removeItem(LEGACY_LOANS_KEY);
+  return db;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(CLIENTS_STORE)) {
+        db.createObjectStore(CLIENTS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(LOANS_STORE)) {
+        const loans = db.createObjectStore(LOANS_STORE, { keyPath: 'id' });
+        loans.createIndex('clientId', 'clientId');
+        loans.createIndex('status', 'status');
+        loans.createIndex('dueDate', 'dueDates', { multiEntry: true });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+        db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOT_DATA_STORE)) {
+        db.createObjectStore(SNAPSHOT_DATA_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(AUDIT_STORE)) {
+        const audit = db.createObjectStore(AUDIT_STORE, { keyPath: 'id' });
+        audit.createIndex('clientId', 'clientId');
+        audit.createIndex('loanId', 'loanId');
+      }
+      if (!db.objectStoreNames.contains(ATTACHMENTS_STORE)) {
+        const attachments = db.createObjectStore(ATTACHMENTS_STORE, { keyPath: 'id' });
+        attachments.createIndex('clientId', 'clientId');
+      }
+      if (!db.objectStoreNames.contains(ATTACHMENT_DATA_STORE)) {
+        db.createObjectStore(ATTACHMENT_DATA_STORE, { keyPath: 'id' });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  }).then(migrateFromLocalStorage);
+
+  // Let the next call try again instead of caching the failure
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const createRepository = <T extends { id: string }, R = T>(
+  storeName: string,
+  toRecord: (value: T) => R,
+  fromRecord: (record: R) => T
+): Repository<T> => ({
+  getAll: async () => {
+    const db = await openDatabase();
+    const records = await request<R[]>(db.transaction(storeName).objectStore(storeName).getAll());
+    return records.map(fromRecord);
+  },
+
+  get: async (id) => {
+    const db = await openDatabase();
+    const record = await request<R | undefined>(db.transaction(storeName).objectStore(storeName).get(id));
+    return record ? fromRecord(record) : undefined;
+  },
+
+  put: async (value) => {
+    const db = await openDatabase();
+    const tx = db.transaction(storeName, 'readwrite');
+    tx.objectStore(storeName).put(toRecord(value));
+    await transactionDone(tx);
+  },
+
+  putMany: async (values) => {
+    if (values.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    values.forEach(v => store.put(toRecord(v)));
+    await transactionDone(tx);
+  },
+
+  replaceAll: async (values) => {
+    const db = await openDatabase();
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    store.clear();
+    values.forEach(v => store.put(toRecord(v)));
+    await transactionDone(tx);
+  },
+
+  clear: async () => {
+    const db = await openDatabase();
+    const tx = db.transaction(storeName, 'readwrite');
+    tx.objectStore(storeName).clear();
+    await transactionDone(tx);
+  }
+});
+
+const loansByIndex = async (index: string, query: IDBValidKey | IDBKeyRange): Promise<Loan[]> => {
+  const db = await openDatabase();
+  const records = await request<LoanRecord[]>(db.transaction(LOANS_STORE).objectStore(LOANS_STORE).index(index).getAll(query));
+  // A multiEntry index returns a loan once per matching date
+  const unique = new Map(records.map(r => [r.id, r]));
+  return Array.from(unique.values()).map(fromLoanRecord);
+};
+
+export const IndexedDbClientRepository: ClientRepository = createRepository<Client>(CLIENTS_STORE, c => c, c => c);
+
+export const IndexedDbLoanRepository: LoanRepository = {
+  ...createRepository<Loan, LoanRecord>(LOANS_STORE, toLoanRecord, fromLoanRecord),
+  getByClient: (clientId: string) => loansByIndex('clientId', clientId),
+  getByStatus: (status: LoanStatus) => loansByIndex('status', status),
+  getByDueDate: (from: string, to: string) => loansByIndex('dueDate', IDBKeyRange.bound(from, to))
+};
+
+export const IndexedDbMetaRepository: MetaRepository = {
+  get: async (key: string) => {
+    const db = await openDatabase();
+    const record = await request<{ key: string; value: unknown } | undefined>(db.transaction(META_STORE).objectStore(META_STORE).get(key));
+    return record?.value;
+  },
+
+  set: async (key: string, value: unknown) => {
+    const db = await openDatabase();
+    const tx = db.transaction(META_STORE, 'readwrite');
+    tx.objectStore(META_STORE).put({ key, value });
+    await transactionDone(tx);
+  }
+};
+
+export const IndexedDbSnapshotRepository: SnapshotRepository = {
+  list: async () => {
+    const db = await openDatabase();
+    const snapshots = await request<Snapshot[]>(db.transaction(SNAPSHOTS_STORE).objectStore(SNAPSHOTS_STORE).getAll());
+    return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+
+  getPayload: async (id: string) => {
+    const db = await openDatabase();
+    const record = await request<{ id: string; payload: string } | undefined>(db.transaction(SNAPSHOT_DATA_STORE).objectStore(SNAPSHOT_DATA_STORE).get(id));
+    return record?.payload;
+  },
+
+  save: async (snapshot: Snapshot, payload: string) => {
+    const db = await openDatabase();
+    const tx = db.transaction([SNAPSHOTS_STORE, SNAPSHOT_DATA_STORE], 'readwrite');
+    tx.objectStore(SNAPSHOTS_STORE).put(snapshot);
+    tx.objectStore(SNAPSHOT_DATA_STORE).put({ id: snapshot.id, payload });
+    await transactionDone(tx);
+  },
+
+  remove: async (ids: string[]) => {
+    if (ids.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction([SNAPSHOTS_STORE, SNAPSHOT_DATA_STORE], 'readwrite');
+    ids.forEach(id => {
+      tx.objectStore(SNAPSHOTS_STORE).delete(id);
+      tx.objectStore(SNAPSHOT_DATA_STORE).delete(id);
+    });
+    await transactionDone(tx);
+  }
+};
+
+export const IndexedDbAuditRepository: AuditRepository = {
+  append: async (entries: AuditEntry[]) => {
+    if (entries.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction(AUDIT_STORE, 'readwrite');
+    // add() rather than put(): an existing entry is never overwritten
+    entries.forEach(e => tx.objectStore(AUDIT_STORE).add(e));
+    await transactionDone(tx);
+  },
+
+  list: async (filter = {}) => {
+    const db = await openDatabase();
+    const store = db.transaction(AUDIT_STORE).objectStore(AUDIT_STORE);
+    const entries = await request<AuditEntry[]>(
+      filter.loanId ? store.index('loanId').getAll(filter.loanId)
+        : filter.clientId ? store.index('clientId').getAll(filter.clientId)
+        : store.getAll()
+    );
+    return entries
+      .filter(e => !filter.clientId || e.clientId === filter.clientId)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+};
+
+export const IndexedDbAttachmentRepository: AttachmentRepository = {
+  listByClient: async (clientId: string) => {
+    const db = await openDatabase();
+    const attachments = await request<Attachment[]>(db.transaction(ATTACHMENTS_STORE).objectStore(ATTACHMENTS_STORE).index('clientId').getAll(clientId));
+    return attachments.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+
+  getContent: async (id: string) => {
+    const db = await openDatabase();
+    const record = await request<{ id: string; content: Blob } | undefined>(db.transaction(ATTACHMENT_DATA_STORE).objectStore(ATTACHMENT_DATA_STORE).get(id));
+    return record?.content;
+  },
+
+  save: async (attachment: Attachment, content: Blob) => {
+    const db = await openDatabase();
+    const tx = db.transaction([ATTACHMENTS_STORE, ATTACHMENT_DATA_STORE], 'readwrite');
+    tx.objectStore(ATTACHMENTS_STORE).put(attachment);
+    tx.objectStore(ATTACHMENT_DATA_STORE).put({ id: attachment.id, content });
+    await transactionDone(tx);
+  },
+
+  remove: async (id: string) => {
+    const db = await openDatabase();
+    const tx = db.transaction([ATTACHMENTS_STORE, ATTACHMENT_DATA_STORE], 'readwrite');
+    tx.objectStore(ATTACHMENTS_STORE).delete(id);
+    tx.objectStore(ATTACHMENT_DATA_STORE).delete(id);
+    await transactionDone(tx);
+  },
+
+  clear: async () => {
+    const db = await openDatabase();
+    const tx = db.transaction([ATTACHMENTS_STORE, ATTACHMENT_DATA_STORE], 'readwrite');
+    tx.objectStore(ATTACHMENTS_STORE).clear();
+    tx.objectStore(ATTACHMENT_DATA_STORE).clear();
+    await transactionDone(tx);
+  }
+};
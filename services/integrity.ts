@@ -0,0 +1,35 @@
+import { Client, Loan, LoanStatus } from '../types';
+
+export interface IntegrityReport {
+  orphanedLoans: Loan[]; // clientId matches no client
+  deletedWithActiveLoans: Client[]; // Deleted clients whose loans are still being collected
+}
+
+// Loans the lender is still collecting. Clients with any of these cannot be archived or deleted.
+export const isLoanOpen = (loan: Loan): boolean => loan.status === LoanStatus.ACTIVE || loan.status === LoanStatus.DEFAULTED;
+
+// Neither archived nor deleted: the client appears in the working lists and can take new loans
+export const isClientActive = (client: Client): boolean => !client.archivedAt && !client.deletedAt;
+
+/**
+ * Looks for references that no longer resolve. Loans are never removed along with their client, so a
+ * loan without a client can only come from older versions, imports or a failed write.
+ */
+export const checkIntegrity = (clients: Client[], loans: Loan[]): IntegrityReport => {
+  const byId = new Map(clients.map(c => [c.id, c]));
+  return {
+    orphanedLoans: loans.filter(l => !byId.has(l.clientId)),
+    deletedWithActiveLoans: clients.filter(c => c.deletedAt && loans.some(l => l.clientId === c.id && isLoanOpen(l)))
+  };
+};
+
+// Placeholder for the owner of orphaned loans when no real client is chosen. Keeps the original id,
+// so the loans are linked again without being rewritten.
+export const buildPlaceholderClient = (clientId: string): Client => ({
+  id: clientId,
+  name: `Cliente recuperado ${clientId.slice(0, 8)}`,
+  dni: '',
+  phone: '',
+  address: '',
+  createdAt: new Date().toISOString()
+});
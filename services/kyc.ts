@@ -0,0 +1,94 @@
+import { Client, DocumentType, Guarantor } from '../types';
+import { parseDate } from '../utils';
+
+const MIN_AGE = 18;
+
+// Weights of the SUNAT check digit, applied to the first ten digits of a RUC
+const RUC_WEIGHTS = [5, 4, 3, 2, 7, 6, 5, 4, 3, 2];
+const RUC_PREFIXES = ['10', '15', '17', '20'];
+
+// Spaces, dots and dashes are often typed in document numbers; letters are kept upper case
+export const normalizeDocument = (value: string): string => value.replace(/[\s.-]/g, '').toUpperCase();
+
+const isValidRuc = (ruc: string): boolean => {
+  if (!/^\d{11}$/.test(ruc) || !RUC_PREFIXES.includes(ruc.slice(0, 2))) return false;
+  const sum = RUC_WEIGHTS.reduce((acc, weight, idx) => acc + weight * Number(ruc[idx]), 0);
+  const digit = (11 - (sum % 11)) % 10; // 11 -> 1 and 10 -> 0
+  return digit === Number(ruc[10]);
+};
+
+// Error message for a malformed document number, or null when it is valid for its type
+export const validateDocument = (type: DocumentType, value: string): string | null => {
+  const number = normalizeDocument(value);
+  if (!number) return 'Ingresa el número de documento.';
+  switch (type) {
+    case DocumentType.DNI:
+      return /^\d{8}$/.test(number) ? null : 'El DNI debe tener 8 dígitos.';
+    case DocumentType.CE:
+      return /^[A-Z0-9]{9,12}$/.test(number) ? null : 'El carné de extranjería debe tener entre 9 y 12 letras o dígitos.';
+    case DocumentType.RUC:
+      return isValidRuc(number) ? null : 'El RUC debe tener 11 dígitos, empezar con 10, 15, 17 o 20 y tener un dígito verificador válido.';
+  }
+};
+
+// Another client (archived and deleted ones included) registered with the same document
+export const findDuplicateDocument = (clients: Client[], client: Client): Client | undefined => {
+  const type = client.documentType || DocumentType.DNI;
+  const number = normalizeDocument(client.dni);
+  return clients.find(c => c.id !== client.id && (c.documentType || DocumentType.DNI) === type && normalizeDocument(c.dni) === number);
+};
+
+const ageOn = (birthDate: Date, today: Date): number => {
+  const age = today.getFullYear() - birthDate.getFullYear();
+  const hadBirthday = today.getMonth() > birthDate.getMonth()
+    || (today.getMonth() === birthDate.getMonth() && today.getDate() >= birthDate.getDate());
+  return hadBirthday ? age : age - 1;
+};
+
+/**
+ * Checks a client before saving: document format and uniqueness, email, age and income.
+ * Returns the first problem found as a message for the form, or null.
+ */
+export const validateClient = (client: Client, others: Client[], today: Date = new Date()): string | null => {
+  const documentError = validateDocument(client.documentType || DocumentType.DNI, client.dni);
+  if (documentError) return documentError;
+
+  const duplicate = findDuplicateDocument(others, client);
+  if (duplicate) {
+    const state = duplicate.deletedAt ? ' (eliminado, puedes reactivarlo)' : duplicate.archivedAt ? ' (archivado, puedes reactivarlo)' : '';
+    return `El documento ${client.dni} ya está registrado a nombre de ${duplicate.name}${state}.`;
+  }
+
+  if (client.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(client.email)) return 'El correo electrónico no es válido.';
+
+  if (client.birthDate) {
+    const birthDate = parseDate(client.birthDate);
+    if (isNaN(birthDate.getTime()) || birthDate > today) return 'La fecha de nacimiento no es válida.';
+    if (ageOn(birthDate, today) < MIN_AGE) return `El cliente debe ser mayor de ${MIN_AGE} años.`;
+  }
+
+  if (client.monthlyIncome !== undefined && !(client.monthlyIncome >= 0)) return 'El ingreso mensual no puede ser negativo.';
+  if (client.creditLimit !== undefined && !(client.creditLimit >= 0)) return 'El límite de crédito no puede ser negativo.';
+
+  if ((client.references || []).some(r => !r.name.trim() || !r.phone.trim())) return 'Cada referencia necesita nombre y teléfono.';
+
+  return null;
+};
+
+// Guarantors of a loan: well-formed documents, no repeats, and never the borrower themselves
+export const validateGuarantors = (guarantors: Guarantor[], borrower?: Client): string | null => {
+  const seen = new Set<string>();
+  for (const guarantor of guarantors) {
+    if (!guarantor.name.trim()) return 'Cada aval necesita un nombre.';
+    const documentError = validateDocument(guarantor.documentType, guarantor.dni);
+    if (documentError) return `Aval ${guarantor.name}: ${documentError}`;
+    const key = `${guarantor.documentType}:${normalizeDocument(guarantor.dni)}`;
+    if (seen.has(key)) return `El aval ${guarantor.name} está repetido.`;
+    seen.add(key);
+    if (borrower && (guarantor.clientId === borrower.id
+      || ((borrower.documentType || DocumentType.DNI) === guarantor.documentType && normalizeDocument(borrower.dni) === normalizeDocument(guarantor.dni)))) {
+      return 'El titular del préstamo no puede ser su propio aval.';
+    }
+  }
+  return null;
+};
@@ -0,0 +1,48 @@
+import { DelinquencyPolicy, InstallmentStatus, Loan, LoanStatus } from '../types';
+import { formatCurrency, getDaysLate, getLoanBalance } from '../utils';
+
+// Statuses derived from the installments. Any other status is set by hand and left untouched.
+const EVALUATED_STATUSES = [LoanStatus.ACTIVE, LoanStatus.DEFAULTED, LoanStatus.COMPLETED];
+
+const classify = (loan: Loan, policy: DelinquencyPolicy, asOf: Date): { status: LoanStatus; reason: string } => {
+  // A loan paid off before its first installment has no installments left but does have a ledger
+  const hasActivity = loan.installments.length > 0 || (loan.payments || []).some(p => !p.reversal);
+  if (hasActivity && loan.installments.every(i => i.status === InstallmentStatus.PAID)) {
+    return { status: LoanStatus.COMPLETED, reason: 'Todas las cuotas pagadas' };
+  }
+
+  const overdue = loan.installments.filter(i => i.status !== InstallmentStatus.PAID && getDaysLate(i.dueDate, asOf) > 0);
+  const maxDaysLate = overdue.reduce((max, i) => Math.max(max, getDaysLate(i.dueDate, asOf)), 0);
+
+  if (policy.daysOverdue > 0 && maxDaysLate >= policy.daysOverdue) {
+    return { status: LoanStatus.DEFAULTED, reason: `${maxDaysLate} días de atraso` };
+  }
+  if (policy.installmentsOverdue > 0 && overdue.length >= policy.installmentsOverdue) {
+    return { status: LoanStatus.DEFAULTED, reason: `${overdue.length} cuotas vencidas` };
+  }
+
+  return {
+    status: LoanStatus.ACTIVE,
+    reason: overdue.length === 0 ? 'Al día' : `Saldo pendiente ${formatCurrency(getLoanBalance(loan))}`
+  };
+};
+
+/**
+ * Reclassifies a loan from its installments and records the transition.
+ * Returns the same object when the status does not change.
+ */
+export const evaluateLoanStatus = (loan: Loan, policy: DelinquencyPolicy, asOf: Date = new Date()): Loan => {
+  if (!EVALUATED_STATUSES.includes(loan.status)) return loan;
+
+  const { status, reason } = classify(loan, policy, asOf);
+  if (status === loan.status) return loan;
+
+  return {
+    ...loan,
+    status,
+    statusHistory: [
+      ...(loan.statusHistory || []),
+      { from: loan.status, to: status, date: asOf.toISOString(), reason }
+    ]
+  };
+};
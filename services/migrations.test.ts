@@ -0,0 +1,257 @@
+import { describe, expect, it } from 'vitest';
+import { ChargeType, InstallmentStatus, InterestType, LoanStatus, LoanType, PaymentMethod, RateBasis, RollConvention, UpfrontChargeMode, ValidationAction } from '../types';
+import { SCHEMA_VERSION, migrateDataSet, parseSchemaVersion } from './migrations';
+import { StorageService, readBackup } from './storage';
+
+// A loan as stored before the payment ledger: payments only lived on the installments
+const v1Loan = () => ({
+  id: 'loan-1',
+  clientId: 'client-1',
+  amount: 1000,
+  interestRate: 10,
+  frequency: 'Mensual',
+  duration: 2,
+  type: LoanType.SIMPLE,
+  startDate: '2024-01-15',
+  status: 'Activo',
+  installments: [
+    { number: 1, dueDate: '2024-02-15', amount: 550, capital: 500, interest: 50, status: InstallmentStatus.PAID, paymentDate: '2024-02-14' },
+    { number: 2, dueDate: '2024-03-15', amount: 550, capital: 500, interest: 50, status: InstallmentStatus.PENDING }
+  ],
+  totalPayable: 1100,
+  totalPaid: 550
+});
+
+const v1Client = { id: 'client-1', name: 'Ana Torres', dni: '12345678', phone: '999111222', address: 'Av. Lima 123', createdAt: '2024-01-01' };
+
+describe('parseSchemaVersion', () => {
+  it('reads the 1.0 string of backups exported before versioning', () => {
+    expect(parseSchemaVersion('1.0')).toBe(1);
+  });
+
+  it('treats unversioned data as v1', () => {
+    expect(parseSchemaVersion(undefined)).toBe(1);
+  });
+
+  it('keeps numeric versions', () => {
+    expect(parseSchemaVersion(3)).toBe(3);
+  });
+});
+
+describe('migrateDataSet', () => {
+  it('rebuilds the ledger of v1 loans from their paid installments', () => {
+    const { loans } = migrateDataSet({ clients: [v1Client], loans: [v1Loan()] }, 1);
+    const [loan] = loans;
+
+    expect(loan.payments).toHaveLength(1);
+    expect(loan.payments[0]).toMatchObject({
+      amount: 550,
+      date: '2024-02-14',
+      allocations: [{ installmentNumber: 1, amount: 550 }]
+    });
+    expect(loan.endDate).toBe('2024-03-15');
+    expect(loan.interestType).toBe(InterestType.PERCENTAGE);
+    expect(loan.statusHistory).toEqual([]);
+  });
+
+  it('falls back to the start date as end date when a v1 loan has no installments', () => {
+    const { loans } = migrateDataSet({ clients: [], loans: [{ ...v1Loan(), installments: [] }] }, 1);
+    expect(loans[0].endDate).toBe('2024-01-15');
+  });
+
+  it('gives v2 loans the native rate basis of their type and no roll', () => {
+    const { loans } = migrateDataSet({
+      clients: [],
+      loans: [
+        { ...v1Loan(), id: 'simple', payments: [], interestType: InterestType.PERCENTAGE },
+        { ...v1Loan(), id: 'french', type: LoanType.FRENCH, payments: [], interestType: InterestType.PERCENTAGE },
+        { ...v1Loan(), id: 'fixed', payments: [], interestType: InterestType.FIXED_AMOUNT },
+        { ...v1Loan(), id: 'set', payments: [], interestType: InterestType.PERCENTAGE, rateBasis: RateBasis.EFFECTIVE_ANNUAL, roll: RollConvention.NEXT }
+      ]
+    }, 2);
+    const byId = Object.fromEntries(loans.map(l => [l.id, l]));
+
+    expect(byId.simple.rateBasis).toBe(RateBasis.TERM);
+    expect(byId.french.rateBasis).toBe(RateBasis.PER_PERIOD);
+    expect(byId.fixed.rateBasis).toBeUndefined();
+    expect(byId.simple.roll).toBe(RollConvention.NONE);
+    expect(byId.set.rateBasis).toBe(RateBasis.EFFECTIVE_ANNUAL);
+    expect(byId.set.roll).toBe(RollConvention.NEXT);
+  });
+
+  it('changes nothing when a 1.0 backup already holds current data', () => {
+    const current = migrateDataSet({ clients: [v1Client], loans: [v1Loan()] }, 1);
+    const again = migrateDataSet(current, parseSchemaVersion('1.0'));
+    expect(again).toEqual(current);
+  });
+
+  it('leaves current data as it is', () => {
+    const current = migrateDataSet({ clients: [v1Client], loans: [v1Loan()] }, 1);
+    expect(migrateDataSet(current, SCHEMA_VERSION)).toEqual(current);
+  });
+
+  it('drops entries that are not records', () => {
+    const { clients, loans } = migrateDataSet({ clients: [null, v1Client, 'x'], loans: [undefined, 42] }, SCHEMA_VERSION);
+    expect(clients).toEqual([v1Client]);
+    expect(loans).toEqual([]);
+  });
+
+  it('rejects data from a newer schema', () => {
+    expect(() => migrateDataSet({ clients: [], loans: [] }, SCHEMA_VERSION + 1)).toThrow(/versión más reciente/);
+  });
+});
+
+describe('backup import', () => {
+  const backup = (version: unknown) => JSON.stringify({ meta: { version }, data: { clients: [v1Client], loans: [v1Loan()] } });
+
+  it('migrates and validates a 1.0 backup', async () => {
+    const result = await StorageService.validateImport(backup('1.0'));
+    expect(result).toMatchObject({ success: true, clients: 1, loans: 1 });
+  });
+
+  it('rejects a backup from a newer schema', async () => {
+    const result = await StorageService.validateImport(backup(SCHEMA_VERSION + 1));
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/versión más reciente/);
+  });
+});
+
+describe('backup validation and sanitization', () => {
+  const read = (version: unknown, clients: any[], loans: any[]) =>
+    readBackup(JSON.stringify({ meta: { version }, data: { clients, loans } }));
+
+  // A loan as written by the current version
+  const v3Loan = () => ({
+    ...v1Loan(),
+    interestType: InterestType.PERCENTAGE,
+    rateBasis: RateBasis.TERM,
+    roll: RollConvention.NONE,
+    endDate: '2024-03-15',
+    statusHistory: [],
+    payments: [{ id: 'p1', amount: 550, date: '2024-02-14T15:00:00.000Z', method: PaymentMethod.CASH, allocations: [{ installmentNumber: 1, amount: 550 }] }]
+  });
+
+  describe('v1', () => {
+    it('repairs clients with a missing name and drops invalid optional fields', async () => {
+      const result = await read('1.0', [{ ...v1Client, name: '', birthDate: 'ayer' }], []);
+      expect(result.success).toBe(true);
+      expect(result.clients![0].name).toBe('Sin Nombre Recuperado');
+      expect(result.clients![0]).not.toHaveProperty('birthDate');
+      expect(result.report!.issues.map(i => [i.path, i.action])).toEqual([
+        ['clients[0].name', ValidationAction.FIXED],
+        ['clients[0].birthDate', ValidationAction.FIXED]
+      ]);
+    });
+
+    it('recomputes installment status from the rebuilt ledger', async () => {
+      const loan = v1Loan();
+      loan.installments[1].status = 'Cobrado' as InstallmentStatus;
+      const result = await read('1.0', [v1Client], [loan]);
+      const [installment1, installment2] = result.loans![0].installments;
+
+      expect(installment1).toMatchObject({ status: InstallmentStatus.PAID, paidAmount: 550, paymentDate: '2024-02-14' });
+      expect(installment2.status).toBe(InstallmentStatus.PENDING);
+      expect(result.loans![0].totalPaid).toBe(550);
+      expect(result.report!.issues).toContainEqual(expect.objectContaining({
+        path: 'loans[0].installments[1].status', action: ValidationAction.FIXED, fix: InstallmentStatus.PENDING
+      }));
+    });
+
+    it('rejects loans without a client and keeps the rest', async () => {
+      const result = await read('1.0', [v1Client], [v1Loan(), { ...v1Loan(), id: 'loan-2', clientId: '' }]);
+      expect(result.loans!.map(l => l.id)).toEqual(['loan-1']);
+      expect(result.report!.rejectedLoans).toBe(1);
+    });
+  });
+
+  describe('v2', () => {
+    it('drops malformed payments and coerces their amounts', async () => {
+      const loan = {
+        ...v1Loan(),
+        interestType: InterestType.PERCENTAGE,
+        endDate: '2024-03-15',
+        payments: [null, { id: 'p1', amount: '550', date: '2024-02-14', allocations: [{ installmentNumber: '1', amount: '550' }] }]
+      };
+      const result = await read(2, [v1Client], [loan]);
+      const [payment] = result.loans![0].payments;
+
+      expect(result.loans![0].payments).toHaveLength(1);
+      expect(payment).toMatchObject({ amount: 550, method: PaymentMethod.CASH, allocations: [{ installmentNumber: 1, amount: 550 }] });
+      expect(result.loans![0].rateBasis).toBe(RateBasis.TERM);
+      expect(result.loans![0].roll).toBe(RollConvention.NONE);
+    });
+
+    it('rejects a loan whose installment capital cannot be trusted', async () => {
+      const loan = { ...v1Loan(), interestType: InterestType.PERCENTAGE, endDate: '2024-03-15', payments: [] };
+      loan.installments[0].capital = -500;
+      const result = await read(2, [v1Client], [loan]);
+      expect(result.success).toBe(true); // The client is still imported
+      expect(result.loans).toEqual([]);
+      expect(result.report!.issues).toContainEqual(expect.objectContaining({
+        path: 'loans[0].installments[0].capital', action: ValidationAction.REJECTED
+      }));
+    });
+  });
+
+  describe('v3', () => {
+    it('keeps valid rate steps and charges and discards the rest', async () => {
+      const loan = {
+        ...v3Loan(),
+        variableRates: { 0: 5, 2: 'x', 3: 7 },
+        charges: [{ name: 'Seguro', type: ChargeType.UPFRONT, value: 10 }, { name: 'Roto', value: 'abc' }]
+      };
+      const result = await read(SCHEMA_VERSION, [v1Client], [loan]);
+      const [sanitized] = result.loans!;
+
+      expect(sanitized.variableRates).toEqual({ 3: 7 });
+      expect(sanitized.charges).toHaveLength(1);
+      expect(sanitized.charges![0]).toMatchObject({ name: 'Seguro', upfrontMode: UpfrontChargeMode.DEDUCTED });
+    });
+
+    it('keeps prepayment and reversal marks, and leaves reversed payments out of the total', async () => {
+      const loan = v3Loan();
+      loan.payments.push(
+        { id: 'p2', amount: 100, date: '2024-02-20T15:00:00.000Z', method: PaymentMethod.CASH, allocations: [{ installmentNumber: 2, amount: 100 }], prepayment: true } as any,
+        { id: 'p3', amount: 50, date: '2024-02-21T15:00:00.000Z', method: PaymentMethod.CASH, allocations: [{ installmentNumber: 2, amount: 50 }], reversal: { date: '2024-02-22', reason: 'Duplicado' } } as any
+      );
+      const result = await read(SCHEMA_VERSION, [v1Client], [loan]);
+      const payments = result.loans![0].payments;
+
+      expect(payments.find(p => p.id === 'p2')!.prepayment).toBe(true);
+      expect(payments.find(p => p.id === 'p3')!.reversal).toEqual({ date: '2024-02-22', reason: 'Duplicado' });
+      expect(result.loans![0].totalPaid).toBe(650);
+    });
+
+    it('drops invalid optional client fields written by later requests', async () => {
+      const client = { ...v1Client, routeOrder: -1, monthlyIncome: 'mucho', zone: 'Centro' };
+      const result = await read(SCHEMA_VERSION, [client], []);
+      expect(result.clients![0]).not.toHaveProperty('routeOrder');
+      expect(result.clients![0]).not.toHaveProperty('monthlyIncome');
+      expect(result.clients![0].zone).toBe('Centro');
+    });
+
+    it('keeps a loan paid off by a prepayment before its first installment', async () => {
+      const loan = {
+        ...v3Loan(),
+        status: LoanStatus.COMPLETED,
+        installments: [],
+        duration: 0,
+        endDate: undefined,
+        payments: [{ id: 'p1', amount: 1000, date: '2024-01-20T15:00:00.000Z', method: PaymentMethod.CASH, allocations: [], prepayment: true }]
+      };
+      const result = await read(SCHEMA_VERSION, [v1Client], [loan]);
+      const [kept] = result.loans!;
+
+      expect(kept).toMatchObject({ installments: [], duration: 0, endDate: '2024-01-20', totalPaid: 1000 });
+      expect(result.report!.rejectedLoans).toBe(0);
+    });
+
+    it('rejects an empty schedule when no prepayment explains it', async () => {
+      const result = await read(SCHEMA_VERSION, [v1Client], [{ ...v3Loan(), installments: [], payments: [] }]);
+      expect(result.loans).toEqual([]);
+      expect(result.report!.issues).toContainEqual(expect.objectContaining({
+        path: 'loans[0].installments', action: ValidationAction.REJECTED
+      }));
+    });
+  });
+});
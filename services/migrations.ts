@@ -0,0 +1,76 @@
+import { InterestType, LoanType, RollConvention } from '../types';
+import { buildLegacyPayments, getDefaultRateBasis } from '../utils';
+
+/**
+ * Version of the stored data and of backup files. Bump it together with a new entry in MIGRATIONS
+ * whenever existing records need a value for a new field or a field changes meaning.
+ */
+export const SCHEMA_VERSION = 3;
+
+// Raw records as read from storage or a backup file, before sanitization
+export interface DataSet {
+  clients: any[];
+  loans: any[];
+}
+
+type Migration = (data: DataSet) => DataSet;
+
+// MIGRATIONS[n] upgrades data from version n to n + 1. Each step must be safe to run twice:
+// backups exported before versioning all say 1.0, whatever their actual shape.
+const MIGRATIONS: Record<number, Migration> = {
+  // v1 -> v2: payment ledger. Payments were only recorded on the installments they paid,
+  // and endDate and interestType did not exist yet.
+  1: data => ({
+    ...data,
+    loans: data.loans.map(l => {
+      const installments = Array.isArray(l.installments) ? l.installments : [];
+      return {
+        ...l,
+        interestType: l.interestType || InterestType.PERCENTAGE,
+        endDate: l.endDate || (installments.length > 0 ? installments[installments.length - 1].dueDate : l.startDate),
+        payments: Array.isArray(l.payments) ? l.payments : buildLegacyPayments(installments),
+        statusHistory: Array.isArray(l.statusHistory) ? l.statusHistory : []
+      };
+    })
+  }),
+
+  // v2 -> v3: explicit loan terms. A rate without a basis was in the native basis of the loan type,
+  // and due dates were never moved off non-working days.
+  2: data => ({
+    ...data,
+    loans: data.loans.map(l => ({
+      ...l,
+      rateBasis: l.interestType === InterestType.FIXED_AMOUNT
+        ? undefined
+        : l.rateBasis || getDefaultRateBasis(l.type || LoanType.SIMPLE),
+      roll: l.roll || RollConvention.NONE
+    }))
+  })
+};
+
+// Accepts the numeric versions written now and the '1.0' string of older backups. Unversioned data is v1.
+export const parseSchemaVersion = (raw: unknown): number => {
+  const version = typeof raw === 'number' ? raw : parseInt(String(raw ?? ''), 10);
+  return Number.isFinite(version) && version >= 1 ? Math.floor(version) : 1;
+};
+
+export const isFutureSchema = (version: number): boolean => version > SCHEMA_VERSION;
+
+/**
+ * Runs every migration from the given version up to SCHEMA_VERSION.
+ * Data written by a newer version of the app cannot be downgraded and is rejected.
+ */
+export const migrateDataSet = (data: DataSet, fromVersion: number): DataSet => {
+  if (isFutureSchema(fromVersion)) {
+    throw new Error(`Los datos pertenecen a una versión más reciente de LenderPro (esquema v${fromVersion}, esta versión usa v${SCHEMA_VERSION}).`);
+  }
+
+  let migrated: DataSet = {
+    clients: data.clients.filter(c => c && typeof c === 'object'),
+    loans: data.loans.filter(l => l && typeof l === 'object')
+  };
+  for (let version = fromVersion; version < SCHEMA_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated);
+  }
+  return migrated;
+};
@@ -0,0 +1,41 @@
+import { Installment, InstallmentStatus, Loan, LoanStatus, PenaltyPolicy } from '../types';
+import { applyPaymentLedger, getDaysLate } from '../utils';
+
+/**
+ * Late-payment charge (mora) for one installment as of the given date.
+ * Days inside the grace period are free; once it is over the flat fee applies
+ * plus the daily rate over the installment amount for every day late.
+ */
+export const calculatePenalty = (inst: Installment, policy: PenaltyPolicy, asOf: Date): number => {
+  if (!policy.enabled) return 0;
+
+  const daysLate = getDaysLate(inst.dueDate, asOf);
+  if (daysLate <= policy.graceDays) return 0;
+
+  const chargeableDays = daysLate - policy.graceDays;
+  let penalty = policy.flatFee + inst.amount * (policy.dailyRate / 100) * chargeableDays;
+
+  if (policy.capPercent > 0) {
+    penalty = Math.min(penalty, inst.amount * (policy.capPercent / 100));
+  }
+
+  return Math.round(penalty * 100) / 100;
+};
+
+/**
+ * Accrues penalties on every installment whose quota is still owed.
+ * Once the quota itself is covered the penalty is frozen, so settled installments
+ * keep the charge they were collected with.
+ */
+export const accruePenalties = (loan: Loan, policy: PenaltyPolicy, asOf: Date = new Date()): Loan => {
+  // Its balance now lives in the loan that replaced it, or was cancelled
+  if (loan.status === LoanStatus.REFINANCED || loan.status === LoanStatus.ANNULLED) return loan;
+
+  const installments = loan.installments.map(inst => {
+    if (inst.status === InstallmentStatus.PAID) return inst;
+    if ((inst.paidAmount || 0) >= inst.amount) return inst;
+    return { ...inst, penalty: calculatePenalty(inst, policy, asOf) };
+  });
+
+  return applyPaymentLedger({ ...loan, installments });
+};
@@ -0,0 +1,115 @@
+import { Installment, InstallmentStatus, InterestType, Loan, LoanType, PrepaymentMode } from '../types';
+import { applyRecurringCharges, calculateSchedule, getFinancedAmount, parseDate, toISODate, toPeriodRates } from '../utils';
+
+export interface PrepaymentQuote {
+  outstandingCapital: number; // Amount that cancels the loan
+  appliedAmount: number;
+  installments: Installment[]; // Full schedule after the prepayment
+  newQuota: number;
+  newDuration: number; // Remaining installments after the prepayment
+  interestSaved: number;
+  error?: string;
+}
+
+/**
+ * Quotes an extra capital payment on the installments still pending.
+ * The remaining capital is re-amortized with calculateSchedule, either keeping the
+ * number of installments (lower quota) or keeping the quota (fewer installments).
+ * Recurring charges are recalculated on the new schedule.
+ * Due or partially paid installments must be settled first.
+ */
+export const quotePrepayment = (loan: Loan, amount: number, date: string, mode: PrepaymentMode): PrepaymentQuote => {
+  const settled = loan.installments.filter(i => i.status === InstallmentStatus.PAID);
+  const remaining = loan.installments.filter(i => i.status !== InstallmentStatus.PAID);
+
+  const outstandingCapital = remaining.reduce((acc, i) => acc + i.capital, 0);
+  const remainingInterest = remaining.reduce((acc, i) => acc + i.interest, 0);
+
+  const quote: PrepaymentQuote = {
+    outstandingCapital,
+    appliedAmount: 0,
+    installments: loan.installments,
+    newQuota: remaining[0]?.amount || 0,
+    newDuration: remaining.length,
+    interestSaved: 0
+  };
+
+  if (remaining.length === 0) return { ...quote, error: 'El préstamo no tiene cuotas pendientes.' };
+  if (!(amount > 0)) return { ...quote, error: 'Ingresa un monto mayor a cero.' };
+  if (remaining.some(i => i.status === InstallmentStatus.PARTIAL)) {
+    return { ...quote, error: 'Hay cuotas con pago parcial. Complétalas antes de prepagar capital.' };
+  }
+  if (remaining.some(i => toISODate(parseDate(i.dueDate)) <= date)) {
+    return { ...quote, error: 'Hay cuotas vencidas o que vencen en esa fecha. Regístralas como pago primero.' };
+  }
+
+  const appliedAmount = Math.min(amount, outstandingCapital);
+  const newCapital = outstandingCapital - appliedAmount;
+  const firstNumber = remaining[0].number;
+
+  // Full payoff: nothing left to amortize
+  if (newCapital < 0.01) {
+    return {
+      ...quote,
+      appliedAmount,
+      installments: settled,
+      newQuota: 0,
+      newDuration: 0,
+      interestSaved: remainingInterest
+    };
+  }
+
+  // Amortizing systems charge interest on the remaining capital, so the rate in effect comes straight from the schedule.
+  // Later rate steps are re-based so step "from installment k" keeps pointing at the same installment.
+  const amortizing = loan.type !== LoanType.SIMPLE;
+  const currentRate = outstandingCapital > 0 ? (remaining[0].interest / outstandingCapital) * 100 : 0;
+  const steps = loan.interestType === InterestType.FIXED_AMOUNT && amortizing
+    ? toPeriodRates(getFinancedAmount(loan.amount, loan.charges), loan.interestRate, loan.duration, loan.type, loan.variableRates).variableRates
+    : loan.variableRates;
+  const futureRates: { [installmentNumber: number]: number } = {};
+  Object.entries(steps || {}).forEach(([key, rate]) => {
+    if (Number(key) > firstNumber) futureRates[Number(key) - firstNumber + 1] = rate;
+  });
+
+  let newDuration = remaining.length;
+  if (mode === PrepaymentMode.SHORTEN_TERM) {
+    const currentQuota = remaining[0].amount - (remaining[0].charges || 0);
+    const i = currentRate / 100;
+    if (loan.type === LoanType.FRENCH && i > 0) {
+      // Solve the French annuity for n keeping the current quota
+      newDuration = Math.ceil(-Math.log(1 - (newCapital * i) / currentQuota) / Math.log(1 + i));
+    } else {
+      // Bullet loans (American) amortize nothing until the end, so their term cannot shrink
+      newDuration = remaining[0].capital > 0 ? Math.ceil(newCapital / remaining[0].capital) : remaining.length;
+    }
+    newDuration = Math.max(1, Math.min(remaining.length, newDuration || remaining.length));
+  }
+
+  // Anchor the new schedule on the last settled due date so the periods line up with the original ones
+  const anchor = settled.length > 0 ? settled[settled.length - 1].dueDate : loan.startDate;
+
+  let schedule: Installment[];
+  if (amortizing) {
+    schedule = calculateSchedule(newCapital, currentRate, InterestType.PERCENTAGE, loan.frequency, newDuration, loan.type, anchor, futureRates);
+  } else {
+    // Flat interest: keep the same charge per period and per unit of capital
+    const interestTotal = remainingInterest * (newCapital / outstandingCapital) * (newDuration / remaining.length);
+    schedule = calculateSchedule(newCapital, interestTotal, InterestType.FIXED_AMOUNT, loan.frequency, newDuration, LoanType.SIMPLE, anchor);
+  }
+
+  // Recurring charges follow the new balance (percentage charges shrink with it)
+  const rebuilt = applyRecurringCharges(schedule, loan.charges).map((inst, idx) => ({
+    ...inst,
+    number: firstNumber + idx,
+    dueDate: remaining[idx]?.dueDate || inst.dueDate
+  }));
+
+  return {
+    ...quote,
+    appliedAmount,
+    installments: [...settled, ...rebuilt],
+    newQuota: rebuilt[0]?.amount || 0,
+    newDuration: rebuilt.length,
+    interestSaved: remainingInterest - rebuilt.reduce((acc, i) => acc + i.interest, 0)
+  };
+};
@@ -0,0 +1,46 @@
+import { InstallmentStatus, Loan } from '../types';
+import { getInstallmentBalance, parseDate, toISODate } from '../utils';
+
+export interface RefinanceQuote {
+  capital: number;
+  interest: number;
+  charges: number;
+  penalty: number;
+  total: number;
+}
+
+/**
+ * Balance carried into a new loan when restructuring.
+ * Installments due by the given date are carried in full (capital, interest, charges and penalty still owed);
+ * future installments only carry their capital, since that interest and those charges have not been earned yet.
+ * Partial payments are applied to penalty first, then charges, then interest, then capital.
+ */
+export const quoteRefinance = (loan: Loan, date: string): RefinanceQuote => {
+  const quote: RefinanceQuote = { capital: 0, interest: 0, charges: 0, penalty: 0, total: 0 };
+
+  loan.installments
+    .filter(i => i.status !== InstallmentStatus.PAID && getInstallmentBalance(i) > 0)
+    .forEach(inst => {
+      let paid = inst.paidAmount || 0;
+      const take = (owed: number) => {
+        const covered = Math.min(owed, paid);
+        paid -= covered;
+        return owed - covered;
+      };
+
+      const penalty = take(inst.penalty || 0);
+      const charges = take(inst.charges || 0);
+      const interest = take(inst.interest);
+      const capital = take(inst.capital);
+
+      quote.capital += capital;
+      if (toISODate(parseDate(inst.dueDate)) <= date) {
+        quote.interest += interest;
+        quote.charges += charges;
+        quote.penalty += penalty;
+      }
+    });
+
+  quote.total = quote.capital + quote.interest + quote.charges + quote.penalty;
+  return quote;
+};
@@ -0,0 +1,50 @@
+import { Attachment, AuditEntry, Client, Loan, LoanStatus, Snapshot } from '../types';
+
+// Persistence contract used by StorageService. Records are written one at a time,
+// so saving a loan never rewrites the whole portfolio.
+export interface Repository<T extends { id: string }> {
+  getAll(): Promise<T[]>;
+  get(id: string): Promise<T | undefined>;
+  put(record: T): Promise<void>;
+  putMany(records: T[]): Promise<void>; // Single transaction: all records are written or none
+  replaceAll(records: T[]): Promise<void>; // Clears the store and writes the records in one transaction
+  clear(): Promise<void>;
+}
+
+export type ClientRepository = Repository<Client>;
+
+export interface LoanRepository extends Repository<Loan> {
+  getByClient(clientId: string): Promise<Loan[]>;
+  getByStatus(status: LoanStatus): Promise<Loan[]>;
+  // Open loans with an unpaid installment due between the two dates (YYYY-MM-DD, inclusive)
+  getByDueDate(from: string, to: string): Promise<Loan[]>;
+}
+
+// Key/value records about the stored data itself, such as its schema version
+export interface MetaRepository {
+  get(key: string): Promise<unknown>;
+  set(key: string, value: unknown): Promise<void>;
+}
+
+// Restore points. Listing reads only the metadata; the backup JSON is loaded when restoring.
+export interface SnapshotRepository {
+  list(): Promise<Snapshot[]>; // Newest first
+  getPayload(id: string): Promise<string | undefined>;
+  save(snapshot: Snapshot, payload: string): Promise<void>; // Metadata and payload in one transaction
+  remove(ids: string[]): Promise<void>;
+}
+
+// Audit trail. There is deliberately no way to change or remove an entry once appended.
+export interface AuditRepository {
+  append(entries: AuditEntry[]): Promise<void>;
+  list(filter?: { clientId?: string; loanId?: string }): Promise<AuditEntry[]>; // Newest first
+}
+
+// Client files. Listing reads only the metadata; the Blob is loaded when the file is opened.
+export interface AttachmentRepository {
+  listByClient(clientId: string): Promise<Attachment[]>; // Newest first
+  getContent(id: string): Promise<Blob | undefined>;
+  save(attachment: Attachment, content: Blob): Promise<void>; // Metadata and content in one transaction
+  remove(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
@@ -0,0 +1,99 @@
+import { CreditGrade, InstallmentStatus, Loan, LoanStatus } from '../types';
+import { getDaysLate, parseDate } from '../utils';
+import { getClientExposure } from './creditLimits';
+
+export interface CreditScore {
+  grade: CreditGrade | null; // null while the client has no installment due yet
+  points: number; // 0-100
+  onTimeRate: number | null; // Share of due installments paid by their due date (0-1)
+  averageDaysLate: number; // Over the due installments
+  maxDaysLate: number;
+  dueInstallments: number; // Installments the metrics are based on
+  completedLoans: number;
+  exposure: number; // Balance still owed on open loans
+  hasDefaultedLoan: boolean;
+  suggestedLimit: number | null; // Largest new loan the history supports, after the current exposure
+}
+
+// Points needed for each grade, best first
+const GRADE_THRESHOLDS: [CreditGrade, number][] = [
+  [CreditGrade.A, 85],
+  [CreditGrade.B, 70],
+  [CreditGrade.C, 55],
+  [CreditGrade.D, 40],
+  [CreditGrade.E, 0]
+];
+
+// Multiple of the largest loan repaid so far that each grade supports
+const LIMIT_MULTIPLIERS: Record<CreditGrade, number> = {
+  [CreditGrade.A]: 1.5,
+  [CreditGrade.B]: 1.2,
+  [CreditGrade.C]: 1,
+  [CreditGrade.D]: 0.5,
+  [CreditGrade.E]: 0
+};
+
+export const GRADE_DESCRIPTIONS: Record<CreditGrade, string> = {
+  [CreditGrade.A]: 'Excelente pagador',
+  [CreditGrade.B]: 'Buen pagador',
+  [CreditGrade.C]: 'Pagador regular',
+  [CreditGrade.D]: 'Atrasos frecuentes',
+  [CreditGrade.E]: 'Alto riesgo'
+};
+
+// Installments that say something about the client's behaviour, with the days each one was (or is) late.
+// Annulled loans are left out; refinanced ones only count what was paid before the balance was carried over.
+const getTrackRecord = (loans: Loan[], asOf: Date): number[] => loans
+  .filter(l => l.status !== LoanStatus.ANNULLED)
+  .flatMap(l => l.installments
+    .filter(i => i.status === InstallmentStatus.PAID
+      ? true
+      : l.status !== LoanStatus.REFINANCED && getDaysLate(i.dueDate, asOf) > 0)
+    .map(i => i.status === InstallmentStatus.PAID
+      ? getDaysLate(i.dueDate, i.paymentDate ? parseDate(i.paymentDate) : asOf)
+      : getDaysLate(i.dueDate, asOf)));
+
+/**
+ * Scores a client from the repayment history of their loans. Punctuality weighs the most (50 points),
+ * then average and worst delay (20 and 15) and the number of loans fully repaid (15, capped at three).
+ * A loan currently in default caps the grade at D.
+ */
+export const scoreClient = (loans: Loan[], asOf: Date = new Date()): CreditScore => {
+  const daysLate = getTrackRecord(loans, asOf);
+  const completed = loans.filter(l => l.status === LoanStatus.COMPLETED);
+  const exposure = getClientExposure(loans);
+  const hasDefaultedLoan = loans.some(l => l.status === LoanStatus.DEFAULTED);
+
+  const base = { completedLoans: completed.length, exposure, hasDefaultedLoan, dueInstallments: daysLate.length };
+  if (daysLate.length === 0) {
+    return { ...base, grade: null, points: 0, onTimeRate: null, averageDaysLate: 0, maxDaysLate: 0, suggestedLimit: null };
+  }
+
+  const onTimeRate = daysLate.filter(d => d === 0).length / daysLate.length;
+  const averageDaysLate = daysLate.reduce((acc, d) => acc + d, 0) / daysLate.length;
+  const maxDaysLate = Math.max(...daysLate);
+
+  const points = Math.round(
+    50 * onTimeRate
+    + 20 * Math.max(0, 1 - averageDaysLate / 30)
+    + 15 * Math.max(0, 1 - maxDaysLate / 90)
+    + 15 * Math.min(1, completed.length / 3)
+  );
+
+  let grade = GRADE_THRESHOLDS.find(([, min]) => points >= min)![0];
+  const grades = Object.values(CreditGrade);
+  if (hasDefaultedLoan && grades.indexOf(grade) < grades.indexOf(CreditGrade.D)) grade = CreditGrade.D;
+
+  // Without a repaid loan there is no amount the history vouches for yet
+  const largestRepaid = completed.reduce((max, l) => Math.max(max, l.amount), 0);
+  const suggestedLimit = largestRepaid > 0 ? Math.max(0, largestRepaid * LIMIT_MULTIPLIERS[grade] - exposure) : null;
+
+  return { ...base, grade, points, onTimeRate, averageDaysLate, maxDaysLate, suggestedLimit };
+};
+
+// Scores every client at once, keyed by client id
+export const scoreClients = (loans: Loan[], asOf: Date = new Date()): Record<string, CreditScore> => {
+  const byClient = new Map<string, Loan[]>();
+  loans.forEach(l => byClient.set(l.clientId, [...(byClient.get(l.clientId) || []), l]));
+  return Object.fromEntries(Array.from(byClient.entries()).map(([clientId, own]) => [clientId, scoreClient(own, asOf)]));
+};
@@ -0,0 +1,19 @@
+import { Snapshot, SnapshotPolicy, SnapshotReason } from '../types';
+import { toISODate } from '../utils';
+
+/**
+ * Ids of the snapshots the retention policy no longer keeps: only the newest keepDaily daily
+ * snapshots and the newest keepOther of the rest (imports, resets, restores, manual) survive.
+ */
+export const getExpiredSnapshots = (snapshots: Snapshot[], policy: SnapshotPolicy): string[] => {
+  const newestFirst = [...snapshots].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const daily = newestFirst.filter(s => s.reason === SnapshotReason.DAILY);
+  const other = newestFirst.filter(s => s.reason !== SnapshotReason.DAILY);
+  return [...daily.slice(policy.keepDaily), ...other.slice(policy.keepOther)].map(s => s.id);
+};
+
+// Whether today's daily snapshot (by local date) is still missing
+export const isDailySnapshotDue = (snapshots: Snapshot[], now: Date = new Date()): boolean => {
+  const today = toISODate(now);
+  return !snapshots.some(s => s.reason === SnapshotReason.DAILY && toISODate(new Date(s.createdAt)) === today);
+};
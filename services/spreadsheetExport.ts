@@ -0,0 +1,173 @@
+import { Client, DocumentType, ExportDataset, ExportFormat, InstallmentStatus, Loan, LoanStatus } from '../types';
+import { getDisbursedAmount, getInstallmentBalance, getInstallmentStatus, getLoanBalance, getLoanTCEA, toISODate } from '../utils';
+import { XlsxCell, XlsxSheet, writeXlsx } from './xlsx';
+import { scoreClient } from './scoring';
+
+export interface ExportFilter {
+  status: LoanStatus | 'ALL';
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;
+}
+
+const day = (date?: string) => (date || '').split('T')[0];
+const date = (value?: string): XlsxCell => value ? { date: day(value) } : null;
+
+const inRange = (value: string | undefined, filter: ExportFilter): boolean => {
+  const d = day(value);
+  if (!d) return !filter.from && !filter.to;
+  return (!filter.from || d >= filter.from) && (!filter.to || d <= filter.to);
+};
+
+// The date each dataset is filtered by: registration, start, due date or payment date
+const buildClients = (clients: Client[], loans: Loan[], filter: ExportFilter): XlsxSheet => {
+  const rows = clients
+    .filter(c => inRange(c.createdAt, filter))
+    .map(c => ({ client: c, loans: loans.filter(l => l.clientId === c.id) }))
+    // With a status filter, only clients that have a loan in that status
+    .filter(({ loans: own }) => filter.status === 'ALL' || own.some(l => l.status === filter.status))
+    .map(({ client, loans: own }): XlsxCell[] => [
+      client.name, client.documentType || DocumentType.DNI, client.dni, client.phone, client.address,
+      client.email || '', date(client.birthDate), client.occupation || '', client.monthlyIncome ?? null,
+      client.zone || '', client.collector || '', date(client.createdAt),
+      client.deletedAt ? 'Eliminado' : client.archivedAt ? 'Archivado' : 'Activo',
+      scoreClient(own).grade || '',
+      own.filter(l => l.status === LoanStatus.ACTIVE || l.status === LoanStatus.DEFAULTED).length,
+      own.reduce((acc, l) => acc + getLoanBalance(l), 0),
+      client.id
+    ]);
+
+  return {
+    name: ExportDataset.CLIENTS,
+    columns: [
+      { header: 'Nombre', width: 30 }, { header: 'Tipo de documento' }, { header: 'DNI' }, { header: 'Teléfono' }, { header: 'Dirección', width: 30 },
+      { header: 'Correo', width: 24 }, { header: 'Nacimiento' }, { header: 'Ocupación', width: 18 }, { header: 'Ingreso mensual', format: 'decimal' },
+      { header: 'Zona', width: 18 }, { header: 'Cobrador', width: 18 }, { header: 'Registrado' }, { header: 'Estado' }, { header: 'Calificación' }, { header: 'Préstamos vigentes', format: 'integer' }, { header: 'Saldo total', format: 'decimal' },
+      { header: 'ID Cliente' }
+    ],
+    rows
+  };
+};
+
+const buildLoans = (loans: Loan[], clientOf: (l: Loan) => Client | undefined, filter: ExportFilter): XlsxSheet => ({
+  name: ExportDataset.LOANS,
+  columns: [
+    { header: 'Cliente', width: 30 }, { header: 'DNI' }, { header: 'Estado' }, { header: 'Tipo', width: 18 },
+    { header: 'Monto', format: 'decimal' }, { header: 'Desembolso neto', format: 'decimal' },
+    { header: 'Tasa', format: 'decimal' }, { header: 'Tipo de interés' }, { header: 'Base de tasa', width: 18 },
+    { header: 'Frecuencia' }, { header: 'Cuotas', format: 'integer' }, { header: 'Inicio' }, { header: 'Fin' },
+    { header: 'Total a pagar', format: 'decimal' }, { header: 'Pagado', format: 'decimal' }, { header: 'Saldo', format: 'decimal' },
+    { header: 'Cuotas pagadas', format: 'integer' }, { header: 'Cuotas vencidas', format: 'integer' },
+    { header: 'Mora acumulada', format: 'decimal' }, { header: 'TCEA', format: 'percent' }, { header: 'ID Préstamo' }
+  ],
+  rows: loans
+    .filter(l => inRange(l.startDate, filter))
+    .map((l): XlsxCell[] => [
+      clientOf(l)?.name || 'Cliente Eliminado', clientOf(l)?.dni || '', l.status, l.type,
+      l.amount, getDisbursedAmount(l),
+      l.interestRate, l.interestType, l.rateBasis || '',
+      l.frequency, l.duration, date(l.startDate), date(l.endDate),
+      l.totalPayable, l.totalPaid, getLoanBalance(l),
+      l.installments.filter(i => i.status === InstallmentStatus.PAID).length,
+      l.installments.filter(i => getInstallmentStatus(i) === InstallmentStatus.LATE).length,
+      l.installments.reduce((acc, i) => acc + (i.penalty || 0), 0), getLoanTCEA(l), l.id
+    ])
+});
+
+const buildSchedules = (loans: Loan[], clientOf: (l: Loan) => Client | undefined, filter: ExportFilter): XlsxSheet => ({
+  name: ExportDataset.SCHEDULES,
+  columns: [
+    { header: 'Cliente', width: 30 }, { header: 'DNI' }, { header: 'Estado préstamo' }, { header: 'N° Cuota', format: 'integer' },
+    { header: 'Vencimiento' }, { header: 'Capital', format: 'decimal' }, { header: 'Interés', format: 'decimal' },
+    { header: 'Cargos', format: 'decimal' }, { header: 'Cuota', format: 'decimal' }, { header: 'Mora', format: 'decimal' },
+    { header: 'Pagado', format: 'decimal' }, { header: 'Saldo', format: 'decimal' }, { header: 'Estado cuota' },
+    { header: 'Fecha de pago' }, { header: 'ID Préstamo' }
+  ],
+  rows: loans.flatMap(l => l.installments
+    .filter(i => inRange(i.dueDate, filter))
+    .map((i): XlsxCell[] => [
+      clientOf(l)?.name || 'Cliente Eliminado', clientOf(l)?.dni || '', l.status, i.number,
+      date(i.dueDate), i.capital, i.interest,
+      i.charges || 0, i.amount, i.penalty || 0,
+      i.paidAmount || 0, getInstallmentBalance(i), getInstallmentStatus(i),
+      date(i.paymentDate), l.id
+    ]))
+});
+
+const buildPayments = (loans: Loan[], clientOf: (l: Loan) => Client | undefined, filter: ExportFilter): XlsxSheet => ({
+  name: ExportDataset.PAYMENTS,
+  columns: [
+    { header: 'Fecha' }, { header: 'Cliente', width: 30 }, { header: 'DNI' }, { header: 'Monto', format: 'decimal' },
+    { header: 'Método' }, { header: 'Cobrador' }, { header: 'Cuotas aplicadas' }, { header: 'Prepago' },
+    { header: 'Nota', width: 30 }, { header: 'Revertido' }, { header: 'Motivo de reversión', width: 30 },
+    { header: 'ID Préstamo' }, { header: 'ID Pago' }
+  ],
+  rows: loans
+    .flatMap(l => (l.payments || []).map(p => ({ loan: l, payment: p })))
+    .filter(({ payment }) => inRange(payment.date, filter))
+    .sort((a, b) => day(a.payment.date).localeCompare(day(b.payment.date)))
+    .map(({ loan, payment }): XlsxCell[] => [
+      date(payment.date), clientOf(loan)?.name || 'Cliente Eliminado', clientOf(loan)?.dni || '', payment.amount,
+      payment.method, payment.collector || '', payment.allocations.map(a => a.installmentNumber).join(', '), payment.prepayment ? 'Sí' : 'No',
+      payment.note || '', payment.reversal ? 'Sí' : 'No', payment.reversal?.reason || '', loan.id, payment.id
+    ])
+});
+
+/**
+ * One flat table of the portfolio. Loans are filtered by status; the date range applies to the date
+ * that defines each row (client registration, loan start, installment due date, payment date).
+ */
+export const buildExportTable = (dataset: ExportDataset, clients: Client[], loans: Loan[], filter: ExportFilter): XlsxSheet => {
+  const byId = new Map(clients.map(c => [c.id, c]));
+  const clientOf = (l: Loan) => byId.get(l.clientId);
+  const filtered = loans.filter(l => filter.status === 'ALL' || l.status === filter.status);
+
+  switch (dataset) {
+    case ExportDataset.CLIENTS: return buildClients(clients, loans, filter);
+    case ExportDataset.LOANS: return buildLoans(filtered, clientOf, filter);
+    case ExportDataset.SCHEDULES: return buildSchedules(filtered, clientOf, filter);
+    case ExportDataset.PAYMENTS: return buildPayments(filtered, clientOf, filter);
+  }
+};
+
+const formatCsvCell = (value: XlsxCell, format?: XlsxSheet['columns'][number]['format']): string => {
+  if (value === null) return '';
+  if (typeof value === 'object') {
+    const [y, m, d] = value.date.split('-');
+    return `${d}/${m}/${y}`;
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return '';
+    return format === 'integer' ? String(Math.round(value)) : value.toFixed(2).replace('.', ',');
+  }
+  return /[;"\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * CSV as Excel expects it in Spanish locales: ';' between fields, decimal comma, DD/MM/YYYY dates,
+ * CRLF line ends and a UTF-8 byte order mark so accents are read correctly.
+ */
+export const toCsv = (table: XlsxSheet): string => {
+  const lines = [
+    table.columns.map(c => formatCsvCell(c.header)).join(';'),
+    ...table.rows.map(row => row.map((value, i) => formatCsvCell(value, table.columns[i]?.format)).join(';'))
+  ];
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+};
+
+export const exportTableFile = (table: XlsxSheet, format: ExportFormat): { blob: Blob; fileName: string } => {
+  const base = `lenderpro_${table.name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()}_${toISODate(new Date())}`;
+  return format === ExportFormat.CSV
+    ? { blob: new Blob([toCsv(table)], { type: 'text/csv;charset=utf-8' }), fileName: `${base}.csv` }
+    : { blob: writeXlsx([table]), fileName: `${base}.xlsx` };
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,368 @@
+import { BusinessCalendar, Client, DocumentType, Frequency, InterestType, Loan, LoanStatus, LoanType, Payment, PaymentMethod, RateBasis } from '../types';
+import { applyPaymentLedger, calculateSchedule, getScheduleRates } from '../utils';
+import { normalizeDocument, validateClient } from './kyc';
+
+export type SpreadsheetField =
+  | 'name' | 'dni' | 'phone' | 'address'
+  | 'amount' | 'interestRate' | 'frequency' | 'startDate' | 'duration' | 'paidInstallments';
+
+// A sheet cell: text from CSV files, and also numbers from numeric .xlsx cells (see readXlsxRows)
+export type SheetCell = string | number;
+
+// Column index of each field in the sheet; unmapped fields are not imported
+export type ColumnMapping = Partial<Record<SpreadsheetField, number>>;
+
+export const SPREADSHEET_FIELDS: { field: SpreadsheetField; label: string; group: 'client' | 'loan' }[] = [
+  { field: 'name', label: 'Nombre', group: 'client' },
+  { field: 'dni', label: 'DNI', group: 'client' },
+  { field: 'phone', label: 'Teléfono', group: 'client' },
+  { field: 'address', label: 'Dirección', group: 'client' },
+  { field: 'amount', label: 'Monto', group: 'loan' },
+  { field: 'interestRate', label: 'Tasa (%)', group: 'loan' },
+  { field: 'frequency', label: 'Frecuencia', group: 'loan' },
+  { field: 'startDate', label: 'Fecha de inicio', group: 'loan' },
+  { field: 'duration', label: 'N° de cuotas', group: 'loan' },
+  { field: 'paidInstallments', label: 'Cuotas pagadas', group: 'loan' }
+];
+
+// Header spellings found in lenders' spreadsheets, already normalized (see normalizeText)
+const HEADER_SYNONYMS: Record<SpreadsheetField, string[]> = {
+  name: ['nombre', 'nombres', 'cliente', 'nombre completo', 'apellidos y nombres', 'nombres y apellidos', 'razon social'],
+  dni: ['dni', 'documento', 'doc', 'nro documento', 'n documento', 'ruc', 'ce'],
+  phone: ['telefono', 'celular', 'cel', 'movil', 'tel', 'whatsapp'],
+  address: ['direccion', 'domicilio'],
+  amount: ['monto', 'capital', 'prestamo', 'importe', 'monto prestado', 'monto del prestamo'],
+  interestRate: ['tasa', 'interes', 'tasa de interes', 'tasa interes'],
+  frequency: ['frecuencia', 'periodicidad', 'modalidad', 'forma de pago'],
+  startDate: ['fecha', 'fecha inicio', 'fecha de inicio', 'inicio', 'desembolso', 'fecha desembolso', 'fecha de desembolso'],
+  duration: ['cuotas', 'plazo', 'n cuotas', 'nro cuotas', 'numero de cuotas', 'total cuotas'],
+  paidInstallments: ['cuotas pagadas', 'pagadas', 'cuotas canceladas', 'pagos realizados']
+};
+
+// More specific fields claim their columns first: "cuotas pagadas" also contains "cuotas"
+const MATCH_ORDER: SpreadsheetField[] = ['paidInstallments', 'startDate', 'interestRate', 'duration', 'amount', 'frequency', 'dni', 'phone', 'address', 'name'];
+
+export interface SpreadsheetImportOptions {
+  loanType: LoanType;
+  rateBasis: RateBasis; // How the rates in the sheet are expressed
+  defaultFrequency: Frequency; // When the column is unmapped or empty
+  defaultDuration: number;
+  calendar: BusinessCalendar;
+}
+
+export interface SpreadsheetRowError {
+  row: number; // As numbered in the spreadsheet (the header is row 1)
+  message: string;
+}
+
+export interface SpreadsheetImportResult {
+  clients: Client[]; // New clients only
+  loans: Loan[];
+  errors: SpreadsheetRowError[];
+  linkedClients: number; // Rows matched by DNI to a client that already exists
+}
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+export const normalizeText = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9%]+/g, ' ').trim();
+
+// --- Parsing ---
+
+/**
+ * Splits CSV text into rows. Handles quoted fields with embedded separators, quotes and line breaks.
+ * The separator is detected from the first line: Excel in Spanish writes ';' because ',' is taken by decimals.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const firstLine = input.split(/\r?\n/, 1)[0] || '';
+  const separator = [';', '\t', ','].reduce((best, sep) =>
+    firstLine.split(sep).length > firstLine.split(best).length ? sep : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === separator) {
+      row.push(field.trim()); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field.trim()); field = '';
+      rows.push(row); row = [];
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) { row.push(field.trim()); rows.push(row); }
+
+  while (rows.length > 0 && rows[rows.length - 1].every(c => !c)) rows.pop();
+  return rows;
+};
+
+/**
+ * Reads amounts and rates as written in Peru: "S/ 1,250.50", "1.250,50", "1 250", "12%".
+ * When only one kind of separator appears once, it is a thousands separator if exactly three digits
+ * follow it ("1,500" or "1.500"), and a decimal point otherwise ("12,5").
+ */
+export const parseLocaleNumber = (raw: string): number | undefined => {
+  let s = raw.replace(/s\/\.?|pen|us\$|\$|%|\s|\u00a0/gi, '');
+  const negative = /^-|^\(.*\)$/.test(s);
+  s = s.replace(/[()+-]/g, '');
+  if (!s) return undefined;
+
+  const lastComma = s.lastIndexOf(',');
+  const lastDot = s.lastIndexOf('.');
+  let decimal: string | null = null;
+
+  if (lastComma >= 0 && lastDot >= 0) {
+    decimal = lastComma > lastDot ? ',' : '.';
+  } else if (lastComma >= 0 || lastDot >= 0) {
+    const sep = lastComma >= 0 ? ',' : '.';
+    const occurrences = s.split(sep).length - 1;
+    const [integerPart, fraction] = [s.slice(0, s.lastIndexOf(sep)), s.slice(s.lastIndexOf(sep) + 1)];
+    const looksLikeThousands = fraction.length === 3 && integerPart !== '0' && integerPart !== '';
+    decimal = occurrences === 1 && !looksLikeThousands ? sep : null;
+  }
+
+  const thousands = decimal === ',' ? '.' : decimal === '.' ? ',' : /[.,]/;
+  let normalized = s.split(thousands).join('');
+  if (decimal) normalized = normalized.replace(decimal, '.');
+  if (!/^\d*\.?\d+$/.test(normalized)) return undefined;
+
+  const value = Number(normalized);
+  return negative ? -value : value;
+};
+
+// Numeric cells already hold the value; only text goes through the locale heuristics
+const readNumber = (value: SheetCell): number | undefined =>
+  typeof value === 'number' ? value : parseLocaleNumber(value);
+
+const isValidDate = (year: number, month: number, day: number): boolean => {
+  const d = new Date(Date.UTC(year, month - 1, day));
+  return d.getUTCFullYear() === year && d.getUTCMonth() === month - 1 && d.getUTCDate() === day;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Reads a date as YYYY-MM-DD. Accepts day-first dates ("15/01/2024", "15-01-24"), ISO dates
+ * and the serial numbers Excel stores for date cells.
+ */
+export const parseLocaleDate = (raw: string): string | undefined => {
+  const s = raw.trim().split(/\s+/)[0];
+  if (!s) return undefined;
+
+  let match = s.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) {
+    const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    return isValidDate(year, month, day) ? `${year}-${pad(month)}-${pad(day)}` : undefined;
+  }
+
+  match = s.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (match) {
+    const [day, month] = [Number(match[1]), Number(match[2])];
+    const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    return isValidDate(year, month, day) ? `${year}-${pad(month)}-${pad(day)}` : undefined;
+  }
+
+  // Excel serial: days since 1899-12-30. The range keeps plain numbers like amounts from passing as dates.
+  if (/^\d+(\.\d+)?$/.test(s)) {
+    const serial = Math.floor(Number(s));
+    if (serial < 20000 || serial > 80000) return undefined;
+    const date = new Date(Date.UTC(1899, 11, 30) + serial * 86400000);
+    return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  }
+  return undefined;
+};
+
+// Sheets have a single document column: eleven digits are a RUC, other alphanumeric codes a carné de extranjería
+const guessDocumentType = (document: string): DocumentType => {
+  if (/^\d{11}$/.test(document)) return DocumentType.RUC;
+  if (/^\d{8}$/.test(document)) return DocumentType.DNI;
+  return /^[A-Z0-9]{9,12}$/.test(document) ? DocumentType.CE : DocumentType.DNI;
+};
+
+export const parseFrequency = (raw: string): Frequency | undefined => {
+  const s = normalizeText(raw);
+  if (!s) return undefined;
+  if (s.includes('semimens') || s.includes('1 y 15')) return Frequency.SEMIMONTHLY;
+  if (s.includes('diari') || s === 'dia') return Frequency.DAILY;
+  if (s.includes('seman')) return Frequency.WEEKLY;
+  if (s.includes('quinc') || s.includes('14 dias')) return Frequency.BIWEEKLY;
+  if (s.includes('mens') || s === 'mes') return Frequency.MONTHLY;
+  return undefined;
+};
+
+/**
+ * Proposes a column for each field from the header row. Exact header matches win over partial ones,
+ * and each column is used once.
+ */
+export const guessColumnMapping = (headers: SheetCell[]): ColumnMapping => {
+  const normalized = headers.map(h => normalizeText(String(h)));
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+
+  const claim = (matches: (header: string, synonym: string) => boolean) => {
+    MATCH_ORDER.forEach(field => {
+      if (mapping[field] !== undefined) return;
+      const idx = normalized.findIndex((h, i) => !used.has(i) && HEADER_SYNONYMS[field].some(syn => matches(h, syn)));
+      if (idx >= 0) { mapping[field] = idx; used.add(idx); }
+    });
+  };
+
+  claim((header, synonym) => header === synonym);
+  claim((header, synonym) => synonym.length > 2 && header.includes(synonym));
+  return mapping;
+};
+
+// --- Building records ---
+
+/**
+ * Turns spreadsheet rows (header first) into clients and loans. Rows are matched to existing clients
+ * by DNI, and to each other by DNI or, without one, by name. New clients go through the same checks as
+ * the client form (document format, duplicates); rows that fail them are reported and skipped. A row with an amount gets a loan whose
+ * schedule is rebuilt with calculateSchedule; its first N installments are recorded as paid on their
+ * due dates. Rows that cannot be read are reported and skipped.
+ */
+export const buildSpreadsheetImport = (
+  rows: SheetCell[][],
+  mapping: ColumnMapping,
+  options: SpreadsheetImportOptions,
+  existingClients: Client[]
+): SpreadsheetImportResult => {
+  const now = new Date().toISOString();
+  const byDni = new Map(existingClients.filter(c => c.dni).map(c => [normalizeDocument(c.dni), c]));
+  const byName = new Map<string, Client>();
+  const existingIds = new Set(existingClients.map(c => c.id));
+  const clients: Client[] = [];
+  const loans: Loan[] = [];
+  const errors: SpreadsheetRowError[] = [];
+  const linked = new Set<string>();
+
+  rows.slice(1).forEach((cells, idx) => {
+    const rowNumber = idx + 2;
+    const value = (field: SpreadsheetField): SheetCell => {
+      const col = mapping[field];
+      const raw = col === undefined ? '' : cells[col] ?? '';
+      return typeof raw === 'number' ? raw : raw.trim();
+    };
+    const cell = (field: SpreadsheetField) => String(value(field));
+    if (cells.every(c => typeof c === 'string' && !c.trim())) return;
+
+    const name = cell('name').replace(/\s+/g, ' ');
+    let dni = normalizeDocument(cell('dni'));
+    // Spreadsheets that stored the DNI as a number dropped its leading zeros
+    if (/^\d{5,7}$/.test(dni)) dni = dni.padStart(8, '0');
+    if (!name && !dni) {
+      errors.push({ row: rowNumber, message: 'Fila sin nombre ni DNI.' });
+      return;
+    }
+
+    let client = dni ? byDni.get(dni) : byName.get(normalizeText(name));
+    if (!client) {
+      client = {
+        id: newId(),
+        name: name || `Cliente ${dni}`,
+        documentType: guessDocumentType(dni),
+        dni,
+        phone: cell('phone'),
+        address: cell('address'),
+        createdAt: now,
+        updatedAt: now
+      };
+      const clientError = validateClient(client, [...existingClients, ...clients]);
+      if (clientError) {
+        errors.push({ row: rowNumber, message: `Cliente omitido: ${clientError}` });
+        return;
+      }
+      clients.push(client);
+      if (dni) byDni.set(dni, client);
+      byName.set(normalizeText(client.name), client);
+    } else if (existingIds.has(client.id)) {
+      linked.add(client.id);
+    }
+
+    const rawAmount = cell('amount');
+    if (!rawAmount) return; // Client only
+
+    const problems: string[] = [];
+    const amount = readNumber(value('amount'));
+    if (amount === undefined || amount <= 0) problems.push(`monto "${rawAmount}" inválido`);
+
+    const rawRate = cell('interestRate');
+    const interestRate = rawRate ? readNumber(value('interestRate')) : undefined;
+    if (interestRate === undefined || interestRate < 0) problems.push(rawRate ? `tasa "${rawRate}" inválida` : 'falta la tasa');
+
+    const rawDate = cell('startDate');
+    const startDate = rawDate ? parseLocaleDate(rawDate) : undefined;
+    if (!startDate) problems.push(rawDate ? `fecha "${rawDate}" no reconocida (use DD/MM/AAAA)` : 'falta la fecha de inicio');
+
+    const rawFrequency = cell('frequency');
+    const frequency = rawFrequency ? parseFrequency(rawFrequency) : options.defaultFrequency;
+    if (!frequency) problems.push(`frecuencia "${rawFrequency}" no reconocida`);
+
+    const rawDuration = cell('duration');
+    const duration = rawDuration ? readNumber(value('duration')) : options.defaultDuration;
+    if (!duration || !Number.isInteger(duration) || duration < 1) problems.push(`número de cuotas "${rawDuration}" inválido`);
+
+    const rawPaid = cell('paidInstallments');
+    const paid = rawPaid ? readNumber(value('paidInstallments')) : 0;
+    if (paid === undefined || !Number.isInteger(paid) || paid < 0) problems.push(`cuotas pagadas "${rawPaid}" inválidas`);
+    else if (duration && paid > duration) problems.push(`${paid} cuotas pagadas de ${duration}`);
+
+    if (problems.length > 0) {
+      errors.push({ row: rowNumber, message: `Préstamo omitido: ${problems.join(', ')}.` });
+      return;
+    }
+
+    const terms = {
+      interestRate: interestRate!,
+      interestType: InterestType.PERCENTAGE,
+      rateBasis: options.rateBasis,
+      frequency: frequency!,
+      duration: duration!,
+      type: options.loanType
+    };
+    const rates = getScheduleRates(terms);
+    const installments = calculateSchedule(
+      amount!, rates.rate, InterestType.PERCENTAGE, frequency!, duration!, options.loanType, startDate!, rates.variableRates, options.calendar
+    );
+    const payments: Payment[] = installments.slice(0, paid).map(i => ({
+      id: `import-${i.number}`,
+      amount: i.amount,
+      date: i.dueDate,
+      method: PaymentMethod.CASH,
+      note: 'Cuota pagada según la hoja de cálculo importada',
+      allocations: [{ installmentNumber: i.number, amount: i.amount }]
+    }));
+
+    loans.push(applyPaymentLedger({
+      id: newId(),
+      clientId: client.id,
+      amount: amount!,
+      ...terms,
+      roll: options.calendar.roll,
+      startDate: startDate!,
+      endDate: installments[installments.length - 1].dueDate,
+      installments,
+      payments,
+      status: LoanStatus.ACTIVE,
+      statusHistory: [],
+      totalPayable: installments.reduce((acc, i) => acc + i.amount, 0),
+      totalPaid: 0,
+      updatedAt: now
+    }));
+  });
+
+  return { clients, loans, errors, linkedClients: linked.size };
+};
+
@@ -1,42 +1,463 @@
-import { Client, Loan, InstallmentStatus, LoanStatus, Frequency, LoanType, InterestType } from '../types';
+import { Attachment, AttachmentKind, Client, ClientReference, DocumentType, Loan, InstallmentStatus, LoanStatus, BackupError, Snapshot, SnapshotReason, AuditAction, AuditEntity, AuditEntry, Payment, PaymentMethod, AppSettings, PrepaymentMode, RollConvention, LoanCharge, ChargeType, ChargeCalculation, UpfrontChargeMode, MergeResolution } from '../types';
+import { allocatePayment, applyPaymentLedger, formatCurrency, getInstallmentBalance, parseDate } from '../utils';
+import { accruePenalties } from './penalties';
+import { evaluateLoanStatus } from './loanStatus';
+import { quotePrepayment } from './prepayment';
+import { quoteRefinance } from './refinance';
+import { AttachmentRepository, AuditRepository, ClientRepository, LoanRepository, MetaRepository, SnapshotRepository } from './repository';
+import { IndexedDbAttachmentRepository, IndexedDbAuditRepository, IndexedDbClientRepository, IndexedDbLoanRepository, IndexedDbMetaRepository, IndexedDbSnapshotRepository } from './indexedDb';
+import { SCHEMA_VERSION, isFutureSchema, migrateDataSet, parseSchemaVersion } from './migrations';
+import { MergePreview, applyMerge, buildMergePreview } from './importMerge';
+import { ValidationReport, validateDataSet } from './validation';
+import { decryptBackup, encryptBackup, isEncryptedBackup } from './backupCrypto';
+import { getExpiredSnapshots, isDailySnapshotDue } from './snapshots';
+import { describeLoan, diffRecords, getEditedPaidInstallments } from './audit';
+import { IntegrityReport, buildPlaceholderClient, checkIntegrity, isLoanOpen } from './integrity';
+import { normalizeDocument, validateClient } from './kyc';
 
-const CLIENTS_KEY = 'lenderpro_clients';
-const LOANS_KEY = 'lenderpro_loans';
+// Settings are small and read synchronously, so they stay in localStorage
+const SETTINGS_KEY = 'lenderpro_settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  penalty: {
+    enabled: false,
+    flatFee: 0,
+    dailyRate: 0.5,
+    graceDays: 3,
+    capPercent: 50
+  },
+  delinquency: {
+    daysOverdue: 30,
+    installmentsOverdue: 3
+  },
+  calendar: {
+    nonWorkingDays: [0],
+    holidays: [],
+    roll: RollConvention.NONE
+  },
+  snapshots: {
+    daily: true,
+    keepDaily: 7,
+    keepOther: 10
+  },
+  credit: {
+    maxExposure: 0,
+    maxActiveLoans: 0,
+    blockDefaulted: true,
+    allowOverride: true
+  },
+  operator: ''
+};
+
+// Clients and loans live in IndexedDB, one record per entity
+const clientRepository: ClientRepository = IndexedDbClientRepository;
+const loanRepository: LoanRepository = IndexedDbLoanRepository;
+const metaRepository: MetaRepository = IndexedDbMetaRepository;
+const snapshotRepository: SnapshotRepository = IndexedDbSnapshotRepository;
+const auditRepository: AuditRepository = IndexedDbAuditRepository;
+const attachmentRepository: AttachmentRepository = IndexedDbAttachmentRepository;
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+// Attachments live only in this browser, so large files are refused rather than filling its quota
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
 
 // --- Simple In-Memory Cache ---
 let clientsCache: Client[] | null = null;
 let loansCache: Loan[] | null = null;
+let settingsCache: AppSettings | null = null;
 
 // Helper to simulate delay
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+export interface PaymentInput {
+  amount: number;
+  date: string;
+  method: PaymentMethod;
+  note?: string;
+  collector?: string;
+}
+
+// Keeps only numeric rate steps keyed by a positive installment number
+const sanitizeVariableRates = (raw: any): { [installmentNumber: number]: number } | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const steps: { [installmentNumber: number]: number } = {};
+  Object.entries(raw).forEach(([key, value]) => {
+    const installmentNumber = Number(key);
+    if (installmentNumber > 0 && Number.isFinite(Number(value))) steps[installmentNumber] = Number(value);
+  });
+  return Object.keys(steps).length > 0 ? steps : undefined;
+};
+
+// Keeps well-formed charges; upfront charges default to being deducted from the disbursement
+const sanitizeCharges = (raw: any): LoanCharge[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  const charges = raw
+    .filter((c: any) => c && typeof c === 'object' && Number.isFinite(Number(c.value)))
+    .map((c: any) => ({
+        id: String(c.id || Math.random().toString(36).substr(2, 9)),
+        name: String(c.name || 'Cargo'),
+        type: c.type === ChargeType.RECURRING ? ChargeType.RECURRING : ChargeType.UPFRONT,
+        calculation: c.calculation === ChargeCalculation.PERCENTAGE ? ChargeCalculation.PERCENTAGE : ChargeCalculation.FIXED,
+        value: Number(c.value),
+        upfrontMode: c.type === ChargeType.RECURRING ? undefined : (c.upfrontMode === UpfrontChargeMode.FINANCED ? UpfrontChargeMode.FINANCED : UpfrontChargeMode.DEDUCTED)
+    }));
+  return charges.length > 0 ? charges : undefined;
+};
+
+const optionalNumber = (raw: any): number | undefined =>
+  raw === undefined || raw === null || raw === '' || !Number.isFinite(Number(raw)) ? undefined : Number(raw);
+
+// Keeps references that name someone; missing fields become empty strings
+const sanitizeReferences = (raw: any): ClientReference[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  const references = raw
+    .filter((r: any) => r && typeof r === 'object' && r.name)
+    .map((r: any) => ({ name: String(r.name), phone: String(r.phone || ''), relationship: String(r.relationship || '') }));
+  return references.length > 0 ? references : undefined;
+};
+
+// Normalizes the stored ledger (loans from before the ledger get theirs in the v1 -> v2 migration)
+const sanitizePayments = (raw: any): Payment[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((p: any) => p && typeof p === 'object')
+    .map((p: any) => ({
+        id: String(p.id || Math.random().toString(36).substr(2, 9)),
+        amount: Number(p.amount) || 0,
+        date: p.date || new Date().toISOString(),
+        method: p.method || PaymentMethod.CASH,
+        note: p.note ? String(p.note) : undefined,
+        collector: p.collector ? String(p.collector) : undefined,
+        allocations: (Array.isArray(p.allocations) ? p.allocations : []).map((a: any) => ({
+            installmentNumber: Number(a.installmentNumber) || 0,
+            amount: Number(a.amount) || 0
+        })),
+        prepayment: p.prepayment ? true : undefined,
+        reversal: p.reversal && typeof p.reversal === 'object'
+            ? { date: String(p.reversal.date || p.date || new Date().toISOString()), reason: String(p.reversal.reason || '') }
+            : undefined
+    }));
+};
+
+let schemaReady: Promise<void> | null = null;
+
+// Upgrades the stored records to SCHEMA_VERSION before anything is read. Runs once per session;
+// data written by a newer version of the app is left untouched and not loaded (migrateDataSet rejects it).
+const ensureSchema = (): Promise<void> => {
+  if (schemaReady) return schemaReady;
+
+  schemaReady = (async () => {
+    const version = parseSchemaVersion(await metaRepository.get(SCHEMA_VERSION_KEY));
+    if (version === SCHEMA_VERSION) return;
+
+    const [clients, loans] = await Promise.all([clientRepository.getAll(), loanRepository.getAll()]);
+    const migrated = migrateDataSet({ clients, loans }, version);
+    await clientRepository.replaceAll(migrated.clients);
+    await loanRepository.replaceAll(migrated.loans);
+    // Written last: if anything above fails the migrations run again, and they are safe to repeat
+    await metaRepository.set(SCHEMA_VERSION_KEY, SCHEMA_VERSION);
+  })();
+
+  schemaReady.catch(e => console.error("Error migrating stored data", e));
+  return schemaReady;
+};
+
+// Sanitizes stored loans and brings them up to date (ledger, penalties, status).
+// Status transitions are persisted right away so they are recorded once.
+const hydrateLoans = async (stored: any[]): Promise<Loan[]> => {
+  const { penalty, delinquency } = StorageService.getSettings();
+
+  // Aggressive Sanitization on Read
+  const sanitized: Loan[] = stored
+    .filter(l => l && typeof l === 'object')
+    .map((l: any) => accruePenalties(applyPaymentLedger({
+         ...l,
+         id: String(l.id || Math.random().toString(36).substr(2, 9)),
+         clientId: String(l.clientId || ''),
+         // Ensure numeric values are numbers to prevent NaN crashes
+         amount: Number(l.amount) || 0,
+         interestRate: Number(l.interestRate) || 0,
+         variableRates: sanitizeVariableRates(l.variableRates),
+         charges: sanitizeCharges(l.charges),
+         duration: Number(l.duration) || 1,
+         totalPayable: Number(l.totalPayable) || 0,
+         totalPaid: Number(l.totalPaid) || 0,
+         // Ensure arrays exist
+         installments: Array.isArray(l.installments) ? l.installments : [],
+         payments: sanitizePayments(l.payments),
+         statusHistory: Array.isArray(l.statusHistory) ? l.statusHistory : [],
+         // Ensure strings exist
+         startDate: l.startDate || new Date().toISOString(),
+         status: l.status || LoanStatus.ACTIVE
+    }), penalty));
+
+  const evaluated = sanitized.map(l => evaluateLoanStatus(l, delinquency));
+  const changed = evaluated.filter((l, idx) => l !== sanitized[idx]);
+  if (changed.length > 0) await loanRepository.putMany(changed);
+  return evaluated;
+};
+
+type BackupReadResult = { success: boolean, message?: string, error?: BackupError, clients?: Client[], loans?: Loan[], report?: ValidationReport };
+
+/**
+ * Parses a backup file (or object) into validated records at the current schema version, with the
+ * report of every fix and rejection. Encrypted backups need their passphrase. Shared by the replace
+ * and merge imports; nothing is written here.
+ */
+export const readBackup = async (jsonInput: string | any, passphrase?: string): Promise<BackupReadResult> => {
+  if (!jsonInput) return { success: false, message: "No se proporcionaron datos para importar." };
+
+  if (isEncryptedBackup(jsonInput)) {
+    const decrypted = await decryptBackup(jsonInput, passphrase || '');
+    if (!decrypted.success || decrypted.json === undefined) return { success: false, message: decrypted.message, error: decrypted.error };
+    jsonInput = decrypted.json;
+  }
+  
+  let backup;
+  // Handle both string (from file) and object (if passed directly)
+  if (typeof jsonInput === 'string') {
+    try {
+        backup = JSON.parse(jsonInput);
+    } catch (e) {
+        return { success: false, message: "El archivo está corrupto o no es un JSON válido." };
+    }
+  } else {
+    backup = jsonInput;
+  }
+  
+  // Basic structure validation
+  if (!backup || typeof backup !== 'object') {
+      return { success: false, message: "Estructura del archivo inválida." };
+  }
+  
+  // Backups without meta predate versioning
+  const version = parseSchemaVersion(backup.meta?.version);
+  if (isFutureSchema(version)) {
+      return { success: false, message: `El respaldo fue creado con una versión más reciente de LenderPro (esquema v${version}). Actualiza la aplicación antes de importarlo.` };
+  }
+
+  // Flexible data access
+  const dataRoot = backup.data || backup;
+  
+  // Handle cases where keys might be missing
+  const { clients, loans } = migrateDataSet({
+    clients: Array.isArray(dataRoot.clients) ? dataRoot.clients : [],
+    loans: Array.isArray(dataRoot.loans) ? dataRoot.loans : []
+  }, version);
+
+  if (clients.length === 0 && loans.length === 0) {
+      return { success: false, message: "El archivo no contiene clientes ni préstamos." };
+  }
+
+  // --- VALIDATION ON IMPORT (structure was brought up to date by the migrations) ---
+
+  const validated = validateDataSet(clients, loans);
+  if (validated.clients.length === 0 && validated.loans.length === 0) {
+      return { success: false, message: "Ningún registro del archivo superó la validación.", report: validated.report };
+  }
+
+  const sanitizedClients = validated.clients;
+
+  // The schemas cover the scalar fields and the schedule; nested collections keep their own sanitizers
+  const sanitizedLoans: Loan[] = validated.loans.map(l => applyPaymentLedger({
+    ...l,
+    variableRates: sanitizeVariableRates(l.variableRates),
+    charges: sanitizeCharges(l.charges),
+    payments: sanitizePayments(l.payments),
+    statusHistory: Array.isArray(l.statusHistory) ? l.statusHistory : []
+  }));
+
+  return { success: true, clients: sanitizedClients, loans: sanitizedLoans, report: validated.report };
+};
+
+// Replaces every client and loan with the given (already validated) records
+const replaceData = async (clients: Client[], loans: Loan[]): Promise<{ success: boolean, message?: string }> => {
+  // Safe save to Storage with specific error handling. Each store is replaced in a single transaction.
+  try {
+      await clientRepository.replaceAll(clients);
+      await loanRepository.replaceAll(loans);
+      await metaRepository.set(SCHEMA_VERSION_KEY, SCHEMA_VERSION);
+  } catch (storageError: any) {
+      // Check for QuotaExceededError
+      if (
+          storageError.name === 'QuotaExceededError' || 
+          storageError.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+          storageError.code === 22
+      ) {
+          return { success: false, message: "Almacenamiento lleno. Intenta 'Resetear Sistema' antes de importar o libera espacio en el navegador." };
+      }
+      throw storageError;
+  }
+
+  // Update Cache immediately
+  clientsCache = clients;
+  const { penalty, delinquency } = StorageService.getSettings();
+  loansCache = loans.map(l => evaluateLoanStatus(accruePenalties(l, penalty), delinquency));
+  return { success: true };
+};
+
+// Restore point taken before data is overwritten. Returns an error message when it could not be
+// stored, in which case the caller must not go ahead.
+const takeSafetySnapshot = async (reason: SnapshotReason): Promise<string | null> => {
+  try {
+    await StorageService.createSnapshot(reason);
+    return null;
+  } catch (e: any) {
+    console.error("Error creating snapshot", e);
+    return `No se pudo crear el punto de restauración (${e.message}). No se realizaron cambios.`;
+  }
+};
+
+type AuditInput = Omit<AuditEntry, 'id' | 'timestamp' | 'actor'>;
+
+// Appends to the audit trail. The change itself is already stored, so a failure here is only logged.
+const recordAudit = async (...inputs: AuditInput[]): Promise<void> => {
+  const timestamp = new Date().toISOString();
+  const actor = StorageService.getSettings().operator || 'Sin identificar';
+  try {
+    await auditRepository.append(inputs.map(input => ({ ...input, id: Math.random().toString(36).substr(2, 9), timestamp, actor })));
+  } catch (e) {
+    console.error("Error writing audit log", e);
+  }
+};
+
+// Entry for a loan written as a whole (created or edited)
+const loanAudit = (before: Loan | undefined, after: Loan): AuditInput => {
+  const changes = diffRecords(before, after);
+  const editedPaid = before ? getEditedPaidInstallments(before, changes) : [];
+  return {
+    action: before ? AuditAction.UPDATE : AuditAction.CREATE,
+    entity: AuditEntity.LOAN,
+    entityId: after.id,
+    clientId: after.clientId,
+    loanId: after.id,
+    summary: before
+      ? `Préstamo modificado (${changes.length} cambios)${editedPaid.length > 0 ? `. Cambia montos de cuotas ya pagadas: ${editedPaid.join(', ')}` : ''}`
+      : `Préstamo creado por ${describeLoan(after)}`,
+    changes
+  };
+};
+
+// Entry for an operation over the whole portfolio
+const dataAudit = (action: AuditAction, summary: string): AuditInput => ({ action, entity: AuditEntity.DATA, summary, changes: [] });
+
+// One entry per imported record that is new or differs from the local version
+const importAudits = (localClients: Client[], localLoans: Loan[], clients: Client[], loans: Loan[]): AuditInput[] => [
+  ...clients.map((client): AuditInput => ({
+    action: AuditAction.IMPORT,
+    entity: AuditEntity.CLIENT,
+    entityId: client.id,
+    clientId: client.id,
+    summary: `Cliente ${client.name} importado`,
+    changes: diffRecords(localClients.find(c => c.id === client.id), client)
+  })),
+  ...loans.map((loan): AuditInput => ({
+    action: AuditAction.IMPORT,
+    entity: AuditEntity.LOAN,
+    entityId: loan.id,
+    clientId: loan.clientId,
+    loanId: loan.id,
+    summary: `Préstamo por ${describeLoan(loan)} importado`,
+    changes: diffRecords(localLoans.find(l => l.id === loan.id), loan)
+  }))
+].filter(entry => entry.changes.length > 0);
+
 export const StorageService = {
-  getClients: (): Client[] => {
+  getSettings: (): AppSettings => {
+    if (settingsCache) return settingsCache;
+
+    try {
+        const data = localStorage.getItem(SETTINGS_KEY);
+        const parsed = data ? JSON.parse(data) : {};
+        const penalty = parsed && typeof parsed.penalty === 'object' ? parsed.penalty : {};
+        const delinquency = parsed && typeof parsed.delinquency === 'object' ? parsed.delinquency : {};
+        const calendar = parsed && typeof parsed.calendar === 'object' ? parsed.calendar : {};
+        const snapshots = parsed && typeof parsed.snapshots === 'object' ? parsed.snapshots : {};
+        const credit = parsed && typeof parsed.credit === 'object' ? parsed.credit : {};
+
+        // Merge over defaults so settings saved by older versions stay valid
+        settingsCache = {
+            penalty: {
+                enabled: Boolean(penalty.enabled ?? DEFAULT_SETTINGS.penalty.enabled),
+                flatFee: Number(penalty.flatFee ?? DEFAULT_SETTINGS.penalty.flatFee) || 0,
+                dailyRate: Number(penalty.dailyRate ?? DEFAULT_SETTINGS.penalty.dailyRate) || 0,
+                graceDays: Number(penalty.graceDays ?? DEFAULT_SETTINGS.penalty.graceDays) || 0,
+                capPercent: Number(penalty.capPercent ?? DEFAULT_SETTINGS.penalty.capPercent) || 0
+            },
+            delinquency: {
+                daysOverdue: Number(delinquency.daysOverdue ?? DEFAULT_SETTINGS.delinquency.daysOverdue) || 0,
+                installmentsOverdue: Number(delinquency.installmentsOverdue ?? DEFAULT_SETTINGS.delinquency.installmentsOverdue) || 0
+            },
+            calendar: {
+                nonWorkingDays: Array.isArray(calendar.nonWorkingDays)
+                    ? calendar.nonWorkingDays.map(Number).filter((d: number) => d >= 0 && d <= 6)
+                    : DEFAULT_SETTINGS.calendar.nonWorkingDays,
+                holidays: Array.isArray(calendar.holidays)
+                    ? calendar.holidays.filter((h: any) => h && typeof h.date === 'string').map((h: any) => ({ date: h.date, name: h.name ? String(h.name) : undefined }))
+                    : [],
+                roll: Object.values(RollConvention).includes(calendar.roll) ? calendar.roll : DEFAULT_SETTINGS.calendar.roll
+            },
+            snapshots: {
+                daily: Boolean(snapshots.daily ?? DEFAULT_SETTINGS.snapshots.daily),
+                // At least one of each is always kept
+                keepDaily: Math.max(1, Math.floor(Number(snapshots.keepDaily ?? DEFAULT_SETTINGS.snapshots.keepDaily) || 1)),
+                keepOther: Math.max(1, Math.floor(Number(snapshots.keepOther ?? DEFAULT_SETTINGS.snapshots.keepOther) || 1))
+            },
+            credit: {
+                maxExposure: Math.max(0, Number(credit.maxExposure ?? DEFAULT_SETTINGS.credit.maxExposure) || 0),
+                maxActiveLoans: Math.max(0, Math.floor(Number(credit.maxActiveLoans ?? DEFAULT_SETTINGS.credit.maxActiveLoans) || 0)),
+                blockDefaulted: Boolean(credit.blockDefaulted ?? DEFAULT_SETTINGS.credit.blockDefaulted),
+                allowOverride: Boolean(credit.allowOverride ?? DEFAULT_SETTINGS.credit.allowOverride)
+            },
+            operator: typeof parsed?.operator === 'string' ? parsed.operator.trim() : DEFAULT_SETTINGS.operator
+        };
+        return settingsCache;
+    } catch (e) {
+        console.error("Error reading settings", e);
+        return DEFAULT_SETTINGS;
+    }
+  },
+
+  saveSettings: (settings: AppSettings): void => {
+    settingsCache = settings;
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    // Loans are re-evaluated with the new rules on next read
+    loansCache = null;
+  },
+
+  getClients: async (): Promise<Client[]> => {
     // Return cache if available
     if (clientsCache) return clientsCache;
 
     try {
-        const data = localStorage.getItem(CLIENTS_KEY);
-        if (!data) {
-            clientsCache = [];
-            return clientsCache;
-        }
-        const parsed = JSON.parse(data);
-        if (!Array.isArray(parsed)) {
-            clientsCache = [];
-            return clientsCache;
-        }
-        
+        await ensureSchema();
+        const stored = await clientRepository.getAll();
+
         // Aggressive Sanitization on Read
-        clientsCache = parsed
+        clientsCache = stored
             .filter(c => c && typeof c === 'object') // Remove nulls
             .map(c => ({
                 id: String(c.id || Math.random().toString(36).substr(2, 9)),
                 name: String(c.name || 'Sin Nombre'),
+                documentType: c.documentType && Object.values(DocumentType).includes(c.documentType) ? c.documentType : undefined,
                 dni: String(c.dni || ''),
                 phone: String(c.phone || ''),
                 address: String(c.address || ''),
-                createdAt: c.createdAt || new Date().toISOString()
+                email: c.email ? String(c.email) : undefined,
+                birthDate: c.birthDate || undefined,
+                occupation: c.occupation ? String(c.occupation) : undefined,
+                monthlyIncome: optionalNumber(c.monthlyIncome),
+                creditLimit: optionalNumber(c.creditLimit),
+                latitude: optionalNumber(c.latitude),
+                longitude: optionalNumber(c.longitude),
+                zone: c.zone ? String(c.zone) : undefined,
+                collector: c.collector ? String(c.collector) : undefined,
+                routeOrder: optionalNumber(c.routeOrder),
+                references: sanitizeReferences(c.references),
+                createdAt: c.createdAt || new Date().toISOString(),
+                updatedAt: c.updatedAt || undefined,
+                archivedAt: c.archivedAt || undefined,
+                deletedAt: c.deletedAt || undefined
             }));
         
         return clientsCache;
@@ -46,58 +467,152 @@ export const StorageService = {
     }
   },
 
-  saveClient: (client: Client): void => {
+  // Validates the document (format and uniqueness) and the profile before writing
+  saveClient: async (input: Client): Promise<{ success: boolean, message?: string }> => {
     // Get current state (populates cache if needed)
-    const clients = StorageService.getClients();
+    const clients = await StorageService.getClients();
+    const client: Client = { ...input, dni: normalizeDocument(input.dni), updatedAt: new Date().toISOString() };
+    const error = validateClient(client, clients);
+    if (error) return { success: false, message: error };
     
     const index = clients.findIndex(c => c.id === client.id);
+    const before = index >= 0 ? clients[index] : undefined;
     if (index >= 0) {
       clients[index] = client;
     } else {
       clients.push(client);
     }
     
-    // Update Cache (by reference modification above) and Storage
+    // Update Cache (by reference modification above) and the single stored record
     clientsCache = clients; 
-    localStorage.setItem(CLIENTS_KEY, JSON.stringify(clients));
+    await clientRepository.put(client);
+
+    const changes = diffRecords(before, client);
+    if (changes.length > 0) {
+      await recordAudit({
+        action: before ? AuditAction.UPDATE : AuditAction.CREATE,
+        entity: AuditEntity.CLIENT,
+        entityId: client.id,
+        clientId: client.id,
+        summary: before ? `Cliente ${client.name} modificado (${changes.length} cambios)` : `Cliente ${client.name} registrado`,
+        changes
+      });
+    }
+    return { success: true };
+  },
+
+  // Stores the order in which a collector visits these clients (first id first)
+  saveRouteOrder: async (clientIds: string[]): Promise<void> => {
+    const clients = await StorageService.getClients();
+    const updated: Client[] = [];
+    clientIds.forEach((id, idx) => {
+      const index = clients.findIndex(c => c.id === id);
+      if (index === -1 || clients[index].routeOrder === idx + 1) return;
+      clients[index] = { ...clients[index], routeOrder: idx + 1, updatedAt: new Date().toISOString() };
+      updated.push(clients[index]);
+    });
+    // Update Cache (by reference) and only the records that moved
+    clientsCache = clients;
+    await clientRepository.putMany(updated);
+  },
+
+  // --- Attachments ---
+
+  getAttachments: async (clientId: string): Promise<Attachment[]> => {
+    try {
+      return await attachmentRepository.listByClient(clientId);
+    } catch (e) {
+      console.error("Error reading attachments", e);
+      return [];
+    }
   },
 
-  getLoans: (): Loan[] => {
+  getAttachmentContent: async (id: string): Promise<Blob | undefined> => attachmentRepository.getContent(id),
+
+  addAttachment: async (clientId: string, file: File, kind: AttachmentKind): Promise<{ success: boolean, message?: string, attachment?: Attachment }> => {
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      return { success: false, message: `El archivo pesa ${(file.size / 1024 / 1024).toFixed(1)} MB; el máximo es ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB.` };
+    }
+    const attachment: Attachment = {
+      id: Math.random().toString(36).substr(2, 9),
+      clientId,
+      name: file.name,
+      mimeType: file.type || 'application/octet-stream',
+      size: file.size,
+      kind,
+      createdAt: new Date().toISOString()
+    };
+    try {
+      await attachmentRepository.save(attachment, file);
+    } catch (e: any) {
+      console.error("Error saving attachment", e);
+      return { success: false, message: `No se pudo guardar el archivo: ${e.message}` };
+    }
+    await recordAudit({
+      action: AuditAction.UPDATE,
+      entity: AuditEntity.CLIENT,
+      entityId: clientId,
+      clientId,
+      summary: `Adjunto ${attachment.name} agregado (${kind})`,
+      changes: [{ path: 'attachments', after: attachment.name }]
+    });
+    return { success: true, attachment };
+  },
+
+  removeAttachment: async (attachment: Attachment): Promise<void> => {
+    await attachmentRepository.remove(attachment.id);
+    await recordAudit({
+      action: AuditAction.UPDATE,
+      entity: AuditEntity.CLIENT,
+      entityId: attachment.clientId,
+      clientId: attachment.clientId,
+      summary: `Adjunto ${attachment.name} eliminado`,
+      changes: [{ path: 'attachments', before: attachment.name }]
+    });
+  },
+
+  // Archive, delete (soft) or bring back a client. Clients whose loans are still being collected stay active.
+  setClientState: async (id: string, state: 'archived' | 'deleted' | 'active'): Promise<{ success: boolean, message?: string }> => {
+    const client = (await StorageService.getClients()).find(c => c.id === id);
+    if (!client) return { success: false, message: "Cliente no encontrado." };
+
+    if (state !== 'active') {
+      const open = (await StorageService.getLoansByClient(id)).filter(isLoanOpen);
+      if (open.length > 0) {
+        return { success: false, message: `${client.name} tiene ${open.length} préstamo(s) vigente(s). Cancélalos, refinancíalos o anúlalos primero.` };
+      }
+    }
+
+    const now = new Date().toISOString();
+    const updated: Client = {
+      ...client,
+      archivedAt: state === 'archived' ? now : undefined,
+      deletedAt: state === 'deleted' ? now : undefined,
+      updatedAt: now
+    };
+    const clients = await StorageService.getClients();
+    clientsCache = clients.map(c => c.id === id ? updated : c);
+    await clientRepository.put(updated);
+
+    const labels = { archived: 'archivado', deleted: 'eliminado', active: 'reactivado' };
+    await recordAudit({
+      action: state === 'archived' ? AuditAction.ARCHIVE : state === 'deleted' ? AuditAction.DELETE : AuditAction.REACTIVATE,
+      entity: AuditEntity.CLIENT,
+      entityId: id,
+      clientId: id,
+      summary: `Cliente ${client.name} ${labels[state]}`,
+      changes: diffRecords(client, updated)
+    });
+    return { success: true };
+  },
+
+  getLoans: async (): Promise<Loan[]> => {
     // Return cache if available
     if (loansCache) return loansCache;
 
     try {
-        const data = localStorage.getItem(LOANS_KEY);
-        if (!data) {
-            loansCache = [];
-            return loansCache;
-        }
-        const parsed = JSON.parse(data);
-        if (!Array.isArray(parsed)) {
-            loansCache = [];
-            return loansCache;
-        }
-
-        // Aggressive Sanitization on Read
-        loansCache = parsed
-            .filter(l => l && typeof l === 'object')
-            .map((l: any) => ({
-                 ...l,
-                 id: String(l.id || Math.random().toString(36).substr(2, 9)),
-                 clientId: String(l.clientId || ''),
-                 // Ensure numeric values are numbers to prevent NaN crashes
-                 amount: Number(l.amount) || 0,
-                 interestRate: Number(l.interestRate) || 0,
-                 duration: Number(l.duration) || 1,
-                 totalPayable: Number(l.totalPayable) || 0,
-                 totalPaid: Number(l.totalPaid) || 0,
-                 // Ensure arrays exist
-                 installments: Array.isArray(l.installments) ? l.installments : [],
-                 // Ensure strings exist
-                 startDate: l.startDate || new Date().toISOString(),
-                 status: l.status || LoanStatus.ACTIVE
-            }));
-            
+        await ensureSchema();
+        loansCache = await hydrateLoans(await loanRepository.getAll());
         return loansCache;
     } catch (e) {
         console.error("Error reading loans", e);
@@ -105,80 +620,319 @@ export const StorageService = {
     }
   },
 
-  saveLoan: (loan: Loan): void => {
-    const loans = StorageService.getLoans();
+  // Indexed lookups; served from the cache once the whole portfolio has been loaded
+  getLoansByClient: async (clientId: string): Promise<Loan[]> => {
+    if (loansCache) return loansCache.filter(l => l.clientId === clientId);
+    await ensureSchema();
+    return hydrateLoans(await loanRepository.getByClient(clientId));
+  },
+
+  getLoansByStatus: async (status: LoanStatus): Promise<Loan[]> => {
+    if (loansCache) return loansCache.filter(l => l.status === status);
+    await ensureSchema();
+    return hydrateLoans(await loanRepository.getByStatus(status));
+  },
+
+  // Open loans with an unpaid installment due between both dates (YYYY-MM-DD, inclusive)
+  getLoansDueBetween: async (from: string, to: string): Promise<Loan[]> => {
+    if (loansCache) {
+      return loansCache.filter(l => isLoanOpen(l) && l.installments.some(i => {
+        const due = i.dueDate.split('T')[0];
+        return i.status !== InstallmentStatus.PAID && due >= from && due <= to;
+      }));
+    }
+    await ensureSchema();
+    // Records written before the index skipped closed loans may still list their due dates
+    return (await hydrateLoans(await loanRepository.getByDueDate(from, to))).filter(isLoanOpen);
+  },
+
+  saveLoan: async (input: Loan): Promise<void> => {
+    const loans = await StorageService.getLoans();
+    const loan: Loan = { ...input, updatedAt: new Date().toISOString() };
     const index = loans.findIndex(l => l.id === loan.id);
+    const before = index >= 0 ? loans[index] : undefined;
     if (index >= 0) {
       loans[index] = loan;
     } else {
       loans.push(loan);
     }
     
-    // Update Cache (by reference) and Storage
+    // Update Cache (by reference) and the single stored record
     loansCache = loans;
-    localStorage.setItem(LOANS_KEY, JSON.stringify(loans));
+    await loanRepository.put(loan);
+    await recordAudit(loanAudit(before, loan));
   },
 
-  updateLoan: (loan: Loan): void => {
-    const loans = StorageService.getLoans();
+  updateLoan: async (input: Loan): Promise<void> => {
+    const loans = await StorageService.getLoans();
+    const loan: Loan = { ...input, updatedAt: new Date().toISOString() };
     const index = loans.findIndex(l => l.id === loan.id);
     if (index >= 0) {
+      const before = loans[index];
       loans[index] = loan;
-      // Update Cache (by reference) and Storage
+      // Update Cache (by reference) and the single stored record
       loansCache = loans;
-      localStorage.setItem(LOANS_KEY, JSON.stringify(loans));
+      await loanRepository.put(loan);
+      await recordAudit(loanAudit(before, loan));
     }
   },
 
-  payInstallment: (loanId: string, installmentNumber: number): Loan | null => {
-    const loans = StorageService.getLoans();
+  registerPayment: async (loanId: string, input: PaymentInput, startFrom?: number): Promise<Loan | null> => {
+    const loans = await StorageService.getLoans();
     const loanIndex = loans.findIndex(l => l.id === loanId);
     
     if (loanIndex === -1) return null;
+    if (!(input.amount > 0)) return null;
 
-    const loan = loans[loanIndex];
     // Safety check for old data
-    if (!loan.installments) loan.installments = [];
+    if (!loans[loanIndex].installments) loans[loanIndex].installments = [];
 
-    const installmentIndex = loan.installments.findIndex(i => i.number === installmentNumber);
-    
-    if (installmentIndex === -1) return null;
+    // Penalties are charged up to the day the money was received
+    const loan = accruePenalties(loans[loanIndex], StorageService.getSettings().penalty, parseDate(input.date));
+
+    const allocations = allocatePayment(loan.installments, input.amount, startFrom);
+    if (allocations.length === 0) return null;
+
+    // Anything above the outstanding balance is not accepted into the ledger
+    const applied = allocations.reduce((acc, a) => acc + a.amount, 0);
 
-    // Update Installment
-    loan.installments[installmentIndex].status = 'Pagado' as any;
-    loan.installments[installmentIndex].paymentDate = new Date().toISOString();
+    const payment: Payment = {
+      id: Math.random().toString(36).substr(2, 9),
+      amount: applied,
+      date: input.date,
+      method: input.method,
+      note: input.note || undefined,
+      collector: input.collector || undefined,
+      allocations
+    };
+
+    // Re-evaluate status: completes the loan or brings it back from default once caught up
+    const updated = evaluateLoanStatus(
+      applyPaymentLedger({ ...loan, payments: [...(loan.payments || []), payment], updatedAt: new Date().toISOString() }),
+      StorageService.getSettings().delinquency
+    );
 
-    // Recalculate Totals
-    const paidAmount = loan.installments
-      .filter(i => i.status === 'Pagado' as any)
-      .reduce((acc, curr) => acc + curr.amount, 0);
+    const before = loans[loanIndex];
+    loans[loanIndex] = updated;
     
-    loan.totalPaid = paidAmount;
+    // Update Cache (by reference) and the single stored record
+    loansCache = loans;
+    await loanRepository.put(updated);
+    await recordAudit({
+      action: AuditAction.PAYMENT,
+      entity: AuditEntity.LOAN,
+      entityId: updated.id,
+      clientId: updated.clientId,
+      loanId: updated.id,
+      summary: `Pago de ${formatCurrency(applied)} (${payment.method}) aplicado a cuota ${allocations.map(a => a.installmentNumber).join(', ')}`,
+      changes: diffRecords(before, updated)
+    });
+    return updated;
+  },
+
+  payInstallment: async (loanId: string, installmentNumber: number): Promise<Loan | null> => {
+    const loan = (await StorageService.getLoans()).find(l => l.id === loanId);
+    const installment = loan?.installments.find(i => i.number === installmentNumber);
+    if (!installment) return null;
+
+    return StorageService.registerPayment(loanId, {
+      amount: getInstallmentBalance(installment),
+      date: new Date().toISOString(),
+      method: PaymentMethod.CASH
+    }, installmentNumber);
+  },
 
-    // Check if loan is completed
-    const allPaid = loan.installments.every(i => i.status === 'Pagado' as any);
-    if (allPaid) {
-      loan.status = 'Pagado' as any;
+  // Undoes a payment entered by mistake. The payment stays in the ledger marked as reversed, so the
+  // installments it covered are owed again and the loan totals and status are recomputed.
+  reversePayment: async (loanId: string, paymentId: string, reason: string): Promise<{ success: boolean, message?: string, loan?: Loan }> => {
+    if (!reason.trim()) return { success: false, message: "Indica el motivo de la reversión." };
+
+    const loans = await StorageService.getLoans();
+    const loanIndex = loans.findIndex(l => l.id === loanId);
+    if (loanIndex === -1) return { success: false, message: "Préstamo no encontrado." };
+
+    const loan = loans[loanIndex];
+    const payment = (loan.payments || []).find(p => p.id === paymentId);
+    if (!payment) return { success: false, message: "Pago no encontrado." };
+    if (payment.reversal) return { success: false, message: "El pago ya fue revertido." };
+    if (payment.prepayment) return { success: false, message: "Un prepago reprogramó el cronograma y no se puede revertir." };
+    if (loan.status === LoanStatus.REFINANCED) return { success: false, message: "El préstamo fue refinanciado; su saldo ya se trasladó al nuevo préstamo." };
+    if (loan.status === LoanStatus.ANNULLED) return { success: false, message: "El préstamo está anulado." };
+
+    const { penalty, delinquency } = StorageService.getSettings();
+    const reversed = applyPaymentLedger({
+      ...loan,
+      payments: loan.payments.map(p => p.id === paymentId ? { ...p, reversal: { date: new Date().toISOString(), reason: reason.trim() } } : p),
+      updatedAt: new Date().toISOString()
+    });
+    // Installments owed again accrue penalties as of today
+    const updated = evaluateLoanStatus(accruePenalties(reversed, penalty), delinquency);
+
+    loans[loanIndex] = updated;
+
+    // Update Cache (by reference) and the single stored record
+    loansCache = loans;
+    await loanRepository.put(updated);
+    await recordAudit({
+      action: AuditAction.REVERSAL,
+      entity: AuditEntity.LOAN,
+      entityId: updated.id,
+      clientId: updated.clientId,
+      loanId: updated.id,
+      summary: `Pago de ${formatCurrency(payment.amount)} del ${new Date(payment.date).toLocaleDateString('es-PE')} revertido: ${reason.trim()}`,
+      changes: diffRecords(loan, updated)
+    });
+    return { success: true, loan: updated };
+  },
+
+  // Cancels a loan by hand (registered by mistake, not disbursed...). The loan and its ledger are kept;
+  // it simply stops owing anything.
+  annulLoan: async (loanId: string, reason: string): Promise<{ success: boolean, message?: string, loan?: Loan }> => {
+    if (!reason.trim()) return { success: false, message: "Indica el motivo de la anulación." };
+
+    const loans = await StorageService.getLoans();
+    const loanIndex = loans.findIndex(l => l.id === loanId);
+    if (loanIndex === -1) return { success: false, message: "Préstamo no encontrado." };
+
+    const loan = loans[loanIndex];
+    if (loan.status === LoanStatus.ANNULLED || loan.status === LoanStatus.REFINANCED) {
+      return { success: false, message: `El préstamo está ${loan.status.toLowerCase()} y no se puede anular.` };
     }
 
-    loans[loanIndex] = loan;
-    
-    // Update Cache (by reference) and Storage
+    const now = new Date().toISOString();
+    const updated: Loan = {
+      ...loan,
+      status: LoanStatus.ANNULLED,
+      updatedAt: now,
+      statusHistory: [...(loan.statusHistory || []), { from: loan.status, to: LoanStatus.ANNULLED, date: now, reason: reason.trim() }]
+    };
+    loans[loanIndex] = updated;
+
+    // Update Cache (by reference) and the single stored record
     loansCache = loans;
-    localStorage.setItem(LOANS_KEY, JSON.stringify(loans));
-    return loan;
+    await loanRepository.put(updated);
+    await recordAudit({
+      action: AuditAction.ANNUL,
+      entity: AuditEntity.LOAN,
+      entityId: updated.id,
+      clientId: updated.clientId,
+      loanId: updated.id,
+      summary: `Préstamo anulado: ${reason.trim()}`,
+      changes: diffRecords(loan, updated)
+    });
+    return { success: true, loan: updated };
+  },
+
+  applyPrepayment: async (loanId: string, input: PaymentInput, mode: PrepaymentMode): Promise<{ success: boolean, message?: string, loan?: Loan }> => {
+    const loans = await StorageService.getLoans();
+    const loanIndex = loans.findIndex(l => l.id === loanId);
+    if (loanIndex === -1) return { success: false, message: "Préstamo no encontrado." };
+
+    const loan = loans[loanIndex];
+    const quote = quotePrepayment(loan, input.amount, input.date.split('T')[0], mode);
+    if (quote.error) return { success: false, message: quote.error };
+
+    const payment: Payment = {
+      id: Math.random().toString(36).substr(2, 9),
+      amount: quote.appliedAmount,
+      date: input.date,
+      method: input.method,
+      note: input.note || `Prepago de capital (${mode}). Interés ahorrado: ${quote.interestSaved.toFixed(2)}`,
+      collector: input.collector || undefined,
+      allocations: [],
+      prepayment: true
+    };
+
+    const payments = [...(loan.payments || []), payment];
+    const updated = evaluateLoanStatus(applyPaymentLedger({
+      ...loan,
+      installments: quote.installments,
+      payments,
+      duration: quote.installments.length,
+      endDate: quote.installments.length > 0 ? quote.installments[quote.installments.length - 1].dueDate : input.date.split('T')[0],
+      // Prepaid capital stays part of what the client pays overall
+      totalPayable: quote.installments.reduce((acc, i) => acc + i.amount, 0) + payments.filter(p => p.prepayment).reduce((acc, p) => acc + p.amount, 0),
+      updatedAt: new Date().toISOString()
+    }), StorageService.getSettings().delinquency);
+
+    loans[loanIndex] = updated;
+
+    // Update Cache (by reference) and the single stored record
+    loansCache = loans;
+    await loanRepository.put(updated);
+    await recordAudit({
+      action: AuditAction.PREPAYMENT,
+      entity: AuditEntity.LOAN,
+      entityId: updated.id,
+      clientId: updated.clientId,
+      loanId: updated.id,
+      summary: `Prepago de capital de ${formatCurrency(quote.appliedAmount)} (${mode})`,
+      changes: diffRecords(loan, updated)
+    });
+    return { success: true, loan: updated };
+  },
+
+  refinanceLoan: async (originalId: string, newLoan: Loan): Promise<{ success: boolean, message?: string, loan?: Loan }> => {
+    const loans = await StorageService.getLoans();
+    const originalIndex = loans.findIndex(l => l.id === originalId);
+    if (originalIndex === -1) return { success: false, message: "Préstamo original no encontrado." };
+
+    const original = loans[originalIndex];
+    if (original.status === LoanStatus.COMPLETED || original.status === LoanStatus.REFINANCED || original.status === LoanStatus.ANNULLED) {
+      return { success: false, message: `El préstamo está ${original.status.toLowerCase()} y no se puede refinanciar.` };
+    }
+
+    const carried = quoteRefinance(original, newLoan.startDate);
+
+    // The original keeps its installments and ledger untouched; only its status closes it
+    const now = new Date().toISOString();
+    loans[originalIndex] = {
+      ...original,
+      status: LoanStatus.REFINANCED,
+      refinancedInto: newLoan.id,
+      updatedAt: now,
+      statusHistory: [
+        ...(original.statusHistory || []),
+        {
+          from: original.status,
+          to: LoanStatus.REFINANCED,
+          date: now,
+          reason: `Saldo ${carried.total.toFixed(2)} (capital ${carried.capital.toFixed(2)}, interés ${carried.interest.toFixed(2)}, mora ${carried.penalty.toFixed(2)}) trasladado a nuevo préstamo`
+        }
+      ]
+    };
+
+    const refinanced: Loan = { ...newLoan, refinancedFrom: original.id, updatedAt: now };
+    loans.push(refinanced);
+
+    // Update Cache (by reference) and both records in one transaction
+    loansCache = loans;
+    await loanRepository.putMany([loans[originalIndex], refinanced]);
+    await recordAudit(
+      {
+        action: AuditAction.REFINANCE,
+        entity: AuditEntity.LOAN,
+        entityId: original.id,
+        clientId: original.clientId,
+        loanId: original.id,
+        summary: `Refinanciado: saldo de ${formatCurrency(carried.total)} trasladado al préstamo ${refinanced.id}`,
+        changes: diffRecords(original, loans[originalIndex])
+      },
+      { ...loanAudit(undefined, refinanced), summary: `Préstamo creado por ${describeLoan(refinanced)} al refinanciar ${original.id}` }
+    );
+    return { success: true, loan: refinanced };
   },
 
   // --- Data Management Features ---
 
-  exportData: (): string => {
-    // Read from cache if available, otherwise read directly from LS to ensure source of truth if cache is empty (though getClients handles this)
-    const clients = StorageService.getClients();
-    const loans = StorageService.getLoans();
+  // With a passphrase the backup is written encrypted (see services/backupCrypto)
+  exportData: async (passphrase?: string): Promise<string> => {
+    const clients = await StorageService.getClients();
+    const loans = await StorageService.getLoans();
     
     const backup = {
       meta: {
-        version: '1.0',
+        version: SCHEMA_VERSION,
         exportedAt: new Date().toISOString(),
         app: 'LenderPro'
       },
@@ -187,114 +941,265 @@ export const StorageService = {
         loans: loans
       }
     };
-    return JSON.stringify(backup, null, 2);
+    const json = JSON.stringify(backup, null, 2);
+    return passphrase ? encryptBackup(json, passphrase) : json;
   },
 
-  importData: (jsonInput: string | any): { success: boolean, message?: string } => {
+  // Replace import, step 1: validate the backup without writing anything, so the report can be reviewed first
+  validateImport: async (jsonInput: string | any, passphrase?: string): Promise<{ success: boolean, message?: string, error?: BackupError, report?: ValidationReport, clients?: number, loans?: number }> => {
     try {
-      if (!jsonInput) return { success: false, message: "No se proporcionaron datos para importar." };
-      
-      let backup;
-      // Handle both string (from file) and object (if passed directly)
-      if (typeof jsonInput === 'string') {
-        try {
-            backup = JSON.parse(jsonInput);
-        } catch (e) {
-            return { success: false, message: "El archivo está corrupto o no es un JSON válido." };
-        }
-      } else {
-        backup = jsonInput;
-      }
-      
-      // Basic structure validation
-      if (!backup || typeof backup !== 'object') {
-          return { success: false, message: "Estructura del archivo inválida." };
-      }
-      
-      // Flexible data access
-      const dataRoot = backup.data || backup;
-      
-      // Handle cases where keys might be missing
-      const clients = Array.isArray(dataRoot.clients) ? dataRoot.clients : [];
-      const loans = Array.isArray(dataRoot.loans) ? dataRoot.loans : [];
-
-      if (clients.length === 0 && loans.length === 0) {
-          return { success: false, message: "El archivo no contiene clientes ni préstamos." };
-      }
+      const parsed = await readBackup(jsonInput, passphrase);
+      if (!parsed.success || !parsed.clients || !parsed.loans) return { success: false, message: parsed.message, error: parsed.error, report: parsed.report };
+      return { success: true, report: parsed.report, clients: parsed.clients.length, loans: parsed.loans.length };
+    } catch (e: any) {
+      console.error("Error processing backup file", e);
+      return { success: false, message: `Error inesperado: ${e.message}` };
+    }
+  },
+
+  importData: async (jsonInput: string | any, passphrase?: string): Promise<{ success: boolean, message?: string, error?: BackupError }> => {
+    try {
+      const parsed = await readBackup(jsonInput, passphrase);
+      if (!parsed.success || !parsed.clients || !parsed.loans) return { success: false, message: parsed.message, error: parsed.error };
+
+      const snapshotError = await takeSafetySnapshot(SnapshotReason.BEFORE_IMPORT);
+      if (snapshotError) return { success: false, message: snapshotError };
 
-      // --- SANITIZATION & MIGRATION ON IMPORT ---
-      
-      const sanitizedClients = clients
-        .filter((c: any) => c && typeof c === 'object')
-        .map((c: any) => ({
-            id: String(c.id || Math.random().toString(36).substr(2, 9)),
-            name: String(c.name || 'Sin Nombre Recuperado'),
-            dni: String(c.dni || ''),
-            phone: String(c.phone || ''),
-            address: String(c.address || ''),
-            createdAt: c.createdAt || new Date().toISOString()
-        }));
-
-      const sanitizedLoans = loans
-        .filter((l: any) => l && typeof l === 'object')
-        .map((l: any) => ({
-            id: String(l.id || Math.random().toString(36).substr(2, 9)),
-            clientId: String(l.clientId || ''),
-            amount: Number(l.amount) || 0,
-            interestRate: Number(l.interestRate) || 0,
-            interestType: l.interestType || InterestType.PERCENTAGE,
-            frequency: l.frequency || Frequency.MONTHLY,
-            duration: Number(l.duration) || 1,
-            type: l.type || LoanType.SIMPLE,
-            startDate: l.startDate || new Date().toISOString().split('T')[0],
-            endDate: l.endDate || new Date().toISOString().split('T')[0],
-            // Deep sanitization for installments to prevent render crashes
-            installments: (Array.isArray(l.installments) ? l.installments : []).map((i: any) => ({
-                number: Number(i.number) || 0,
-                dueDate: i.dueDate || new Date().toISOString(),
-                amount: Number(i.amount) || 0,
-                capital: Number(i.capital) || 0,
-                interest: Number(i.interest) || 0,
-                status: i.status || InstallmentStatus.PENDING,
-                paymentDate: i.paymentDate || undefined
-            })), 
-            status: l.status || LoanStatus.ACTIVE,
-            totalPayable: Number(l.totalPayable) || 0,
-            totalPaid: Number(l.totalPaid) || 0
-        }));
-
-      // Safe save to Storage with specific error handling
-      try {
-          localStorage.setItem(CLIENTS_KEY, JSON.stringify(sanitizedClients));
-          localStorage.setItem(LOANS_KEY, JSON.stringify(sanitizedLoans));
-      } catch (storageError: any) {
-          // Check for QuotaExceededError
-          if (
-              storageError.name === 'QuotaExceededError' || 
-              storageError.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
-              storageError.code === 22
-          ) {
-              return { success: false, message: "Almacenamiento lleno. Intenta 'Resetear Sistema' antes de importar o libera espacio en el navegador." };
-          }
-          throw storageError;
+      const result = await replaceData(parsed.clients, parsed.loans);
+      if (result.success) {
+        await recordAudit(dataAudit(AuditAction.IMPORT, `Datos reemplazados por un respaldo: ${parsed.clients.length} clientes y ${parsed.loans.length} préstamos`));
       }
+      return result;
+    } catch (e: any) {
+      console.error("Error processing backup file", e);
+      return { success: false, message: `Error inesperado: ${e.message}` };
+    }
+  },
 
-      // Update Cache immediately
-      clientsCache = sanitizedClients;
-      loansCache = sanitizedLoans;
+  // Merge import, step 1: classify the backup against the local data without writing anything
+  previewImport: async (jsonInput: string | any, passphrase?: string): Promise<{ success: boolean, message?: string, error?: BackupError, preview?: MergePreview, report?: ValidationReport }> => {
+    try {
+      const parsed = await readBackup(jsonInput, passphrase);
+      if (!parsed.success || !parsed.clients || !parsed.loans) return { success: false, message: parsed.message, error: parsed.error, report: parsed.report };
 
-      return { success: true };
+      const [clients, loans] = await Promise.all([StorageService.getClients(), StorageService.getLoans()]);
+      return {
+        success: true,
+        preview: buildMergePreview({ clients, loans }, { clients: parsed.clients, loans: parsed.loans }),
+        report: parsed.report
+      };
     } catch (e: any) {
       console.error("Error processing backup file", e);
       return { success: false, message: `Error inesperado: ${e.message}` };
     }
   },
 
-  clearData: (): void => {
-    localStorage.removeItem(CLIENTS_KEY);
-    localStorage.removeItem(LOANS_KEY);
+  // Merge import, step 2: write the records chosen for the preview. Local records not in the backup are kept.
+  applyMergeImport: async (preview: MergePreview, resolutions: Record<string, MergeResolution>, defaultResolution?: MergeResolution): Promise<{ success: boolean, message?: string, written?: number }> => {
+    try {
+      const snapshotError = await takeSafetySnapshot(SnapshotReason.BEFORE_IMPORT);
+      if (snapshotError) return { success: false, message: snapshotError };
+
+      const [localClients, localLoans] = await Promise.all([StorageService.getClients(), StorageService.getLoans()]);
+      const merged = applyMerge(preview, resolutions, defaultResolution);
+      await clientRepository.putMany(merged.clients);
+      await loanRepository.putMany(merged.loans);
+
+      // Reloaded (and re-evaluated) on next read
+      clientsCache = null;
+      loansCache = null;
+      await recordAudit(
+        dataAudit(AuditAction.IMPORT, `Respaldo combinado: ${merged.clients.length} clientes y ${merged.loans.length} préstamos escritos`),
+        ...importAudits(localClients, localLoans, merged.clients, merged.loans)
+      );
+      return { success: true, written: merged.clients.length + merged.loans.length };
+    } catch (e: any) {
+      console.error("Error merging backup", e);
+      return { success: false, message: `No se pudo combinar el respaldo: ${e.message}` };
+    }
+  },
+
+  // Spreadsheet import: adds the clients and loans built from the sheet. Existing records are kept.
+  importRecords: async (clients: Client[], loans: Loan[]): Promise<{ success: boolean, message?: string, written?: number }> => {
+    try {
+      await ensureSchema();
+      const snapshotError = await takeSafetySnapshot(SnapshotReason.BEFORE_IMPORT);
+      if (snapshotError) return { success: false, message: snapshotError };
+
+      await clientRepository.putMany(clients);
+      await loanRepository.putMany(loans);
+
+      // Reloaded (and re-evaluated) on next read
+      clientsCache = null;
+      loansCache = null;
+      await recordAudit(
+        dataAudit(AuditAction.IMPORT, `Importación desde hoja de cálculo: ${clients.length} clientes y ${loans.length} préstamos`),
+        ...importAudits([], [], clients, loans)
+      );
+      return { success: true, written: clients.length + loans.length };
+    } catch (e: any) {
+      console.error("Error importing spreadsheet", e);
+      return { success: false, message: `No se pudo importar la hoja de cálculo: ${e.message}` };
+    }
+  },
+
+  clearData: async (): Promise<{ success: boolean, message?: string }> => {
+    const snapshotError = await takeSafetySnapshot(SnapshotReason.BEFORE_CLEAR);
+    if (snapshotError) return { success: false, message: snapshotError };
+
+    await clientRepository.clear();
+    await loanRepository.clear();
+    await attachmentRepository.clear();
     // Clear Cache
     clientsCache = null;
     loansCache = null;
+    await recordAudit(dataAudit(AuditAction.CLEAR, "Se borraron todos los clientes, préstamos y adjuntos"));
+    return { success: true };
+  },
+
+  // --- Restore Points ---
+
+  // Stores the current data as a restore point and prunes the ones the retention policy no longer keeps.
+  // Nothing is stored while there is no data.
+  createSnapshot: async (reason: SnapshotReason): Promise<Snapshot | null> => {
+    const [clients, loans] = await Promise.all([StorageService.getClients(), StorageService.getLoans()]);
+    if (clients.length === 0 && loans.length === 0) return null;
+
+    const payload = await StorageService.exportData();
+    const snapshot: Snapshot = {
+      id: Math.random().toString(36).substr(2, 9),
+      createdAt: new Date().toISOString(),
+      reason,
+      clients: clients.length,
+      loans: loans.length,
+      size: new Blob([payload]).size
+    };
+    await snapshotRepository.save(snapshot, payload);
+    await snapshotRepository.remove(getExpiredSnapshots(await snapshotRepository.list(), StorageService.getSettings().snapshots));
+    return snapshot;
+  },
+
+  // Run on startup: takes today's daily snapshot when the policy asks for one
+  ensureDailySnapshot: async (): Promise<void> => {
+    if (!StorageService.getSettings().snapshots.daily) return;
+    try {
+      if (isDailySnapshotDue(await snapshotRepository.list())) await StorageService.createSnapshot(SnapshotReason.DAILY);
+    } catch (e) {
+      console.error("Error creating daily snapshot", e);
+    }
+  },
+
+  listSnapshots: async (): Promise<Snapshot[]> => {
+    try {
+      return await snapshotRepository.list();
+    } catch (e) {
+      console.error("Error reading snapshots", e);
+      return [];
+    }
+  },
+
+  // Replaces the current data with a restore point. The current data is saved as a restore point first.
+  restoreSnapshot: async (id: string): Promise<{ success: boolean, message?: string }> => {
+    try {
+      const snapshot = (await snapshotRepository.list()).find(s => s.id === id);
+      const payload = await snapshotRepository.getPayload(id);
+      if (!snapshot || !payload) return { success: false, message: "El punto de restauración ya no existe." };
+
+      const parsed = await readBackup(payload);
+      if (!parsed.success || !parsed.clients || !parsed.loans) return { success: false, message: parsed.message };
+
+      const snapshotError = await takeSafetySnapshot(SnapshotReason.BEFORE_RESTORE);
+      if (snapshotError) return { success: false, message: snapshotError };
+
+      const result = await replaceData(parsed.clients, parsed.loans);
+      if (result.success) {
+        await recordAudit(dataAudit(AuditAction.RESTORE, `Datos restaurados al punto del ${new Date(snapshot.createdAt).toLocaleString('es-PE')} (${snapshot.reason})`));
+      }
+      return result;
+    } catch (e: any) {
+      console.error("Error restoring snapshot", e);
+      return { success: false, message: `No se pudo restaurar: ${e.message}` };
+    }
+  },
+
+  deleteSnapshot: async (id: string): Promise<void> => {
+    await snapshotRepository.remove([id]);
+  },
+
+  // --- Integrity ---
+
+  checkIntegrity: async (): Promise<IntegrityReport> => {
+    const [clients, loans] = await Promise.all([StorageService.getClients(), StorageService.getLoans()]);
+    return checkIntegrity(clients, loans);
+  },
+
+  /**
+   * Links orphaned loans to a client again: the chosen existing client, or (when none is given) a
+   * placeholder created with the missing id. Deleted clients whose loans are still open are reactivated.
+   */
+  repairIntegrity: async (assignments: Record<string, string | undefined>): Promise<{ success: boolean, message?: string, repaired?: number }> => {
+    try {
+      const [clients, loans] = await Promise.all([StorageService.getClients(), StorageService.getLoans()]);
+      const report = checkIntegrity(clients, loans);
+      const now = new Date().toISOString();
+
+      const relinked = report.orphanedLoans
+        .filter(l => assignments[l.id])
+        .map(l => ({ ...l, clientId: assignments[l.id]!, updatedAt: now }));
+      const placeholders = Array.from(new Set(report.orphanedLoans.filter(l => !assignments[l.id]).map(l => l.clientId)))
+        .map(buildPlaceholderClient);
+      const reactivated = report.deletedWithActiveLoans.map(c => ({ ...c, deletedAt: undefined, updatedAt: now }));
+
+      await clientRepository.putMany([...placeholders, ...reactivated]);
+      await loanRepository.putMany(relinked);
+
+      // Reloaded on next read
+      clientsCache = null;
+      loansCache = null;
+
+      const byId = new Map(loans.map(l => [l.id, l]));
+      await recordAudit(
+        ...relinked.map((loan): AuditInput => ({
+          action: AuditAction.REPAIR,
+          entity: AuditEntity.LOAN,
+          entityId: loan.id,
+          clientId: loan.clientId,
+          loanId: loan.id,
+          summary: `Préstamo huérfano asignado a ${clients.find(c => c.id === loan.clientId)?.name || loan.clientId}`,
+          changes: diffRecords(byId.get(loan.id), loan)
+        })),
+        ...placeholders.map((client): AuditInput => ({
+          action: AuditAction.REPAIR,
+          entity: AuditEntity.CLIENT,
+          entityId: client.id,
+          clientId: client.id,
+          summary: `Cliente provisional creado para ${report.orphanedLoans.filter(l => l.clientId === client.id).length} préstamo(s) huérfano(s)`,
+          changes: diffRecords(undefined, client)
+        })),
+        ...reactivated.map((client): AuditInput => ({
+          action: AuditAction.REPAIR,
+          entity: AuditEntity.CLIENT,
+          entityId: client.id,
+          clientId: client.id,
+          summary: `Cliente ${client.name} reactivado: tenía préstamos vigentes`,
+          changes: [{ path: 'deletedAt', before: clients.find(c => c.id === client.id)?.deletedAt, after: undefined }]
+        }))
+      );
+      return { success: true, repaired: relinked.length + placeholders.length + reactivated.length };
+    } catch (e: any) {
+      console.error("Error repairing data", e);
+      return { success: false, message: `No se pudo reparar: ${e.message}` };
+    }
+  },
+
+  // --- Audit Log ---
+
+  getAuditLog: async (filter?: { clientId?: string; loanId?: string }): Promise<AuditEntry[]> => {
+    try {
+      return await auditRepository.list(filter);
+    } catch (e) {
+      console.error("Error reading audit log", e);
+      return [];
+    }
   }
-};
\ No newline at end of file
+};
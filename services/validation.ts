@@ -0,0 +1,269 @@
+import { Client, DocumentType, Frequency, InstallmentStatus, InterestType, Loan, LoanStatus, LoanType, RateBasis, RollConvention, ValidationAction } from '../types';
+
+export interface ValidationIssue {
+  record: string; // Readable label of the record the issue belongs to
+  path: string; // e.g. loans[3].installments[2].amount
+  value: unknown; // Value found in the file
+  action: ValidationAction;
+  fix?: unknown; // Value used instead, when fixed
+  message: string;
+}
+
+export interface ValidationReport {
+  issues: ValidationIssue[];
+  rejectedClients: number;
+  rejectedLoans: number;
+}
+
+/**
+ * How one field is checked. parse returns the normalized value or undefined when the value is invalid.
+ * An invalid or missing value is replaced by fix(record) when given; without a fix the whole record is rejected.
+ * Optional fields may be missing; an invalid optional value is dropped.
+ */
+interface FieldRule {
+  expected: string;
+  parse: (value: unknown) => unknown;
+  optional?: boolean;
+  fix?: (record: Record<string, any>) => unknown; // Sees the fields declared before this one, already validated
+  items?: Schema; // Array of records; a rejected item rejects the parent record
+  minItems?: number | ((record: Record<string, any>) => number); // A function sees the raw record
+}
+
+type Schema = Record<string, FieldRule>;
+type RuleOptions = Pick<FieldRule, 'optional' | 'fix'>;
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+// --- Rule builders ---
+
+const text = (options: RuleOptions & { nonEmpty?: boolean } = {}): FieldRule => ({
+  expected: options.nonEmpty ? 'un texto no vacío' : 'un texto',
+  parse: v => {
+    if (typeof v !== 'string' && typeof v !== 'number') return undefined;
+    const s = String(v).trim();
+    return options.nonEmpty && !s ? undefined : s;
+  },
+  ...options
+});
+
+const num = (options: RuleOptions & { min?: number; integer?: boolean } = {}): FieldRule => ({
+  expected: `un número${options.integer ? ' entero' : ''}${options.min !== undefined ? ` mayor o igual a ${options.min}` : ''}`,
+  parse: v => {
+    if (typeof v === 'string' && v.trim() === '') return undefined;
+    if (typeof v !== 'number' && typeof v !== 'string') return undefined;
+    const n = Number(v);
+    if (!Number.isFinite(n)) return undefined;
+    if (options.min !== undefined && n < options.min) return undefined;
+    if (options.integer && !Number.isInteger(n)) return undefined;
+    return n;
+  },
+  ...options
+});
+
+const oneOf = (values: Record<string, string>, options: RuleOptions = {}): FieldRule => ({
+  expected: `uno de: ${Object.values(values).join(', ')}`,
+  parse: v => Object.values(values).includes(v as string) ? v : undefined,
+  ...options
+});
+
+const isoDate = (options: RuleOptions = {}): FieldRule => ({
+  expected: 'una fecha AAAA-MM-DD',
+  parse: v => typeof v === 'string' && /^\d{4}-\d{2}-\d{2}/.test(v) && !isNaN(Date.parse(v.split('T')[0])) ? v : undefined,
+  ...options
+});
+
+const list = (items: Schema, minItems: FieldRule['minItems'] = 0, options: RuleOptions & { expected?: string } = {}): FieldRule => ({
+  expected: typeof minItems === 'number' && minItems > 0 ? `una lista con al menos ${minItems} elemento(s)` : 'una lista',
+  parse: v => Array.isArray(v) ? v : undefined,
+  items,
+  minItems,
+  ...options
+});
+
+// --- Schemas ---
+
+export const ReferenceSchema: Schema = {
+  name: text({ fix: () => '' }),
+  phone: text({ fix: () => '' }),
+  relationship: text({ fix: () => '' })
+};
+
+export const ClientSchema: Schema = {
+  id: text({ nonEmpty: true, fix: newId }),
+  name: text({ nonEmpty: true, fix: () => 'Sin Nombre Recuperado' }),
+  documentType: oneOf(DocumentType, { optional: true }),
+  dni: text({ fix: () => '' }),
+  phone: text({ fix: () => '' }),
+  address: text({ fix: () => '' }),
+  email: text({ optional: true }),
+  birthDate: isoDate({ optional: true }),
+  occupation: text({ optional: true }),
+  monthlyIncome: num({ min: 0, optional: true }),
+  creditLimit: num({ min: 0, optional: true }),
+  latitude: num({ optional: true }),
+  longitude: num({ optional: true }),
+  zone: text({ optional: true }),
+  collector: text({ optional: true }),
+  routeOrder: num({ min: 0, optional: true }),
+  references: list(ReferenceSchema, 0, { optional: true }),
+  createdAt: isoDate({ fix: () => new Date().toISOString() }),
+  updatedAt: isoDate({ optional: true }),
+  archivedAt: isoDate({ optional: true }),
+  deletedAt: isoDate({ optional: true })
+};
+
+// Capital and interest cannot be rebuilt from anything else, so a bad value rejects the loan
+export const InstallmentSchema: Schema = {
+  number: num({ min: 1, integer: true }),
+  dueDate: isoDate(),
+  capital: num({ min: 0 }),
+  interest: num({ min: 0 }),
+  charges: num({ min: 0, optional: true }),
+  amount: num({ min: 0, fix: r => r.capital + r.interest + (r.charges || 0) }),
+  // Status, payment date and paid amount are recomputed from the payment ledger
+  status: oneOf(InstallmentStatus, { fix: () => InstallmentStatus.PENDING }),
+  paymentDate: isoDate({ optional: true }),
+  penalty: num({ min: 0, optional: true })
+};
+
+export const GuarantorSchema: Schema = {
+  clientId: text({ optional: true }),
+  name: text({ nonEmpty: true, fix: () => 'Aval sin nombre' }),
+  documentType: oneOf(DocumentType, { fix: () => DocumentType.DNI }),
+  dni: text({ fix: () => '' }),
+  phone: text({ fix: () => '' })
+};
+
+// Prepayments still standing in a raw loan's ledger (payments are sanitized apart, see services/storage)
+const getPrepayments = (r: Record<string, any>): any[] =>
+  (Array.isArray(r.payments) ? r.payments : []).filter((p: any) => p && p.prepayment && !p.reversal);
+
+// A prepayment can pay a loan off before its first installment, leaving no schedule
+const lastInstallmentOrPayoff = (r: Record<string, any>): string | undefined => {
+  if (r.installments.length > 0) return r.installments[r.installments.length - 1].dueDate;
+  const payoff = getPrepayments(r).map(p => String(p.date || '')).sort().pop();
+  return payoff ? payoff.split('T')[0] : r.startDate;
+};
+
+export const LoanSchema: Schema = {
+  id: text({ nonEmpty: true, fix: newId }),
+  clientId: text({ nonEmpty: true }),
+  amount: num({ min: 0.01 }),
+  interestRate: num({ min: 0 }),
+  interestType: oneOf(InterestType, { fix: () => InterestType.PERCENTAGE }),
+  rateBasis: oneOf(RateBasis, { optional: true }),
+  frequency: oneOf(Frequency),
+  roll: oneOf(RollConvention, { optional: true }),
+  type: oneOf(LoanType),
+  startDate: isoDate(),
+  installments: list(InstallmentSchema, r => getPrepayments(r).length > 0 ? 0 : 1, {
+    expected: 'una lista con al menos 1 cuota (vacía solo si un prepago canceló el préstamo)'
+  }),
+  duration: num({ min: 0, integer: true, fix: r => r.installments.length }), // 0 once paid off by a prepayment
+  endDate: isoDate({ fix: lastInstallmentOrPayoff }),
+  status: oneOf(LoanStatus, { fix: () => LoanStatus.ACTIVE }),
+  totalPayable: num({ min: 0, fix: r => r.installments.reduce((acc: number, i: any) => acc + i.amount, 0) }),
+  totalPaid: num({ min: 0, fix: () => 0 }),
+  refinancedFrom: text({ optional: true }),
+  refinancedInto: text({ optional: true }),
+  guarantors: list(GuarantorSchema, 0, { optional: true }),
+  updatedAt: isoDate({ optional: true })
+};
+
+// An empty string is a valid text value, but counts as absent for optional fields and fails every other rule
+const isMissing = (value: unknown) => value === undefined || value === null || value === '';
+
+/**
+ * Validates one record against a schema. Fields outside the schema are passed through untouched.
+ * Returns undefined when the record is rejected; every fix and rejection is added to issues.
+ */
+const validateRecord = (schema: Schema, raw: any, path: string, record: string, issues: ValidationIssue[]): Record<string, any> | undefined => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    issues.push({ record, path, value: raw, action: ValidationAction.REJECTED, message: 'Se esperaba un objeto' });
+    return undefined;
+  }
+
+  const result: Record<string, any> = { ...raw };
+  for (const [key, rule] of Object.entries(schema)) {
+    const value = raw[key];
+    const fieldPath = `${path}.${key}`;
+
+    if (isMissing(value) && rule.optional) {
+      delete result[key];
+      continue;
+    }
+
+    let parsed = value === undefined || value === null ? undefined : rule.parse(value);
+
+    if (parsed !== undefined && rule.items) {
+      const items: any[] = [];
+      for (let idx = 0; idx < (parsed as any[]).length; idx++) {
+        const item = validateRecord(rule.items, (parsed as any[])[idx], `${fieldPath}[${idx}]`, record, issues);
+        if (!item) {
+          issues.push({ record, path, value: undefined, action: ValidationAction.REJECTED, message: `Elemento inválido en ${key}` });
+          return undefined;
+        }
+        items.push(item);
+      }
+      const minItems = typeof rule.minItems === 'function' ? rule.minItems(raw) : rule.minItems || 0;
+      parsed = items.length >= minItems ? items : undefined;
+    }
+
+    if (parsed !== undefined) {
+      result[key] = parsed;
+      continue;
+    }
+
+    const message = `${isMissing(value) ? 'Falta el campo' : 'Valor inválido'}: se esperaba ${rule.expected}`;
+    if (rule.optional) {
+      delete result[key];
+      issues.push({ record, path: fieldPath, value, action: ValidationAction.FIXED, message: `${message}. Se descartó` });
+      continue;
+    }
+
+    const fixed = rule.fix ? rule.fix(result) : undefined;
+    if (fixed === undefined) {
+      issues.push({ record, path: fieldPath, value, action: ValidationAction.REJECTED, message });
+      return undefined;
+    }
+    result[key] = fixed;
+    issues.push({ record, path: fieldPath, value, action: ValidationAction.FIXED, fix: fixed, message });
+  }
+  return result;
+};
+
+/**
+ * Validates the clients and loans of a backup (already migrated to the current schema).
+ * Rejected records are left out; the report lists every fix and rejection.
+ */
+export const validateDataSet = (rawClients: any[], rawLoans: any[]): { clients: Client[]; loans: Loan[]; report: ValidationReport } => {
+  const issues: ValidationIssue[] = [];
+  const clientNames = new Map<string, string>();
+
+  const clients = rawClients
+    .map((raw, idx) => {
+      const label = `Cliente ${raw?.name || raw?.dni || `#${idx + 1}`}`;
+      const client = validateRecord(ClientSchema, raw, `clients[${idx}]`, label, issues) as Client | undefined;
+      if (client) clientNames.set(client.id, client.name);
+      return client;
+    })
+    .filter((c): c is Client => !!c);
+
+  const loans = rawLoans
+    .map((raw, idx) => {
+      const owner = clientNames.get(String(raw?.clientId));
+      const label = `Préstamo ${owner ? `de ${owner}` : `#${idx + 1}`}${raw?.startDate ? ` (${String(raw.startDate).split('T')[0]})` : ''}`;
+      return validateRecord(LoanSchema, raw, `loans[${idx}]`, label, issues) as Loan | undefined;
+    })
+    .filter((l): l is Loan => !!l);
+
+  return {
+    clients,
+    loans,
+    report: {
+      issues,
+      rejectedClients: rawClients.length - clients.length,
+      rejectedLoans: rawLoans.length - loans.length
+    }
+  };
+};
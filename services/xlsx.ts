@@ -0,0 +1,349 @@
+/**
+ * Minimal .xlsx support: reading the first worksheet of a legacy spreadsheet, and writing
+ * plain workbooks for export. An .xlsx is a zip of XML parts. Entries are inflated with the
+ * browser's DecompressionStream and read with DOMParser; written entries are stored uncompressed.
+ * Formulas yield their cached value. Of the styles, only percent formats are honoured on read,
+ * so dates come back as Excel serial numbers.
+ */
+
+interface ZipEntry {
+  name: string;
+  method: number; // 0 = stored, 8 = deflate
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIR = 0x06054b50;
+const CENTRAL_DIR_ENTRY = 0x02014b50;
+
+const readEntries = (view: DataView): ZipEntry[] => {
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment
+  let eocd = -1;
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIR) { eocd = i; break; }
+  }
+  if (eocd < 0) throw new Error('El archivo no es un libro de Excel (.xlsx) válido.');
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIR_ENTRY) throw new Error('El archivo .xlsx está dañado.');
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.push({
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+      name: decoder.decode(new Uint8Array(view.buffer, offset + 46, nameLength))
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const readEntry = async (buffer: ArrayBuffer, view: DataView, entry: ZipEntry): Promise<string> => {
+  // Sizes are taken from the central directory; the local header may leave them blank
+  const nameLength = view.getUint16(entry.localHeaderOffset + 26, true);
+  const extraLength = view.getUint16(entry.localHeaderOffset + 28, true);
+  const start = entry.localHeaderOffset + 30 + nameLength + extraLength;
+  const data = buffer.slice(start, start + entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error(`Compresión no soportada en ${entry.name}.`);
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+const parseXml = (xml: string): Document => new DOMParser().parseFromString(xml, 'application/xml');
+
+// Elements are matched by local name so the namespace prefixes used by each producer do not matter
+const byTag = (root: Document | Element, tag: string): Element[] =>
+  Array.from(root.getElementsByTagNameNS('*', tag));
+
+const textOf = (el: Element): string => byTag(el, 't').map(t => t.textContent || '').join('');
+
+// "AB12" -> 27 (zero-based column index)
+const columnIndex = (ref: string): number => {
+  const letters = ref.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+};
+
+const resolvePath = (target: string): string =>
+  target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+
+// Built-in number formats that show a percentage (0% and 0.00%)
+const PERCENT_FORMAT_IDS = [9, 10];
+
+// Style indexes (position in cellXfs) whose number format shows a percentage
+const readPercentStyles = (styles: Document | null): Set<number> => {
+  const percentStyles = new Set<number>();
+  if (!styles) return percentStyles;
+  // Custom formats count when a '%' appears outside quoted literals
+  const customPercent = new Set(byTag(styles, 'numFmt')
+    .filter(f => (f.getAttribute('formatCode') || '').replace(/"[^"]*"/g, '').includes('%'))
+    .map(f => Number(f.getAttribute('numFmtId'))));
+  const cellXfs = byTag(styles, 'cellXfs')[0];
+  if (!cellXfs) return percentStyles;
+  byTag(cellXfs, 'xf').forEach((xf, idx) => {
+    const formatId = Number(xf.getAttribute('numFmtId'));
+    if (PERCENT_FORMAT_IDS.includes(formatId) || customPercent.has(formatId)) percentStyles.add(idx);
+  });
+  return percentStyles;
+};
+
+/**
+ * Rows of the first worksheet, with empty cells as ''. Numeric cells come back as numbers so they are
+ * not read again as locale text; percent-formatted ones as the percentage shown (0.05 -> 5).
+ * Trailing empty rows are dropped.
+ */
+export const readXlsxRows = async (buffer: ArrayBuffer): Promise<(string | number)[][]> => {
+  const view = new DataView(buffer);
+  const entries = new Map(readEntries(view).map(e => [e.name, e]));
+  const read = async (name: string) => {
+    const entry = entries.get(name);
+    return entry ? parseXml(await readEntry(buffer, view, entry)) : null;
+  };
+
+  // First sheet in workbook order, through the relationship that points at its part
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const workbook = await read('xl/workbook.xml');
+  const rels = await read('xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook ? byTag(workbook, 'sheet')[0] : undefined;
+  if (firstSheet && rels) {
+    const relId = Array.from(firstSheet.attributes).find(a => a.localName === 'id')?.value;
+    const rel = byTag(rels, 'Relationship').find(r => r.getAttribute('Id') === relId);
+    const target = rel?.getAttribute('Target');
+    if (target) sheetPath = resolvePath(target);
+  }
+
+  const sheet = await read(sheetPath);
+  if (!sheet) throw new Error('El libro no contiene hojas legibles.');
+
+  const sharedDoc = await read('xl/sharedStrings.xml');
+  const shared = sharedDoc ? byTag(sharedDoc, 'si').map(textOf) : [];
+  const percentStyles = readPercentStyles(await read('xl/styles.xml'));
+
+  const rows: (string | number)[][] = [];
+  byTag(sheet, 'row').forEach(rowEl => {
+    const rowNumber = Number(rowEl.getAttribute('r')) || rows.length + 1;
+    const row: (string | number)[] = [];
+    byTag(rowEl, 'c').forEach((cell, idx) => {
+      const ref = cell.getAttribute('r');
+      const col = ref ? columnIndex(ref) : idx;
+      const type = cell.getAttribute('t');
+      const raw = byTag(cell, 'v')[0]?.textContent ?? '';
+
+      let value = raw;
+      if (type === 's') value = shared[Number(raw)] ?? '';
+      else if (type === 'inlineStr') value = textOf(cell);
+      else if (type === 'b') value = raw === '1' ? 'VERDADERO' : 'FALSO';
+
+      while (row.length < col) row.push('');
+      if ((!type || type === 'n') && raw.trim() !== '' && Number.isFinite(Number(raw))) {
+        const number = Number(raw);
+        // toPrecision drops the float noise of the scaling (0.07 * 100 = 7.000000000000001)
+        row[col] = percentStyles.has(Number(cell.getAttribute('s'))) ? Number((number * 100).toPrecision(12)) : number;
+      } else {
+        row[col] = value.trim();
+      }
+    });
+    // Rows skipped by the file (entirely empty) keep their position so error messages match the sheet
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows.push(row);
+  });
+
+  while (rows.length > 0 && rows[rows.length - 1].every(c => c === '')) rows.pop();
+  return rows;
+};
+
+// --- Writing ---
+
+export type XlsxCell = string | number | { date: string } | null; // Dates as YYYY-MM-DD
+
+export interface XlsxSheet {
+  name: string;
+  columns: { header: string; width?: number; format?: 'integer' | 'decimal' | 'percent' }[];
+  rows: XlsxCell[][];
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Zip archive with every entry stored uncompressed
+const buildZip = (files: { name: string; content: string }[]): Blob => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // Version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, CENTRAL_DIR_ENTRY, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+
+    parts.push(new Uint8Array(local.buffer), name, data);
+    central.push(new Uint8Array(entry.buffer), name);
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((acc, p) => acc + p.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIR, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const blobParts = [...parts, ...central, new Uint8Array(end.buffer)].map(p => p.slice().buffer as ArrayBuffer);
+  return new Blob(blobParts, { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  return name;
+};
+
+const toSerial = (isoDate: string): number | undefined => {
+  const match = isoDate.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return undefined;
+  return Math.round((Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) - Date.UTC(1899, 11, 30)) / 86400000);
+};
+
+// Cell styles (index into cellXfs): built-in formats, so Excel shows them in the user's locale
+const STYLE = { header: 1, integer: 2, decimal: 3, percent: 4, date: 5 };
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="6">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="1" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+</styleSheet>`;
+
+const sheetXml = (sheet: XlsxSheet): string => {
+  const cell = (value: XlsxCell, ref: string, format?: XlsxSheet['columns'][number]['format']): string => {
+    if (value === null || value === '') return '';
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) return '';
+      const style = format ? ` s="${STYLE[format]}"` : '';
+      return `<c r="${ref}"${style}><v>${format === 'percent' ? value / 100 : value}</v></c>`;
+    }
+    if (typeof value === 'object') {
+      const serial = toSerial(value.date);
+      return serial === undefined ? '' : `<c r="${ref}" s="${STYLE.date}"><v>${serial}</v></c>`;
+    }
+    return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+  };
+
+  const header = `<row r="1">${sheet.columns.map((c, i) =>
+    `<c r="${columnName(i)}1" t="inlineStr" s="${STYLE.header}"><is><t>${escapeXml(c.header)}</t></is></c>`).join('')}</row>`;
+  const body = sheet.rows.map((row, r) =>
+    `<row r="${r + 2}">${row.map((value, i) => cell(value, `${columnName(i)}${r + 2}`, sheet.columns[i]?.format)).join('')}</row>`).join('');
+  const cols = sheet.columns.map((c, i) => `<col min="${i + 1}" max="${i + 1}" width="${c.width || 14}" customWidth="1"/>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols>${cols}</cols><sheetData>${header}${body}</sheetData></worksheet>`;
+};
+
+/**
+ * Builds an .xlsx workbook with one worksheet per sheet. The header row is bold and frozen;
+ * numbers and dates are written as typed cells with built-in formats.
+ */
+export const writeXlsx = (sheets: XlsxSheet[]): Blob => {
+  // Sheet names: at most 31 characters, without []:*?/\
+  const names = sheets.map(s => s.name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31));
+
+  return buildZip([
+    {
+      name: '[Content_Types].xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n')}
+</Types>`
+    },
+    {
+      name: '_rels/.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>
+</workbook>`
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('\n')}
+<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`
+    },
+    { name: 'xl/styles.xml', content: STYLES_XML },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, content: sheetXml(sheet) }))
+  ]);
+};
@@ -1,13 +1,22 @@
 export enum Frequency {
   DAILY = 'Diario',
   WEEKLY = 'Semanal',
-  BIWEEKLY = 'Quincenal',
+  BIWEEKLY = 'Quincenal', // Every 14 days
+  SEMIMONTHLY = 'Semimensual (1 y 15)',
   MONTHLY = 'Mensual'
 }
 
+export enum RollConvention {
+  NEXT = 'Siguiente día hábil',
+  PREVIOUS = 'Día hábil anterior',
+  NONE = 'Sin ajuste'
+}
+
 export enum LoanType {
   SIMPLE = 'Interés Simple',
-  FRENCH = 'Sistema Francés'
+  FRENCH = 'Sistema Francés',
+  GERMAN = 'Sistema Alemán',
+  AMERICAN = 'Sistema Americano'
 }
 
 export enum InterestType {
@@ -15,24 +24,105 @@ export enum InterestType {
   FIXED_AMOUNT = 'Monto Fijo ($)'
 }
 
+export enum RateBasis {
+  TERM = 'Global del Plazo',
+  PER_PERIOD = 'Por Periodo',
+  NOMINAL_ANNUAL = 'Nominal Anual (TNA)',
+  EFFECTIVE_ANNUAL = 'Efectiva Anual (TEA)'
+}
+
 export enum LoanStatus {
   ACTIVE = 'Activo',
   COMPLETED = 'Pagado',
-  DEFAULTED = 'En Mora'
+  DEFAULTED = 'En Mora',
+  REFINANCED = 'Refinanciado',
+  ANNULLED = 'Anulado' // Cancelled by hand with a reason; kept for the record but owes nothing
 }
 
 export enum InstallmentStatus {
   PENDING = 'Pendiente',
+  PARTIAL = 'Parcial',
   PAID = 'Pagado',
   LATE = 'Vencido'
 }
 
+export enum DocumentType {
+  DNI = 'DNI',
+  CE = 'CE', // Carné de Extranjería
+  RUC = 'RUC'
+}
+
+export enum AttachmentKind {
+  ID = 'Documento de identidad',
+  CONTRACT = 'Contrato',
+  OTHER = 'Otro'
+}
+
+// Repayment grade of a client, from A (most reliable) to E
+export enum CreditGrade {
+  A = 'A',
+  B = 'B',
+  C = 'C',
+  D = 'D',
+  E = 'E'
+}
+
+export enum PaymentMethod {
+  CASH = 'Efectivo',
+  TRANSFER = 'Transferencia',
+  WALLET = 'Yape / Plin',
+  OTHER = 'Otro'
+}
+
 export interface Client {
   id: string;
   name: string;
-  dni: string;
+  documentType?: DocumentType; // Kind of document in dni. Missing on old clients: DNI
+  dni: string; // Document number
   phone: string;
   address: string;
+  email?: string;
+  birthDate?: string; // YYYY-MM-DD
+  occupation?: string;
+  monthlyIncome?: number;
+  creditLimit?: number; // Replaces the general exposure limit for this client
+  latitude?: number; // Home or business location
+  longitude?: number;
+  zone?: string; // Collection zone, e.g. Mercado Central
+  collector?: string; // Collector who visits this client
+  routeOrder?: number; // Position in the collector's route within the zone
+  references?: ClientReference[];
+  createdAt: string;
+  updatedAt?: string; // Last local change, used to pick the newest record when merging imports
+  // Clients are never removed: archived ones leave the working lists, deleted ones are kept only so
+  // their loans and history still resolve. Both can be restored.
+  archivedAt?: string;
+  deletedAt?: string;
+}
+
+export interface ClientReference {
+  name: string;
+  phone: string;
+  relationship: string; // e.g. Hermano, Vecino, Empleador
+}
+
+// Co-signer of a loan. Either a registered client (clientId) or someone entered only on the loan.
+export interface Guarantor {
+  clientId?: string;
+  name: string;
+  documentType: DocumentType;
+  dni: string;
+  phone: string;
+}
+
+// File kept with a client (ID photo, signed contract). The content is stored apart as a Blob.
+export interface Attachment {
+  id: string;
+  clientId: string;
+  name: string;
+  mimeType: string;
+  size: number; // Bytes
+  kind: AttachmentKind;
   createdAt: string;
 }
 
@@ -44,6 +134,61 @@ export interface Installment {
   interest: number;
   status: InstallmentStatus;
   paymentDate?: string;
+  paidAmount?: number; // Derived from the payment ledger
+  penalty?: number; // Accrued late-payment charge (mora)
+  charges?: number; // Recurring charges (insurance, admin fees), already included in amount
+}
+
+export interface PaymentAllocation {
+  installmentNumber: number;
+  amount: number;
+}
+
+// A payment entered by mistake is reversed, never deleted: it stays in the ledger but no longer counts
+export interface PaymentReversal {
+  date: string; // ISO Date
+  reason: string;
+}
+
+export interface Payment {
+  id: string;
+  amount: number;
+  date: string; // ISO Date
+  method: PaymentMethod;
+  note?: string;
+  collector?: string;
+  allocations: PaymentAllocation[];
+  prepayment?: boolean; // Extra capital payment, not applied to any installment
+  reversal?: PaymentReversal;
+}
+
+export enum PrepaymentMode {
+  SHORTEN_TERM = 'Reducir Plazo',
+  REDUCE_QUOTA = 'Reducir Cuota'
+}
+
+export enum ChargeType {
+  UPFRONT = 'Al Desembolso',
+  RECURRING = 'Por Cuota'
+}
+
+export enum ChargeCalculation {
+  FIXED = 'Monto Fijo',
+  PERCENTAGE = 'Porcentaje'
+}
+
+export enum UpfrontChargeMode {
+  DEDUCTED = 'Descontado del Desembolso',
+  FINANCED = 'Financiado'
+}
+
+export interface LoanCharge {
+  id: string;
+  name: string; // e.g. Comisión de apertura, Seguro de desgravamen
+  type: ChargeType;
+  calculation: ChargeCalculation;
+  value: number; // Amount, or % of the principal (upfront) / of the capital still owed (recurring)
+  upfrontMode?: UpfrontChargeMode; // Upfront charges only
 }
 
 export interface Loan {
@@ -52,13 +197,182 @@ export interface Loan {
   amount: number; // Principal
   interestRate: number; // Percentage or Amount depending on type
   interestType: InterestType; 
+  rateBasis?: RateBasis; // How interestRate is expressed. Missing on old loans: the native basis of the loan type
+  variableRates?: { [installmentNumber: number]: number }; // Rate steps applied from that installment onwards
   frequency: Frequency;
+  roll?: RollConvention; // How due dates falling on non-working days are moved
+  charges?: LoanCharge[]; // Fees and insurance on top of principal and interest
   duration: number; // Number of installments
   type: LoanType;
   startDate: string;
-  endDate: string; // New field
+  endDate: string; // Due date of the last installment
   installments: Installment[];
+  payments: Payment[];
   status: LoanStatus;
+  statusHistory?: LoanStatusChange[];
+  refinancedFrom?: string; // Loan whose balance was carried into this one
+  refinancedInto?: string; // Loan that replaced this one
+  guarantors?: Guarantor[];
+  limitOverride?: LimitOverride; // Set when the loan was granted past a credit limit
   totalPayable: number;
-  totalPaid: number;
-}
\ No newline at end of file
+  totalPaid: number; // Sum of the payment ledger
+  updatedAt?: string; // Last local change, used to pick the newest record when merging imports
+}
+
+export interface LimitOverride {
+  date: string; // ISO Date
+  reason: string;
+  breaches: string[]; // The limits exceeded, as shown when the loan was approved
+}
+
+export interface LoanStatusChange {
+  from: LoanStatus;
+  to: LoanStatus;
+  date: string; // ISO Date
+  reason: string;
+}
+
+export interface PenaltyPolicy {
+  enabled: boolean;
+  flatFee: number; // Charged once when the grace period is over
+  dailyRate: number; // % of the installment amount per day late
+  graceDays: number;
+  capPercent: number; // Max penalty as % of the installment amount (0 = no cap)
+}
+
+export interface DelinquencyPolicy {
+  daysOverdue: number; // Oldest overdue installment, in days (0 = ignore)
+  installmentsOverdue: number; // Number of overdue installments (0 = ignore)
+}
+
+// Checked when a loan is granted. Limits set to 0 do not apply.
+export interface CreditPolicy {
+  maxExposure: number; // Balance a client may owe across all open loans, the new one included
+  maxActiveLoans: number; // Open loans at the same time, the new one included
+  blockDefaulted: boolean; // No new loans while the client has one in default
+  allowOverride: boolean; // A breach can be accepted with a written reason; otherwise it blocks the loan
+}
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name?: string;
+}
+
+export interface BusinessCalendar {
+  nonWorkingDays: number[]; // 0 = Sunday ... 6 = Saturday
+  holidays: Holiday[];
+  roll: RollConvention; // Default for new loans
+}
+
+export interface SnapshotPolicy {
+  daily: boolean; // Take a snapshot on the first start of each day
+  keepDaily: number; // Daily snapshots kept
+  keepOther: number; // Snapshots taken before imports, resets, restores or by hand
+}
+
+export interface AppSettings {
+  penalty: PenaltyPolicy;
+  delinquency: DelinquencyPolicy;
+  calendar: BusinessCalendar;
+  snapshots: SnapshotPolicy;
+  credit: CreditPolicy;
+  operator: string; // Name recorded as the author of each change in the audit log
+}
+
+export enum MergeStatus {
+  NEW = 'Nuevo',
+  UPDATED = 'Actualizado',
+  CONFLICT = 'Conflicto',
+  UNCHANGED = 'Sin Cambios'
+}
+
+export enum MergeResolution {
+  KEEP_LOCAL = 'Conservar local',
+  KEEP_INCOMING = 'Usar importado',
+  KEEP_NEWEST = 'El más reciente'
+}
+
+export enum ValidationAction {
+  FIXED = 'Corregido',
+  REJECTED = 'Rechazado'
+}
+
+export enum ExportDataset {
+  CLIENTS = 'Clientes',
+  LOANS = 'Préstamos',
+  SCHEDULES = 'Cronogramas',
+  PAYMENTS = 'Pagos'
+}
+
+export enum ExportFormat {
+  CSV = 'CSV',
+  XLSX = 'Excel (.xlsx)'
+}
+
+export enum BackupError {
+  PASSPHRASE_REQUIRED = 'Contraseña requerida',
+  WRONG_PASSPHRASE = 'Contraseña incorrecta',
+  CORRUPTED = 'Archivo dañado'
+}
+
+export enum SnapshotReason {
+  DAILY = 'Diario',
+  BEFORE_IMPORT = 'Antes de importar',
+  BEFORE_CLEAR = 'Antes de borrar todo',
+  BEFORE_RESTORE = 'Antes de restaurar',
+  MANUAL = 'Manual'
+}
+
+// Restore point kept in the browser. The data itself is stored apart, as a backup JSON.
+export interface Snapshot {
+  id: string;
+  createdAt: string;
+  reason: SnapshotReason;
+  clients: number;
+  loans: number;
+  size: number; // Bytes of the stored backup
+}
+
+export enum AuditAction {
+  CREATE = 'Alta',
+  UPDATE = 'Modificación',
+  PAYMENT = 'Pago',
+  PREPAYMENT = 'Prepago',
+  REVERSAL = 'Reversión',
+  REFINANCE = 'Refinanciación',
+  IMPORT = 'Importación',
+  RESTORE = 'Restauración',
+  CLEAR = 'Borrado total',
+  ARCHIVE = 'Archivado',
+  DELETE = 'Eliminación',
+  REACTIVATE = 'Reactivación',
+  ANNUL = 'Anulación',
+  REPAIR = 'Reparación'
+}
+
+export enum AuditEntity {
+  CLIENT = 'Cliente',
+  LOAN = 'Préstamo',
+  DATA = 'Datos' // Bulk operations over the whole portfolio
+}
+
+// One changed value. Paths follow the record, e.g. "installments[2].paidAmount".
+export interface AuditChange {
+  path: string;
+  before?: any;
+  after?: any;
+}
+
+// Append-only: entries are never updated or removed, not even when all data is cleared
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actor: string;
+  action: AuditAction;
+  entity: AuditEntity;
+  entityId?: string;
+  clientId?: string;
+  loanId?: string;
+  summary: string;
+  changes: AuditChange[];
+}
@@ -1,4 +1,4 @@
-import { Frequency, Installment, InstallmentStatus, LoanType, InterestType } from './types';
+import { Frequency, Installment, InstallmentStatus, LoanType, InterestType, Loan, LoanStatus, Payment, PaymentAllocation, PaymentMethod, RateBasis, BusinessCalendar, RollConvention, LoanCharge, ChargeType, ChargeCalculation, UpfrontChargeMode } from './types';
 
 // --- Date Helpers (Robust Timezone Handling) ---
 
@@ -53,8 +53,16 @@ export const addTime = (date: Date, frequency: Frequency, count: number): Date =
       result.setDate(result.getDate() + (count * 7));
       break;
     case Frequency.BIWEEKLY:
-      result.setDate(result.getDate() + (count * 15));
+      result.setDate(result.getDate() + (count * 14));
       break;
+    case Frequency.SEMIMONTHLY: {
+      // Half-months anchored on the 1st and the 15th: count = 1 is the first anchor after the date
+      const half = result.getMonth() * 2 + (result.getDate() >= 15 ? 1 : 0) + count;
+      result.setDate(1);
+      result.setMonth(Math.floor(half / 2));
+      result.setDate(half % 2 === 0 ? 1 : 15);
+      break;
+    }
     case Frequency.MONTHLY:
       result.setMonth(result.getMonth() + count);
       break;
@@ -62,7 +70,36 @@ export const addTime = (date: Date, frequency: Frequency, count: number): Date =
   return result;
 };
 
-export const calculateDurationFromDates = (start: string, end: string, frequency: Frequency): number => {
+// --- Business Calendar ---
+
+export const isBusinessDay = (date: Date, calendar?: BusinessCalendar): boolean => {
+  if (!calendar) return true;
+  if (calendar.nonWorkingDays.includes(date.getDay())) return false;
+  const iso = toISODate(date);
+  return !calendar.holidays.some(h => h.date === iso);
+};
+
+/**
+ * Moves a date off non-working days following the calendar's roll convention.
+ * Gives up after a month so a calendar with every weekday closed cannot loop forever.
+ */
+export const rollDate = (date: Date, calendar?: BusinessCalendar): Date => {
+  if (!calendar || calendar.roll === RollConvention.NONE) return date;
+
+  const step = calendar.roll === RollConvention.PREVIOUS ? -1 : 1;
+  const result = new Date(date);
+  for (let i = 0; i < 31 && !isBusinessDay(result, calendar); i++) {
+    result.setDate(result.getDate() + step);
+  }
+  return isBusinessDay(result, calendar) ? result : date;
+};
+
+// Due date of the n-th installment: the nominal period end, rolled to a business day
+export const getDueDate = (start: Date, frequency: Frequency, count: number, calendar?: BusinessCalendar): Date => {
+  return rollDate(addTime(start, frequency, count), calendar);
+};
+
+export const calculateDurationFromDates = (start: string, end: string, frequency: Frequency, calendar?: BusinessCalendar): number => {
   const startDate = parseDate(start);
   const endDate = parseDate(end);
   
@@ -73,7 +110,7 @@ export const calculateDurationFromDates = (start: string, end: string, frequency
   let count = 0;
   // Safety limit of 100 years to prevent infinite loops if dates are wild
   while (count < 1200) { 
-    const nextDate = addTime(startDate, frequency, count + 1);
+    const nextDate = getDueDate(startDate, frequency, count + 1, calendar);
     if (nextDate > endDate) break;
     count++;
   }
@@ -81,14 +118,180 @@ export const calculateDurationFromDates = (start: string, end: string, frequency
   return count > 0 ? count : 1;
 };
 
+// --- Rate Conversion ---
+
+// Commercial year of 360 days, as used for TEA/TCEA disclosures in Peru
+export const DAYS_PER_YEAR = 360;
+
+export const PERIODS_PER_YEAR: Record<Frequency, number> = {
+  [Frequency.DAILY]: DAYS_PER_YEAR,
+  [Frequency.WEEKLY]: 52,
+  [Frequency.BIWEEKLY]: 26,
+  [Frequency.SEMIMONTHLY]: 24,
+  [Frequency.MONTHLY]: 12
+};
+
+// The basis calculateSchedule expects: simple loans take a global rate, amortizing systems a rate per period
+export const getDefaultRateBasis = (loanType: LoanType): RateBasis => {
+  return loanType === LoanType.SIMPLE ? RateBasis.TERM : RateBasis.PER_PERIOD;
+};
+
+const toPerPeriod = (rate: number, basis: RateBasis, frequency: Frequency, duration: number): number => {
+  const ppy = PERIODS_PER_YEAR[frequency];
+  switch (basis) {
+    case RateBasis.TERM:
+      return duration > 0 ? rate / duration : rate;
+    case RateBasis.NOMINAL_ANNUAL:
+      return rate / ppy;
+    case RateBasis.EFFECTIVE_ANNUAL:
+      return (Math.pow(1 + rate / 100, 1 / ppy) - 1) * 100;
+    default:
+      return rate;
+  }
+};
+
+const fromPerPeriod = (rate: number, basis: RateBasis, frequency: Frequency, duration: number): number => {
+  const ppy = PERIODS_PER_YEAR[frequency];
+  switch (basis) {
+    case RateBasis.TERM:
+      return rate * duration;
+    case RateBasis.NOMINAL_ANNUAL:
+      return rate * ppy;
+    case RateBasis.EFFECTIVE_ANNUAL:
+      return (Math.pow(1 + rate / 100, ppy) - 1) * 100;
+    default:
+      return rate;
+  }
+};
+
+/**
+ * Converts a percentage rate between bases for a given payment frequency.
+ * TERM spreads linearly over the number of installments; TEA compounds per period.
+ */
+export const convertRate = (rate: number, from: RateBasis, to: RateBasis, frequency: Frequency, duration: number): number => {
+  if (from === to) return rate;
+  return fromPerPeriod(toPerPeriod(rate, from, frequency, duration), to, frequency, duration);
+};
+
+/**
+ * Rate and rate steps of a loan expressed the way calculateSchedule expects them.
+ * Fixed interest amounts are passed through untouched.
+ */
+export const getScheduleRates = (
+  loan: Pick<Loan, 'interestRate' | 'interestType' | 'rateBasis' | 'variableRates' | 'frequency' | 'duration' | 'type'>
+): { rate: number; variableRates?: { [installmentNumber: number]: number } } => {
+  if (loan.interestType === InterestType.FIXED_AMOUNT || !loan.rateBasis) {
+    return { rate: loan.interestRate, variableRates: loan.variableRates };
+  }
+
+  const target = getDefaultRateBasis(loan.type);
+  const convert = (rate: number) => convertRate(rate, loan.rateBasis!, target, loan.frequency, loan.duration);
+
+  if (!loan.variableRates) return { rate: convert(loan.interestRate) };
+  const variableRates: { [installmentNumber: number]: number } = {};
+  Object.entries(loan.variableRates).forEach(([key, value]) => { variableRates[Number(key)] = convert(value); });
+  return { rate: convert(loan.interestRate), variableRates };
+};
+
+/**
+ * Total effective annual cost (TCEA): the annual rate, on a 360-day year, that discounts
+ * every cash flow the client pays back to the net amount actually received.
+ */
+export const calculateTCEA = (disbursed: number, flows: { date: string; amount: number }[], startDate: string): number => {
+  if (disbursed <= 0 || flows.length === 0) return 0;
+
+  const start = parseDate(startDate.split('T')[0]).getTime();
+  const timed = flows.map(f => ({
+    amount: f.amount,
+    years: Math.max(0, Math.round((parseDate(f.date.split('T')[0]).getTime() - start) / (1000 * 60 * 60 * 24))) / DAYS_PER_YEAR
+  }));
+
+  const npv = (r: number) => timed.reduce((acc, f) => acc + f.amount / Math.pow(1 + r, f.years), 0) - disbursed;
+
+  // Repaying less than received means a negative cost; bisection handles both signs
+  let low = -0.99;
+  let high = 1;
+  while (npv(high) > 0 && high < 1e6) high *= 2;
+  for (let iter = 0; iter < 200; iter++) {
+    const mid = (low + high) / 2;
+    if (npv(mid) > 0) low = mid;
+    else high = mid;
+  }
+
+  return ((low + high) / 2) * 100;
+};
+
+export const getLoanTCEA = (loan: Loan): number => {
+  const flows = [
+    ...loan.installments.map(i => ({ date: i.dueDate, amount: i.amount })),
+    ...(loan.payments || []).filter(p => p.prepayment).map(p => ({ date: p.date, amount: p.amount }))
+  ];
+  return calculateTCEA(getDisbursedAmount(loan), flows, loan.startDate);
+};
+
 // --- Financial Core ---
 
+/**
+ * Total interest an amortizing system charges at a constant rate per period.
+ */
+const totalInterestAtRate = (amount: number, i: number, duration: number, loanType: LoanType): number => {
+  if (i === 0) return 0;
+  switch (loanType) {
+    case LoanType.GERMAN:
+      return amount * i * (duration + 1) / 2;
+    case LoanType.AMERICAN:
+      return amount * i * duration;
+    default: {
+      const pmt = amount * (i * Math.pow(1 + i, duration)) / (Math.pow(1 + i, duration) - 1);
+      return pmt * duration - amount;
+    }
+  }
+};
+
+/**
+ * Converts a fixed total interest amount into the equivalent rate per period (in %)
+ * for the French, German and American systems. Rate steps given as amounts are scaled by the same factor.
+ */
+export const toPeriodRates = (
+  amount: number,
+  fixedInterest: number,
+  duration: number,
+  loanType: LoanType,
+  variableRates?: { [installmentNumber: number]: number }
+): { rate: number; variableRates?: { [installmentNumber: number]: number } } => {
+  if (amount <= 0 || fixedInterest <= 0 || duration <= 0) return { rate: 0, variableRates };
+
+  // Bisection on the rate per period; total interest grows monotonically with the rate
+  let low = 0;
+  let high = 1;
+  while (totalInterestAtRate(amount, high, duration, loanType) < fixedInterest && high < 1000) high *= 2;
+  for (let iter = 0; iter < 100; iter++) {
+    const mid = (low + high) / 2;
+    if (totalInterestAtRate(amount, mid, duration, loanType) < fixedInterest) low = mid;
+    else high = mid;
+  }
+
+  const rate = ((low + high) / 2) * 100;
+  if (!variableRates) return { rate };
+
+  const factor = rate / fixedInterest;
+  const scaled: { [installmentNumber: number]: number } = {};
+  Object.entries(variableRates).forEach(([key, value]) => { scaled[Number(key)] = value * factor; });
+  return { rate, variableRates: scaled };
+};
+
 /**
  * Calculates the loan amortization schedule.
  * Supports variable rates via the variableRates parameter.
+ *
+ * Simple loans spread a global rate (or fixed amount) evenly over the term. French, German and
+ * American loans charge a rate per period on the remaining capital; a fixed amount is converted
+ * to its equivalent rate per period (see toPeriodRates).
  * 
  * @param variableRates - An optional object where keys are installment numbers (1-based) 
  * and values are the new rate/amount to apply from that period onwards.
+ * @param calendar - Optional business calendar; due dates on non-working days are rolled.
+ * Interest still accrues on the nominal periods.
  */
 export const calculateSchedule = (
   amount: number,
@@ -98,7 +301,8 @@ export const calculateSchedule = (
   duration: number,
   loanType: LoanType,
   startDate: string,
-  variableRates?: { [installmentNumber: number]: number }
+  variableRates?: { [installmentNumber: number]: number },
+  calendar?: BusinessCalendar
 ): Installment[] => {
   const installments: Installment[] = [];
   let currentDate = parseDate(startDate);
@@ -120,7 +324,7 @@ export const calculateSchedule = (
         currentRate = variableRates[i];
       }
 
-      currentDate = addTime(parseDate(startDate), frequency, i);
+      currentDate = getDueDate(parseDate(startDate), frequency, i, calendar);
       
       let interestForPeriod = 0;
       
@@ -144,15 +348,17 @@ export const calculateSchedule = (
       });
     }
 
-  } else if (loanType === LoanType.FRENCH) {
-    // Fallback if Fixed Amount is selected for French (treat as simple)
+  } else {
+    // Amortizing systems work with a rate per period. A fixed interest amount is converted to its equivalent rate.
     if (interestType === InterestType.FIXED_AMOUNT) {
-         return calculateSchedule(amount, initialRateOrAmount, interestType, frequency, duration, LoanType.SIMPLE, startDate, variableRates);
+      const periodRates = toPeriodRates(amount, initialRateOrAmount, duration, loanType, variableRates);
+      return calculateSchedule(amount, periodRates.rate, InterestType.PERCENTAGE, frequency, duration, loanType, startDate, periodRates.variableRates, calendar);
     }
 
-    // French System with Variable Rates (Re-amortization)
+    // French (constant quota), German (constant capital) and American (interest only, bullet capital)
+    // all re-amortize the remaining capital over the remaining terms when the rate changes.
     let remainingCapital = amount;
-    let installmentAmount = 0; // PMT
+    let installmentAmount = 0; // PMT, French only
 
     for (let k = 1; k <= duration; k++) {
       // Check for rate change
@@ -162,13 +368,13 @@ export const calculateSchedule = (
         rateChanged = true;
       }
 
+      const i = currentRate / 100; // Rate per period
+      const remainingTerms = duration - k + 1;
+
       // Calculate (or Recalculate) PMT if:
       // 1. It's the first period
       // 2. The rate has changed (Re-amortization based on remaining capital and remaining terms)
-      if (k === 1 || rateChanged) {
-        const i = currentRate / 100; // Rate per period
-        const remainingTerms = duration - k + 1;
-        
+      if (loanType === LoanType.FRENCH && (k === 1 || rateChanged)) {
         if (i === 0) {
           installmentAmount = remainingCapital / remainingTerms;
         } else {
@@ -177,22 +383,22 @@ export const calculateSchedule = (
         }
       }
 
-      const i = currentRate / 100;
       const interestPayment = remainingCapital * i;
-      let capitalPayment = installmentAmount - interestPayment;
+      let capitalPayment = 0;
+      if (loanType === LoanType.FRENCH) capitalPayment = installmentAmount - interestPayment;
+      else if (loanType === LoanType.GERMAN) capitalPayment = remainingCapital / remainingTerms;
       
-      // Handle last installment rounding to ensure perfect zero balance
+      // Handle last installment rounding to ensure perfect zero balance (and the bullet payment for American)
       if (k === duration) {
         capitalPayment = remainingCapital;
-        installmentAmount = capitalPayment + interestPayment;
       }
 
-      currentDate = addTime(parseDate(startDate), frequency, k);
+      currentDate = getDueDate(parseDate(startDate), frequency, k, calendar);
       
       installments.push({
         number: k,
         dueDate: toISODate(currentDate),
-        amount: installmentAmount,
+        amount: capitalPayment + interestPayment,
         capital: capitalPayment,
         interest: interestPayment,
         status: InstallmentStatus.PENDING
@@ -207,6 +413,48 @@ export const calculateSchedule = (
   return installments;
 };
 
+// --- Loan Charges ---
+
+const getChargeAmount = (charge: LoanCharge, base: number): number =>
+  charge.calculation === ChargeCalculation.PERCENTAGE ? base * (Number(charge.value) || 0) / 100 : Number(charge.value) || 0;
+
+/**
+ * Upfront charges split by how they are collected: deducted from the cash handed to the client,
+ * or financed (added to the capital and repaid in the installments). Percentages apply to the principal.
+ */
+export const getUpfrontCharges = (amount: number, charges?: LoanCharge[]): { deducted: number; financed: number } => {
+  const totals = { deducted: 0, financed: 0 };
+  (charges || []).filter(c => c.type === ChargeType.UPFRONT).forEach(c => {
+    if (c.upfrontMode === UpfrontChargeMode.FINANCED) totals.financed += getChargeAmount(c, amount);
+    else totals.deducted += getChargeAmount(c, amount);
+  });
+  return totals;
+};
+
+// Capital the schedule amortizes: the principal plus any financed upfront charges
+export const getFinancedAmount = (amount: number, charges?: LoanCharge[]): number =>
+  amount + getUpfrontCharges(amount, charges).financed;
+
+// Cash the client actually receives
+export const getDisbursedAmount = (loan: Pick<Loan, 'amount' | 'charges'>): number =>
+  loan.amount - getUpfrontCharges(loan.amount, loan.charges).deducted;
+
+/**
+ * Adds the recurring charges to each installment of a schedule built by calculateSchedule.
+ * Percentage charges apply to the capital still owed at the start of the period (e.g. insurance on the balance).
+ */
+export const applyRecurringCharges = (installments: Installment[], charges?: LoanCharge[]): Installment[] => {
+  const recurring = (charges || []).filter(c => c.type === ChargeType.RECURRING);
+  if (recurring.length === 0) return installments;
+
+  let owed = installments.reduce((acc, i) => acc + i.capital, 0);
+  return installments.map(inst => {
+    const charged = recurring.reduce((acc, c) => acc + getChargeAmount(c, owed), 0);
+    owed -= inst.capital;
+    return { ...inst, charges: charged, amount: inst.capital + inst.interest + charged };
+  });
+};
+
 // --- Status Helpers ---
 
 export const getInstallmentStatus = (inst: Installment): InstallmentStatus => {
@@ -219,5 +467,116 @@ export const getInstallmentStatus = (inst: Installment): InstallmentStatus => {
   due.setHours(0,0,0,0);
 
   if (today > due) return InstallmentStatus.LATE;
+  if (inst.status === InstallmentStatus.PARTIAL) return InstallmentStatus.PARTIAL;
   return InstallmentStatus.PENDING;
+};
+
+export const getDaysLate = (dueDate: string, asOf: Date = new Date()): number => {
+  const reference = new Date(asOf);
+  reference.setHours(0,0,0,0);
+
+  const due = parseDate(dueDate);
+  due.setHours(0,0,0,0);
+
+  const days = Math.round((reference.getTime() - due.getTime()) / (1000 * 60 * 60 * 24));
+  return days > 0 ? days : 0;
+};
+
+// --- Payment Ledger ---
+
+// Amounts below one cent are treated as settled to absorb floating point noise
+const CENT = 0.005;
+
+export const getInstallmentBalance = (inst: Installment): number => {
+  const balance = inst.amount + (inst.penalty || 0) - (inst.paidAmount || 0);
+  return balance > CENT ? balance : 0;
+};
+
+export const getLoanBalance = (loan: Loan): number => {
+  // A refinanced loan owes nothing: its balance was carried into the new loan. Neither does an annulled one.
+  if (loan.status === LoanStatus.REFINANCED || loan.status === LoanStatus.ANNULLED) return 0;
+  return (loan.installments || []).reduce((acc, i) => acc + getInstallmentBalance(i), 0);
+};
+
+/**
+ * Splits a payment across the installments that still have a balance.
+ * The installment given in `startFrom` is filled first (the one the user clicked),
+ * any surplus then goes to the remaining installments in order.
+ */
+export const allocatePayment = (installments: Installment[], amount: number, startFrom?: number): PaymentAllocation[] => {
+  const allocations: PaymentAllocation[] = [];
+  let remaining = amount;
+
+  const ordered = [...installments].sort((a, b) => a.number - b.number);
+  if (startFrom !== undefined) {
+    const target = ordered.findIndex(i => i.number === startFrom);
+    if (target > 0) ordered.unshift(...ordered.splice(target, 1));
+  }
+
+  for (const inst of ordered) {
+    if (remaining <= CENT) break;
+    const balance = getInstallmentBalance(inst);
+    if (balance <= 0) continue;
+
+    const applied = Math.min(balance, remaining);
+    allocations.push({ installmentNumber: inst.number, amount: applied });
+    remaining -= applied;
+  }
+
+  return allocations;
+};
+
+/**
+ * Rebuilds installment statuses, paid amounts and the loan total from the payment ledger.
+ * The ledger is the single source of truth; installment flags are derived, never edited directly.
+ * Reversed payments stay in the ledger but are not applied.
+ */
+export const applyPaymentLedger = (loan: Loan): Loan => {
+  const payments = [...(loan.payments || [])].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  const installments = loan.installments.map(inst => ({ ...inst, paidAmount: 0, paymentDate: undefined as string | undefined }));
+  const byNumber = new Map(installments.map(i => [i.number, i]));
+
+  const applied = payments.filter(p => !p.reversal);
+  applied.forEach(payment => {
+    payment.allocations.forEach(alloc => {
+      const inst = byNumber.get(alloc.installmentNumber);
+      if (!inst) return;
+      inst.paidAmount += alloc.amount;
+      inst.paymentDate = payment.date;
+    });
+  });
+
+  installments.forEach(inst => {
+    if (getInstallmentBalance(inst) === 0) {
+      inst.status = InstallmentStatus.PAID;
+    } else {
+      inst.status = inst.paidAmount > CENT ? InstallmentStatus.PARTIAL : InstallmentStatus.PENDING;
+      inst.paymentDate = inst.paidAmount > CENT ? inst.paymentDate : undefined;
+    }
+  });
+
+  return {
+    ...loan,
+    installments,
+    payments,
+    totalPaid: applied.reduce((acc, p) => acc + p.amount, 0)
+  };
+};
+
+/**
+ * Builds a ledger for loans saved before payments were recorded,
+ * turning every installment flagged as paid into a single full payment.
+ */
+export const buildLegacyPayments = (installments: Installment[]): Payment[] => {
+  return installments
+    .filter(i => i.status === InstallmentStatus.PAID)
+    .map(i => ({
+      id: `legacy-${i.number}`,
+      amount: i.amount,
+      date: i.paymentDate || i.dueDate,
+      method: PaymentMethod.CASH,
+      note: 'Pago registrado antes del libro de pagos',
+      allocations: [{ installmentNumber: i.number, amount: i.amount }]
+    }));
 };
\ No newline at end of file